@@ -0,0 +1,73 @@
+import { ApiClient } from '../services/ApiClient'
+import { AuthTokens, TokenProvider } from '../types/types'
+import { ENDPOINT_PREFIX, USER } from './endpoints'
+import { storage } from './storage'
+
+/**
+ * Exemplo do módulo de autenticação do ApiClient.
+ * O token é injetado automaticamente e, quando a API responde 401,
+ * os tokens são renovados uma única vez e as requisições são repetidas.
+ */
+
+// Adaptador do storage para o formato esperado pelo módulo de autenticação
+const tokenProvider: TokenProvider = {
+    getAccessToken: () => storage.getTokens()?.accessToken,
+    getRefreshToken: () => storage.getTokens()?.refreshToken,
+    setTokens: ({ accessToken, refreshToken }) => {
+        storage.setTokens({
+            accessToken,
+            refreshToken: refreshToken || '',
+            expiresAt: Date.now() + (60 * 60 * 1000) // 1 hora
+        })
+    },
+    clearTokens: () => storage.clearTokens()
+}
+
+export const api: ApiClient = new ApiClient({
+    baseURL: ENDPOINT_PREFIX,
+    auth: {
+        tokenProvider,
+        // A requisição de refresh usa skipAuth para não aguardar a própria renovação
+        refreshTokens: async (refreshToken) => {
+            const response = await api.request<AuthTokens>({
+                url: '/auth/refresh',
+                method: 'POST',
+                data: { refreshToken },
+                skipAuth: true
+            })
+            return response.data
+        },
+        // Chamado quando a renovação falha: força o logout
+        onAuthFailure: () => {
+            console.warn('🚪 Sessão expirada, redirecionando para o login')
+            api.cancelAll('logout')
+            storage.clearAll()
+        }
+    }
+})
+
+interface Usuario {
+    id: string
+    nome: string
+    email: string
+}
+
+/**
+ * Requisições concorrentes: se o token estiver expirado, apenas uma
+ * renovação é feita e as três requisições são repetidas com o novo token.
+ */
+async function carregarPainel() {
+    const [usuario, agendas, votos] = await Promise.all([
+        api.get<Usuario>(USER.GET_ME),
+        api.get<unknown[]>('/agendas'),
+        api.get<unknown[]>('/votos', { userId: '123' })
+    ])
+
+    console.log('✅ Usuário:', usuario.data.nome)
+    console.log('📋 Agendas:', agendas.data.length)
+    console.log('🗳️ Votos:', votos.data.length)
+}
+
+carregarPainel().catch((error) => {
+    console.error('❌ Erro ao carregar painel:', error.message)
+})
@@ -82,8 +82,9 @@ api.addResponseInterceptor((response) => {
 
 /**
  * Interceptador de erro para refresh token automático.
+ * Após renovar o token, repete a requisição original com `context.retry()`.
  */
-api.addErrorInterceptor(async (error) => {
+api.addErrorInterceptor(async (error, context) => {
     console.log('Erro interceptado:', {
         status: error.status,
         message: error.message,
@@ -97,12 +98,10 @@ api.addErrorInterceptor(async (error) => {
             const newTokens = await refreshToken()
             storage.setTokens(newTokens)
 
-            // Retorna uma resposta de sucesso indicando que o token foi renovado
-            return {
-                data: { message: 'Token renovado automaticamente' },
-                status: 200,
-                message: 'Autenticação renovada com sucesso'
-            }
+            // Repete a requisição original (mesma URL, método e corpo) com o novo token.
+            // O interceptador de requisição lê o token atualizado do storage.
+            console.log('Repetindo requisição:', context.config.method, context.config.url)
+            return await context.retry()
         } catch (refreshError) {
             console.error('Erro ao renovar token:', refreshError)
             // Se falhar o refresh, retorna o erro original
@@ -1,5 +1,20 @@
 export * from './types/types'
 export * from './types/graphql'
+export * from './types/cube'
 export * from './utils/graphqlHelpers'
+export * from './utils/cubeSchema'
+export * from './utils/cubeResults'
+export * from './utils/cancellation'
+export * from './utils/errors'
+export * from './services/GraphQLClient'
+export * from './services/SubscriptionClient'
 export * from './services/CubeGraphQLClient'
+export * from './services/CubeRestClient'
+export * from './services/CubeSchema'
 export * from './services/ApiClient'
+export * from './services/AuthManager'
+export * from './services/CacheStore'
+export * from './services/ResponseCache'
+export * from './services/RequestDeduplicator'
+export * from './services/GraphQLBatcher'
+export * from './services/Paginator'
@@ -9,7 +9,51 @@ import {
   ResponseInterceptor,
   ErrorInterceptor,
   QueryParams,
+  RetryPolicy,
+  InterceptorContext,
+  InterceptorOptions,
+  CacheEntry,
+  PaginateOptions,
 } from '../types/types'
+import {
+  buildRequestKey,
+  cloneData,
+  getNextLink,
+  isApiResponse,
+  isRequestCallbacks,
+  linkAbortSignal,
+  settle,
+  stableStringify,
+} from '../utils/requestHelpers'
+import { resolveRetryPolicy, withRetry } from '../utils/retry'
+import { AuthManager } from './AuthManager'
+import { ResolvedCacheOptions, ResponseCache } from './ResponseCache'
+import { RequestDeduplicator } from './RequestDeduplicator'
+import { Paginator } from './Paginator'
+import { isCancelledError } from '../utils/cancellation'
+import { ParseError, normalizeHeaders, toApiError } from '../utils/errors'
+
+/**
+ * Interceptador registrado com sua prioridade.
+ * @internal
+ */
+interface InterceptorEntry<I> {
+  interceptor: I
+  priority: number
+}
+
+/**
+ * Estado de uma execução repetida (renovação de token ou `context.retry()`).
+ * @internal
+ */
+interface ExecutionState {
+  /** Indica que a requisição já foi repetida após a renovação do token */
+  isAuthReplay?: boolean
+  /** Tentativas HTTP realizadas pelas execuções anteriores */
+  previousAttempts?: number
+  /** Recebe a resposta atualizada quando uma entrada obsoleta do cache é revalidada */
+  onRevalidate?: (response: ApiResponse<unknown>) => void
+}
 
 /**
  * Cliente HTTP para requisições API com tratamento de erros e respostas padronizadas.
@@ -67,9 +111,15 @@ import {
  */
 export class ApiClient {
   private api: AxiosInstance
-  private requestInterceptors: RequestInterceptor[] = []
-  private responseInterceptors: ResponseInterceptor[] = []
-  private errorInterceptors: ErrorInterceptor[] = []
+  private retryPolicy?: RetryPolicy | false
+  private pendingControllers = new Set<AbortController>()
+  private auth?: AuthManager
+  private cache: ResponseCache
+  private dedupe: boolean
+  private deduplicator = new RequestDeduplicator()
+  private requestInterceptors: InterceptorEntry<RequestInterceptor>[] = []
+  private responseInterceptors: InterceptorEntry<ResponseInterceptor>[] = []
+  private errorInterceptors: InterceptorEntry<ErrorInterceptor>[] = []
 
   /**
    * Cria uma nova instância do cliente API
@@ -77,8 +127,16 @@ export class ApiClient {
    * @param config.baseURL URL base para todas as requisições
    * @param config.timeout Tempo limite em milissegundos (padrão: 10000)
    * @param config.headers Headers customizados para todas as requisições
+   * @param config.retry Política de retentativa padrão (desativada por padrão)
+   * @param config.auth Configuração de autenticação com renovação automática de token
+   * @param config.cache Cache de respostas GET (desativado por padrão)
+   * @param config.dedupe Compartilha requisições GET idênticas e simultâneas (padrão: true)
    */
   constructor(config: ApiClientConfig) {
+    this.retryPolicy = config.retry
+    this.auth = config.auth ? new AuthManager(config.auth) : undefined
+    this.cache = new ResponseCache(config.cache)
+    this.dedupe = config.dedupe ?? true
     this.api = axios.create({
       baseURL: config.baseURL,
       timeout: config.timeout || 10000,
@@ -91,14 +149,17 @@ export class ApiClient {
 
   /**
    * Adiciona um interceptador de requisição.
-   * Permite modificar a configuração da requisição antes do envio.
+   * Permite modificar a configuração da requisição antes do envio, inclusive de forma assíncrona,
+   * ou encerrar a requisição retornando uma `ApiResponse` sintética (sem acessar a rede).
    * 
    * @param interceptor Função que recebe e retorna a configuração da requisição
+   * @param options Opções de registro, como a prioridade de execução
+   * @returns Função que remove o interceptador
    * 
    * @example
    * ```typescript
-   * api.addRequestInterceptor((config) => {
-   *   const token = storage.getToken()
+   * const remover = api.addRequestInterceptor(async (config) => {
+   *   const token = await secureStorage.getToken()
    *   if (token) {
    *     config.headers = {
    *       ...config.headers,
@@ -106,18 +167,31 @@ export class ApiClient {
    *     }
    *   }
    *   return config
+   * }, { priority: 10 })
+   * 
+   * // Responde sem acessar a rede
+   * api.addRequestInterceptor((config) => {
+   *   if (config.url === '/health') {
+   *     return { data: { ok: true }, status: 200, message: 'Mock' }
+   *   }
+   *   return config
    * })
+   * 
+   * remover()
    * ```
    */
-  addRequestInterceptor(interceptor: RequestInterceptor): void {
-    this.requestInterceptors.push(interceptor)
+  addRequestInterceptor(interceptor: RequestInterceptor, options: InterceptorOptions = {}): () => void {
+    this.insertInterceptor(this.requestInterceptors, interceptor, options)
+    return () => this.removeRequestInterceptor(interceptor)
   }
 
   /**
    * Adiciona um interceptador de resposta.
    * Permite processar a resposta antes de retorná-la para o callback.
    * 
-   * @param interceptor Função que recebe e retorna a resposta processada
+   * @param interceptor Função que recebe a resposta e o contexto da requisição, e retorna a resposta processada
+   * @param options Opções de registro, como a prioridade de execução
+   * @returns Função que remove o interceptador
    * 
    * @example
    * ```typescript
@@ -130,33 +204,34 @@ export class ApiClient {
    * })
    * ```
    */
-  addResponseInterceptor(interceptor: ResponseInterceptor): void {
-    this.responseInterceptors.push(interceptor)
+  addResponseInterceptor(interceptor: ResponseInterceptor, options: InterceptorOptions = {}): () => void {
+    this.insertInterceptor(this.responseInterceptors, interceptor, options)
+    return () => this.removeResponseInterceptor(interceptor)
   }
 
   /**
    * Adiciona um interceptador de erro.
    * Permite processar erros antes de retorná-los para o callback.
    * 
-   * @param interceptor Função que recebe um erro e retorna erro processado ou nova resposta
+   * @param interceptor Função que recebe um erro e o contexto da requisição, e retorna erro processado ou nova resposta
+   * @param options Opções de registro, como a prioridade de execução
+   * @returns Função que remove o interceptador
    * 
    * @example
    * ```typescript
-   * api.addErrorInterceptor(async (error) => {
+   * api.addErrorInterceptor(async (error, context) => {
    *   if (error.status === 401) {
    *     await refreshToken()
-   *     // Pode retornar um novo ApiResponse ou o erro processado
-   *     return {
-   *       ...error,
-   *       message: 'Token renovado automaticamente'
-   *     }
+   *     // Repete a requisição original pelo pipeline completo
+   *     return context.retry()
    *   }
    *   return error
    * })
    * ```
    */
-  addErrorInterceptor(interceptor: ErrorInterceptor): void {
-    this.errorInterceptors.push(interceptor)
+  addErrorInterceptor(interceptor: ErrorInterceptor, options: InterceptorOptions = {}): () => void {
+    this.insertInterceptor(this.errorInterceptors, interceptor, options)
+    return () => this.removeErrorInterceptor(interceptor)
   }
 
   /**
@@ -164,10 +239,7 @@ export class ApiClient {
    * @param interceptor Interceptador a ser removido
    */
   removeRequestInterceptor(interceptor: RequestInterceptor): void {
-    const index = this.requestInterceptors.indexOf(interceptor)
-    if (index > -1) {
-      this.requestInterceptors.splice(index, 1)
-    }
+    this.deleteInterceptor(this.requestInterceptors, interceptor)
   }
 
   /**
@@ -175,10 +247,7 @@ export class ApiClient {
    * @param interceptor Interceptador a ser removido
    */
   removeResponseInterceptor(interceptor: ResponseInterceptor): void {
-    const index = this.responseInterceptors.indexOf(interceptor)
-    if (index > -1) {
-      this.responseInterceptors.splice(index, 1)
-    }
+    this.deleteInterceptor(this.responseInterceptors, interceptor)
   }
 
   /**
@@ -186,10 +255,7 @@ export class ApiClient {
    * @param interceptor Interceptador a ser removido
    */
   removeErrorInterceptor(interceptor: ErrorInterceptor): void {
-    const index = this.errorInterceptors.indexOf(interceptor)
-    if (index > -1) {
-      this.errorInterceptors.splice(index, 1)
-    }
+    this.deleteInterceptor(this.errorInterceptors, interceptor)
   }
 
   /**
@@ -202,43 +268,148 @@ export class ApiClient {
   }
 
   /**
-   * Aplica todos os interceptadores de requisição à configuração.
+   * Insere um interceptador mantendo a lista ordenada por prioridade.
+   * Interceptadores com maior prioridade executam primeiro; em caso de empate,
+   * vale a ordem de registro.
+   * @internal
+   */
+  private insertInterceptor<I>(
+    entries: InterceptorEntry<I>[],
+    interceptor: I,
+    { priority = 0 }: InterceptorOptions
+  ): void {
+    const index = entries.findIndex((entry) => entry.priority < priority)
+    const entry = { interceptor, priority }
+    if (index === -1) {
+      entries.push(entry)
+    } else {
+      entries.splice(index, 0, entry)
+    }
+  }
+
+  /**
+   * Remove a primeira ocorrência de um interceptador da lista.
+   * @internal
+   */
+  private deleteInterceptor<I>(entries: InterceptorEntry<I>[], interceptor: I): void {
+    const index = entries.findIndex((entry) => entry.interceptor === interceptor)
+    if (index > -1) {
+      entries.splice(index, 1)
+    }
+  }
+
+  /**
+   * Cancela todas as requisições em andamento deste cliente.
+   * As requisições canceladas chamam `onCancel` (ou `onError`) com o código `ERR_CANCELED`.
+   * 
+   * @param reason Motivo do cancelamento (opcional, disponível em `error.details`)
+   * 
+   * @example
+   * ```typescript
+   * function logout() {
+   *   api.cancelAll('logout')
+   *   storage.clearAll()
+   * }
+   * ```
+   */
+  cancelAll(reason?: unknown): void {
+    for (const controller of this.pendingControllers) {
+      controller.abort(reason)
+    }
+    this.pendingControllers.clear()
+  }
+
+  /**
+   * Remove do cache as respostas cuja chave começa com o valor informado.
+   * As chaves são compostas pelo caminho e pelos parâmetros ordenados (ex.: '/agendas?pagina=1').
+   * 
+   * @param keyOrPrefix Chave exata ou prefixo (ex.: '/agendas')
+   * 
+   * @example
+   * ```typescript
+   * // Após uma importação em lote feita por outro serviço
+   * await api.invalidateCache('/agendas')
+   * ```
+   */
+  invalidateCache(keyOrPrefix: string): Promise<void> {
+    return this.cache.invalidate(keyOrPrefix)
+  }
+
+  /**
+   * Remove todas as respostas do cache.
+   * 
+   * @example
+   * ```typescript
+   * async function logout() {
+   *   api.cancelAll('logout')
+   *   await api.clearCache()
+   * }
+   * ```
+   */
+  clearCache(): Promise<void> {
+    return this.cache.clear()
+  }
+
+  /**
+   * Aplica todos os interceptadores de requisição à configuração, em ordem de prioridade.
+   * Se um interceptador retornar uma `ApiResponse`, os demais são ignorados
+   * e a resposta é usada no lugar da requisição.
    * @param config Configuração inicial da requisição
-   * @returns Configuração processada pelos interceptadores
+   * @returns Configuração processada pelos interceptadores ou resposta sintética
    * @internal
    */
-  private applyRequestInterceptors(config: RequestConfig): RequestConfig {
-    return this.requestInterceptors.reduce(
-      (processedConfig, interceptor) => interceptor(processedConfig),
-      config
-    )
+  private async applyRequestInterceptors(
+    config: RequestConfig
+  ): Promise<RequestConfig | ApiResponse<unknown>> {
+    let processedConfig = config
+
+    for (const { interceptor } of [...this.requestInterceptors]) {
+      const result = await interceptor(processedConfig)
+      if (isApiResponse(result)) {
+        return result
+      }
+      processedConfig = result
+    }
+
+    return processedConfig
   }
 
   /**
-   * Aplica todos os interceptadores de resposta.
+   * Aplica todos os interceptadores de resposta, em ordem de prioridade.
    * @param response Resposta original
+   * @param context Contexto da requisição que originou a resposta
    * @returns Resposta processada pelos interceptadores
    * @internal
    */
-  private applyResponseInterceptors<T>(response: ApiResponse<T>): ApiResponse<T> {
-    return this.responseInterceptors.reduce(
-      (processedResponse, interceptor) => interceptor(processedResponse),
-      response
-    )
+  private async applyResponseInterceptors<T>(
+    response: ApiResponse<T>,
+    context: InterceptorContext
+  ): Promise<ApiResponse<T>> {
+    let processedResponse = response
+
+    for (const { interceptor } of [...this.responseInterceptors]) {
+      processedResponse = await interceptor(processedResponse, context)
+    }
+
+    return processedResponse
   }
 
   /**
    * Aplica todos os interceptadores de erro.
    * @param error Erro original
+   * @param context Contexto da requisição que originou o erro
    * @returns Erro processado ou nova resposta
    * @internal
    */
-  private async applyErrorInterceptors(error: ApiError): Promise<ApiError | ApiResponse<unknown>> {
+  private async applyErrorInterceptors(
+    error: ApiError,
+    context: InterceptorContext
+  ): Promise<ApiError | ApiResponse<unknown>> {
     let processedError: ApiError | ApiResponse<unknown> = error
 
-    for (const interceptor of this.errorInterceptors) {
+    for (const { interceptor } of [...this.errorInterceptors]) {
       try {
-        const result = await interceptor(error)
+        const result = await interceptor(error, context)
         processedError = result
         // Se um interceptador retornar uma ApiResponse, para o processamento
         if ('data' in result) {
@@ -254,20 +425,15 @@ export class ApiClient {
   }
 
   /**
-   * Extrai e padroniza os dados de erro do Axios
+   * Converte o erro do Axios no erro tipado correspondente
+   * (`HttpError` e subclasses, `TimeoutError`, `NetworkError`, `CancelledError`...)
    * @param error Erro original do Axios
-   * @returns Objeto de erro padronizado
+   * @param config Configuração da requisição que falhou
+   * @returns Erro padronizado
    * @internal
    */
-  private extractErrorData(error: AxiosError): ApiError {
-    return {
-      message:
-        (error.response?.data as { message?: string })?.message ||
-        'Ocorreu um erro na requisição',
-      status: error.response?.status || 500,
-      code: error.code,
-      details: error.response?.data,
-    }
+  private extractErrorData(error: AxiosError, config: RequestConfig): ApiError {
+    return toApiError(error, config)
   }
 
   /**
@@ -277,12 +443,318 @@ export class ApiClient {
    * @internal
    */
   private extractResponseData<T>(response: AxiosResponse<T>): ApiResponse<T> {
-    const responseData = response.data as { message?: string }
+    // HEAD e respostas 204 não possuem corpo
+    const responseData = response.data as { message?: string } | null
     return {
       data: response.data,
       status: response.status,
-      message: responseData.message || 'Operação realizada com sucesso',
+      message: responseData?.message || 'Operação realizada com sucesso',
+      headers: normalizeHeaders(response.headers),
+    }
+  }
+
+  /**
+   * Cria o contexto entregue aos interceptadores de resposta e de erro.
+   * @param originalConfig Configuração recebida por `request`, antes dos interceptadores
+   * @param finalConfig Configuração após os interceptadores de requisição
+   * @param attempt Total de tentativas HTTP realizadas
+   * @returns Contexto com a configuração final e a função `retry`
+   * @internal
+   */
+  private createInterceptorContext(
+    originalConfig: RequestConfig,
+    finalConfig: RequestConfig,
+    attempt: number
+  ): InterceptorContext {
+    return {
+      config: finalConfig,
+      attempt,
+      retry: <R = unknown>(config: RequestConfig = {}) =>
+        this.execute<R>(
+          { ...originalConfig, ...config, headers: { ...originalConfig.headers, ...config.headers } },
+          { previousAttempts: attempt }
+        ),
+    }
+  }
+
+  /**
+   * Envia a requisição HTTP com a configuração final.
+   * Com uma entrada de cache, adiciona os headers condicionais e aceita a resposta 304.
+   * Requisições GET idênticas e simultâneas compartilham a mesma chamada HTTP,
+   * e cada chamador recebe uma cópia própria dos dados.
+   * @param requestConfig Configuração após os interceptadores de requisição
+   * @param config Configuração original, usada quando um campo não foi definido pelos interceptadores
+   * @param method Método HTTP
+   * @param signal Sinal de cancelamento da execução
+   * @param cachedEntry Entrada a ser revalidada (opcional)
+   * @returns Resposta original do Axios
+   * @internal
+   */
+  private send<T>(
+    requestConfig: RequestConfig,
+    config: RequestConfig,
+    method: string,
+    signal: AbortSignal,
+    cachedEntry?: CacheEntry
+  ): Promise<AxiosResponse<T>> {
+    const url = requestConfig.url || config.url
+    const params = requestConfig.params || config.params
+    const headers = {
+      ...requestConfig.headers,
+      ...(cachedEntry && this.cache.conditionalHeaders(cachedEntry)),
+    }
+    const dispatchRequest = (requestSignal: AbortSignal) =>
+      this.api.request<T>({
+        url,
+        method,
+        headers,
+        timeout: requestConfig.timeout,
+        params,
+        data: requestConfig.data ?? config.data,
+        signal: requestSignal,
+        ...(cachedEntry && {
+          validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304,
+        }),
+      })
+
+    const dedupe = requestConfig.dedupe ?? config.dedupe ?? this.dedupe
+    if (!dedupe || method.toUpperCase() !== 'GET') {
+      return dispatchRequest(signal)
+    }
+
+    const key = `${buildRequestKey(url, params)} ${stableStringify(headers)}`
+    return this.deduplicator
+      .run(key, dispatchRequest, signal)
+      .then((response) => ({ ...response, data: cloneData(response.data) }))
+  }
+
+  /**
+   * Revalida em segundo plano uma entrada obsoleta do cache (stale-while-revalidate).
+   * Falhas são ignoradas: a entrada obsoleta continua válida até expirar.
+   * @param config Configuração original da requisição
+   * @param requestConfig Configuração após os interceptadores de requisição
+   * @param method Método HTTP
+   * @param cacheOptions Opções de cache resolvidas
+   * @param entry Entrada obsoleta
+   * @param onRevalidate Recebe a resposta atualizada, se o conteúdo mudou
+   * @internal
+   */
+  private revalidate<T>(
+    config: RequestConfig,
+    requestConfig: RequestConfig,
+    method: string,
+    cacheOptions: ResolvedCacheOptions,
+    entry: CacheEntry,
+    onRevalidate?: (response: ApiResponse<unknown>) => void
+  ): void {
+    const controller = new AbortController()
+    this.pendingControllers.add(controller)
+
+    this.send<T>(requestConfig, config, method, controller.signal, entry)
+      .then(async (response) => {
+        const fresh = await this.cache.save(cacheOptions, response, this.extractResponseData(response), entry)
+        if (response.status !== 304 && onRevalidate) {
+          onRevalidate(
+            await this.applyResponseInterceptors(fresh, this.createInterceptorContext(config, requestConfig, 1))
+          )
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => this.pendingControllers.delete(controller))
+  }
+
+  /**
+   * Executa uma requisição aplicando os interceptadores e padronizando o resultado.
+   * @param config Configuração inicial da requisição
+   * @param state Estado herdado de uma execução anterior, quando a requisição é repetida
+   * @returns Promise que resolve com a resposta padronizada ou rejeita com o erro padronizado
+   * @internal
+   */
+  private async execute<T>(config: RequestConfig, state: ExecutionState = {}): Promise<ApiResponse<T>> {
+    const controller = new AbortController()
+    const unlinkSignal = linkAbortSignal(controller, config.signal)
+    this.pendingControllers.add(controller)
+    const useAuth = !!this.auth && !config.skipAuth
+    const previousAttempts = state.previousAttempts || 0
+    let requestConfig = config
+    let usedToken: string | undefined
+    let attempts = 0
+
+    try {
+      // Injeta o token de acesso (aguardando uma renovação em andamento, se houver)
+      let authorizedConfig = config
+      if (useAuth) {
+        const authorization = await this.auth!.authorize(config)
+        authorizedConfig = authorization.config
+        usedToken = authorization.token
+      }
+
+      // Aplica interceptadores de requisição
+      const intercepted = await this.applyRequestInterceptors(authorizedConfig)
+
+      // Um interceptador encerrou a requisição com uma resposta sintética
+      if (isApiResponse(intercepted)) {
+        return this.applyResponseInterceptors(
+          intercepted as ApiResponse<T>,
+          this.createInterceptorContext(config, authorizedConfig, previousAttempts)
+        )
+      }
+      requestConfig = intercepted
+      const method = requestConfig.method || config.method || 'GET'
+      const retryPolicy = resolveRetryPolicy(this.retryPolicy, requestConfig.retry)
+
+      // Entrega cópias das respostas frescas ou obsoletas do cache sem aguardar a rede
+      const cacheOptions = this.cache.resolveOptions({
+        ...requestConfig,
+        url: requestConfig.url || config.url,
+        params: requestConfig.params || config.params,
+        method,
+      })
+      const cached = cacheOptions ? await this.cache.lookup(cacheOptions.key) : undefined
+      if (cacheOptions && cached && cached.state !== 'expired') {
+        if (cached.state === 'stale') {
+          this.revalidate<T>(config, requestConfig, method, cacheOptions, cached.entry, state.onRevalidate)
+        }
+        return this.applyResponseInterceptors(
+          cloneData(cached.entry.response) as ApiResponse<T>,
+          this.createInterceptorContext(config, requestConfig, previousAttempts)
+        )
+      }
+
+      const response = await withRetry(
+        (attempt) => {
+          attempts = attempt
+          return this.send<T>(requestConfig, config, method, controller.signal, cached?.entry)
+        },
+        method,
+        retryPolicy,
+        controller.signal
+      )
+
+      let result = this.extractResponseData<T>(response)
+      if (cacheOptions) {
+        result = await this.cache.save(cacheOptions, response, result, cached?.entry)
+      } else if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(method.toUpperCase())) {
+        // Mutações invalidam o recurso alterado e suas listagens
+        await this.cache.invalidateResource({ ...requestConfig, url: requestConfig.url || config.url })
+      }
+
+      // Aplica interceptadores de resposta
+      return this.applyResponseInterceptors(
+        result,
+        this.createInterceptorContext(config, requestConfig, previousAttempts + attempts)
+      )
+    } catch (error) {
+      const formattedError = this.extractErrorData(error as AxiosError, requestConfig)
+      if (attempts > 0) {
+        formattedError.attempts = previousAttempts + attempts
+      }
+
+      // Cancelamentos são intencionais e não passam pelos interceptadores de erro
+      if (isCancelledError(formattedError)) {
+        formattedError.details = controller.signal.reason
+        throw formattedError
+      }
+
+      // Renova o token e repete a requisição original uma única vez
+      if (useAuth && !state.isAuthReplay && this.auth!.shouldRefresh(formattedError)) {
+        if (await this.auth!.refresh(usedToken)) {
+          return this.execute<T>(config, {
+            isAuthReplay: true,
+            previousAttempts: previousAttempts + attempts,
+          })
+        }
+      }
+
+      // Aplica interceptadores de erro (uma única vez, após a última tentativa)
+      const processedError = await this.applyErrorInterceptors(
+        formattedError,
+        this.createInterceptorContext(config, requestConfig, previousAttempts + attempts)
+      )
+
+      // Se o interceptador retornou uma ApiResponse, a requisição é tratada como sucesso
+      if ('data' in processedError) {
+        return processedError as ApiResponse<T>
+      }
+      throw processedError
+    } finally {
+      unlinkSignal()
+      this.pendingControllers.delete(controller)
+    }
+  }
+
+  /**
+   * Realiza uma requisição HTTP genérica.
+   * Todos os métodos de conveniência (`get`, `post`, `put`, `patch`, `delete`, `head`, `options`)
+   * passam por aqui, recebendo o mesmo pipeline de interceptadores e a mesma padronização de respostas.
+   * 
+   * @param config Configuração da requisição (método padrão: GET)
+   * @param callbacks Objeto com callbacks de sucesso e erro (opcional)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * 
+   * @example
+   * ```typescript
+   * const { data } = await api.request<Relatorio>({
+   *   url: '/relatorios',
+   *   method: 'POST',
+   *   data: { periodo: '2024-03' },
+   *   timeout: 60000
+   * })
+   * ```
+   */
+  request<T>(config: RequestConfig, callbacks: RequestCallbacks<T>): Promise<void>
+  request<T>(config: RequestConfig): Promise<ApiResponse<T>>
+  async request<T>(
+    config: RequestConfig,
+    callbacks?: RequestCallbacks<T>,
+  ): Promise<ApiResponse<T> | void> {
+    return this.dispatch<T>(config, callbacks)
+  }
+
+  /**
+   * Normaliza a configuração e entrega o resultado da execução aos callbacks ou à promise.
+   * Com callbacks, `onSuccess` é chamado novamente quando uma resposta obsoleta do cache é revalidada.
+   * @internal
+   */
+  private dispatch<T>(config: RequestConfig, callbacks?: RequestCallbacks<T>): Promise<ApiResponse<T> | void> {
+    return settle(
+      this.execute<T>(
+        { ...config, method: config.method || 'GET', headers: { ...config.headers } },
+        { onRevalidate: callbacks?.onSuccess as ExecutionState['onRevalidate'] }
+      ),
+      callbacks
+    )
+  }
+
+  /**
+   * Encaminha um método sem corpo (GET, DELETE, HEAD, OPTIONS) para `request`,
+   * resolvendo a sobrecarga entre parâmetros de query string e callbacks.
+   * @internal
+   */
+  private requestWithParams<T>(
+    method: string,
+    url: string,
+    paramsOrCallbacks?: QueryParams | RequestCallbacks<T>,
+    callbacks?: RequestCallbacks<T>
+  ): Promise<ApiResponse<T> | void> {
+    // Determina se o primeiro parâmetro são parâmetros ou callbacks
+    if (isRequestCallbacks<T>(paramsOrCallbacks)) {
+      return this.dispatch<T>({ url, method }, paramsOrCallbacks)
     }
+    return this.dispatch<T>({ url, method, params: paramsOrCallbacks }, callbacks)
+  }
+
+  /**
+   * Encaminha um método com corpo (POST, PUT, PATCH) para `request`.
+   * @internal
+   */
+  private requestWithData<T>(
+    method: string,
+    url: string,
+    data?: unknown,
+    callbacks?: RequestCallbacks<T>
+  ): Promise<ApiResponse<T> | void> {
+    return this.dispatch<T>({ url, method, data }, callbacks)
   }
 
   /**
@@ -290,6 +762,7 @@ export class ApiClient {
    * @param url Caminho da requisição (será concatenado com baseURL)
    * @param paramsOrCallbacks Parâmetros de query string ou objeto com callbacks
    * @param callbacks Objeto com callbacks de sucesso e erro (opcional se parâmetros forem fornecidos)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
    * 
    * @example
    * ```typescript
@@ -304,63 +777,25 @@ export class ApiClient {
    *   onSuccess: (response) => console.log('Voto:', response.data),
    *   onError: (error) => console.error('Erro:', error.message)
    * })
+   * 
+   * // GET com async/await
+   * try {
+   *   const { data } = await api.get<Usuario>('/usuarios/1')
+   *   console.log('Usuário:', data)
+   * } catch (error) {
+   *   console.error('Erro:', (error as ApiError).message)
+   * }
    * ```
    */
+  get<T>(url: string, callbacks: RequestCallbacks<T>): Promise<void>
+  get<T>(url: string, params: QueryParams | undefined, callbacks: RequestCallbacks<T>): Promise<void>
+  get<T>(url: string, params?: QueryParams): Promise<ApiResponse<T>>
   async get<T>(
     url: string,
     paramsOrCallbacks?: QueryParams | RequestCallbacks<T>,
     callbacks?: RequestCallbacks<T>
-  ): Promise<void> {
-    // Determina se o primeiro parâmetro são parâmetros ou callbacks
-    let params: QueryParams | undefined
-    let finalCallbacks: RequestCallbacks<T>
-
-    if (paramsOrCallbacks && ('onSuccess' in paramsOrCallbacks || 'onError' in paramsOrCallbacks)) {
-      // Primeiro parâmetro são callbacks
-      params = undefined
-      finalCallbacks = paramsOrCallbacks as RequestCallbacks<T>
-    } else {
-      // Primeiro parâmetro são parâmetros
-      params = paramsOrCallbacks as QueryParams
-      finalCallbacks = callbacks || {}
-    }
-
-    const { onSuccess, onError } = finalCallbacks
-
-    try {
-      // Aplica interceptadores de requisição
-      const requestConfig = this.applyRequestInterceptors({
-        url,
-        method: 'GET',
-        headers: {},
-        params
-      })
-
-      const response = await this.api.get<T>(requestConfig.url || url, {
-        headers: requestConfig.headers,
-        timeout: requestConfig.timeout,
-        params: requestConfig.params || params
-      })
-
-      let formattedResponse = this.extractResponseData<T>(response)
-
-      // Aplica interceptadores de resposta
-      formattedResponse = this.applyResponseInterceptors(formattedResponse)
-
-      onSuccess?.(formattedResponse)
-    } catch (error) {
-      let formattedError = this.extractErrorData(error as AxiosError)
-
-      // Aplica interceptadores de erro
-      const processedError = await this.applyErrorInterceptors(formattedError)
-
-      // Se o interceptador retornou uma ApiResponse, chama onSuccess
-      if ('data' in processedError) {
-        onSuccess?.(processedError as ApiResponse<T>)
-      } else {
-        onError?.(processedError as ApiError)
-      }
-    }
+  ): Promise<ApiResponse<T> | void> {
+    return this.requestWithParams<T>('GET', url, paramsOrCallbacks, callbacks)
   }
 
   /**
@@ -370,6 +805,7 @@ export class ApiClient {
    * @param callbacks Objeto com callbacks de sucesso e erro
    * @param callbacks.onSuccess Callback chamado em caso de sucesso
    * @param callbacks.onError Callback chamado em caso de erro
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
    * 
    * @example
    * ```typescript
@@ -378,50 +814,18 @@ export class ApiClient {
    *   onSuccess: (response) => console.log('Criado:', response.data),
    *   onError: (error) => console.error('Erro:', error.message)
    * })
+   * 
+   * const { data: criado } = await api.post<Usuario>('/usuarios', dados)
    * ```
    */
+  post<T>(url: string, data: unknown, callbacks: RequestCallbacks<T>): Promise<void>
+  post<T>(url: string, data?: unknown): Promise<ApiResponse<T>>
   async post<T>(
     url: string,
-    data: unknown,
-    { onSuccess, onError }: RequestCallbacks<T> = {},
-  ): Promise<void> {
-    try {
-      // Aplica interceptadores de requisição
-      const requestConfig = this.applyRequestInterceptors({
-        url,
-        method: 'POST',
-        headers: {},
-        data
-      })
-
-      const response = await this.api.post<T>(
-        requestConfig.url || url,
-        requestConfig.data || data,
-        {
-          headers: requestConfig.headers,
-          timeout: requestConfig.timeout
-        }
-      )
-
-      let formattedResponse = this.extractResponseData<T>(response)
-
-      // Aplica interceptadores de resposta
-      formattedResponse = this.applyResponseInterceptors(formattedResponse)
-
-      onSuccess?.(formattedResponse)
-    } catch (error) {
-      let formattedError = this.extractErrorData(error as AxiosError)
-
-      // Aplica interceptadores de erro
-      const processedError = await this.applyErrorInterceptors(formattedError)
-
-      // Se o interceptador retornou uma ApiResponse, chama onSuccess
-      if ('data' in processedError) {
-        onSuccess?.(processedError as ApiResponse<T>)
-      } else {
-        onError?.(processedError as ApiError)
-      }
-    }
+    data?: unknown,
+    callbacks?: RequestCallbacks<T>,
+  ): Promise<ApiResponse<T> | void> {
+    return this.requestWithData<T>('POST', url, data, callbacks)
   }
 
   /**
@@ -431,6 +835,7 @@ export class ApiClient {
    * @param callbacks Objeto com callbacks de sucesso e erro
    * @param callbacks.onSuccess Callback chamado em caso de sucesso
    * @param callbacks.onError Callback chamado em caso de erro
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
    * 
    * @example
    * ```typescript
@@ -439,50 +844,43 @@ export class ApiClient {
    *   onSuccess: (response) => console.log('Atualizado:', response.data),
    *   onError: (error) => console.error('Erro:', error.message)
    * })
+   * 
+   * const { data: atualizado } = await api.put<Usuario>('/usuarios/1', atualizacao)
    * ```
    */
+  put<T>(url: string, data: unknown, callbacks: RequestCallbacks<T>): Promise<void>
+  put<T>(url: string, data?: unknown): Promise<ApiResponse<T>>
   async put<T>(
     url: string,
-    data: unknown,
-    { onSuccess, onError }: RequestCallbacks<T> = {},
-  ): Promise<void> {
-    try {
-      // Aplica interceptadores de requisição
-      const requestConfig = this.applyRequestInterceptors({
-        url,
-        method: 'PUT',
-        headers: {},
-        data
-      })
-
-      const response = await this.api.put<T>(
-        requestConfig.url || url,
-        requestConfig.data || data,
-        {
-          headers: requestConfig.headers,
-          timeout: requestConfig.timeout
-        }
-      )
-
-      let formattedResponse = this.extractResponseData<T>(response)
-
-      // Aplica interceptadores de resposta
-      formattedResponse = this.applyResponseInterceptors(formattedResponse)
-
-      onSuccess?.(formattedResponse)
-    } catch (error) {
-      let formattedError = this.extractErrorData(error as AxiosError)
-
-      // Aplica interceptadores de erro
-      const processedError = await this.applyErrorInterceptors(formattedError)
+    data?: unknown,
+    callbacks?: RequestCallbacks<T>,
+  ): Promise<ApiResponse<T> | void> {
+    return this.requestWithData<T>('PUT', url, data, callbacks)
+  }
 
-      // Se o interceptador retornou uma ApiResponse, chama onSuccess
-      if ('data' in processedError) {
-        onSuccess?.(processedError as ApiResponse<T>)
-      } else {
-        onError?.(processedError as ApiError)
-      }
-    }
+  /**
+   * Realiza uma requisição PATCH para atualizações parciais
+   * @param url Caminho da requisição (será concatenado com baseURL)
+   * @param data Campos a serem atualizados
+   * @param callbacks Objeto com callbacks de sucesso e erro
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * 
+   * @example
+   * ```typescript
+   * api.patch('/agendas/1', { status: 'ENCERRADA' }, {
+   *   onSuccess: (response) => console.log('Agenda atualizada:', response.data),
+   *   onError: (error) => console.error('Erro:', error.message)
+   * })
+   * ```
+   */
+  patch<T>(url: string, data: unknown, callbacks: RequestCallbacks<T>): Promise<void>
+  patch<T>(url: string, data?: unknown): Promise<ApiResponse<T>>
+  async patch<T>(
+    url: string,
+    data?: unknown,
+    callbacks?: RequestCallbacks<T>,
+  ): Promise<ApiResponse<T> | void> {
+    return this.requestWithData<T>('PATCH', url, data, callbacks)
   }
 
   /**
@@ -490,6 +888,7 @@ export class ApiClient {
    * @param url Caminho da requisição (será concatenado com baseURL)
    * @param paramsOrCallbacks Parâmetros de query string ou objeto com callbacks
    * @param callbacks Objeto com callbacks de sucesso e erro (opcional se parâmetros forem fornecidos)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
    * 
    * @example
    * ```typescript
@@ -504,62 +903,186 @@ export class ApiClient {
    *   onSuccess: (response) => console.log('Voto removido:', response.data),
    *   onError: (error) => console.error('Erro:', error.message)
    * })
+   * 
+   * // DELETE com async/await
+   * await api.delete('/usuarios/1')
    * ```
    */
+  delete<T>(url: string, callbacks: RequestCallbacks<T>): Promise<void>
+  delete<T>(url: string, params: QueryParams | undefined, callbacks: RequestCallbacks<T>): Promise<void>
+  delete<T>(url: string, params?: QueryParams): Promise<ApiResponse<T>>
   async delete<T>(
     url: string,
     paramsOrCallbacks?: QueryParams | RequestCallbacks<T>,
     callbacks?: RequestCallbacks<T>
-  ): Promise<void> {
-    // Determina se o primeiro parâmetro são parâmetros ou callbacks
-    let params: QueryParams | undefined
-    let finalCallbacks: RequestCallbacks<T>
-
-    if (paramsOrCallbacks && ('onSuccess' in paramsOrCallbacks || 'onError' in paramsOrCallbacks)) {
-      // Primeiro parâmetro são callbacks
-      params = undefined
-      finalCallbacks = paramsOrCallbacks as RequestCallbacks<T>
-    } else {
-      // Primeiro parâmetro são parâmetros
-      params = paramsOrCallbacks as QueryParams
-      finalCallbacks = callbacks || {}
-    }
-
-    const { onSuccess, onError } = finalCallbacks
-
-    try {
-      // Aplica interceptadores de requisição
-      const requestConfig = this.applyRequestInterceptors({
-        url,
-        method: 'DELETE',
-        headers: {},
-        params
-      })
-
-      const response = await this.api.delete<T>(requestConfig.url || url, {
-        headers: requestConfig.headers,
-        timeout: requestConfig.timeout,
-        params: requestConfig.params || params
-      })
-
-      let formattedResponse = this.extractResponseData<T>(response)
+  ): Promise<ApiResponse<T> | void> {
+    return this.requestWithParams<T>('DELETE', url, paramsOrCallbacks, callbacks)
+  }
 
-      // Aplica interceptadores de resposta
-      formattedResponse = this.applyResponseInterceptors(formattedResponse)
+  /**
+   * Realiza uma requisição HEAD.
+   * Útil para verificar a existência de um recurso sem transferir o corpo da resposta.
+   * @param url Caminho da requisição (será concatenado com baseURL)
+   * @param paramsOrCallbacks Parâmetros de query string ou objeto com callbacks
+   * @param callbacks Objeto com callbacks de sucesso e erro (opcional se parâmetros forem fornecidos)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * 
+   * @example
+   * ```typescript
+   * api.head('/usuarios/1', {
+   *   onSuccess: () => console.log('Usuário existe'),
+   *   onError: (error) => {
+   *     if (error.status === 404) console.log('Usuário não encontrado')
+   *   }
+   * })
+   * ```
+   */
+  head<T = void>(url: string, callbacks: RequestCallbacks<T>): Promise<void>
+  head<T = void>(url: string, params: QueryParams | undefined, callbacks: RequestCallbacks<T>): Promise<void>
+  head<T = void>(url: string, params?: QueryParams): Promise<ApiResponse<T>>
+  async head<T = void>(
+    url: string,
+    paramsOrCallbacks?: QueryParams | RequestCallbacks<T>,
+    callbacks?: RequestCallbacks<T>
+  ): Promise<ApiResponse<T> | void> {
+    return this.requestWithParams<T>('HEAD', url, paramsOrCallbacks, callbacks)
+  }
 
-      onSuccess?.(formattedResponse)
-    } catch (error) {
-      let formattedError = this.extractErrorData(error as AxiosError)
+  /**
+   * Realiza uma requisição OPTIONS.
+   * @param url Caminho da requisição (será concatenado com baseURL)
+   * @param paramsOrCallbacks Parâmetros de query string ou objeto com callbacks
+   * @param callbacks Objeto com callbacks de sucesso e erro (opcional se parâmetros forem fornecidos)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * 
+   * @example
+   * ```typescript
+   * const { status } = await api.options('/agendas')
+   * ```
+   */
+  options<T>(url: string, callbacks: RequestCallbacks<T>): Promise<void>
+  options<T>(url: string, params: QueryParams | undefined, callbacks: RequestCallbacks<T>): Promise<void>
+  options<T>(url: string, params?: QueryParams): Promise<ApiResponse<T>>
+  async options<T>(
+    url: string,
+    paramsOrCallbacks?: QueryParams | RequestCallbacks<T>,
+    callbacks?: RequestCallbacks<T>
+  ): Promise<ApiResponse<T> | void> {
+    return this.requestWithParams<T>('OPTIONS', url, paramsOrCallbacks, callbacks)
+  }
 
-      // Aplica interceptadores de erro
-      const processedError = await this.applyErrorInterceptors(formattedError)
+  /**
+   * Percorre um endpoint de listagem página a página, com um iterador assíncrono.
+   * As páginas são buscadas com GET, passando pelo mesmo pipeline das demais requisições
+   * (autenticação, interceptadores, cache e retentativas).
+   * @param url Caminho do endpoint de listagem
+   * @param options Estratégia de paginação, parâmetros, extração dos itens e limite de itens
+   * @returns `Paginator` que entrega as páginas em `for await` ou todos os itens em `collectAll`
+   * 
+   * @example
+   * ```typescript
+   * // Deslocamento, buscando até 3 páginas em paralelo
+   * for await (const page of api.paginate<Agenda>('/agendas', {
+   *   strategy: { type: 'offset', limit: 100, concurrency: 3 },
+   *   params: { status: 'ativo' }
+   * })) {
+   *   renderizar(page.items)
+   * }
+   * 
+   * // Cursor, com os itens em `data.items`
+   * const pedidos = await api.paginate<Pedido, { items: Pedido[]; nextCursor?: string }>('/pedidos', {
+   *   strategy: { type: 'cursor', getCursor: (response) => response.data.nextCursor },
+   *   getItems: (response) => response.data.items,
+   *   maxItems: 1000
+   * }).collectAll()
+   * 
+   * // Header Link (ex.: API do GitHub)
+   * const repos = await api.paginate<Repo>('/orgs/exemplo/repos', { strategy: { type: 'link' } }).collectAll()
+   * ```
+   */
+  paginate<T, D = unknown>(url: string, options: PaginateOptions<T, D>): Paginator<T, ApiResponse<D>> {
+    const { strategy, params, maxItems, signal } = options
+    const getItems = options.getItems || getListItems
+    const fetchPage = async (request: RequestConfig, hasMore: (items: T[], response: ApiResponse<D>) => boolean) => {
+      const response = await this.request<D>({ method: 'GET', ...request })
+      const items = getItems(response) as T[]
+      return { items, response, hasMore: items.length > 0 && hasMore(items, response) }
+    }
 
-      // Se o interceptador retornou uma ApiResponse, chama onSuccess
-      if ('data' in processedError) {
-        onSuccess?.(processedError as ApiResponse<T>)
-      } else {
-        onError?.(processedError as ApiError)
+    switch (strategy.type) {
+      case 'offset': {
+        const { limit, start = 0, offsetParam = 'offset', limitParam = 'limit' } = strategy
+        return new Paginator<T, ApiResponse<D>>(
+          (index, pageSignal) =>
+            fetchPage(
+              { url, params: { ...params, [offsetParam]: start + index * limit, [limitParam]: limit }, signal: pageSignal },
+              (items) => items.length >= limit
+            ),
+          { concurrency: strategy.concurrency, maxItems, signal }
+        )
+      }
+      case 'page': {
+        const { pageSize, firstPage = 1, pageParam = 'page', pageSizeParam = 'pageSize' } = strategy
+        return new Paginator<T, ApiResponse<D>>(
+          (index, pageSignal) =>
+            fetchPage(
+              {
+                url,
+                params: { ...params, [pageParam]: firstPage + index, ...(pageSize && { [pageSizeParam]: pageSize }) },
+                signal: pageSignal,
+              },
+              (items) => !pageSize || items.length >= pageSize
+            ),
+          { concurrency: strategy.concurrency, maxItems, signal }
+        )
       }
+      case 'cursor': {
+        const { getCursor, cursorParam = 'cursor' } = strategy
+        const nextCursor = (response: ApiResponse<D>) => {
+          const cursor = getCursor(response)
+          return cursor === null || cursor === undefined || cursor === '' ? undefined : cursor
+        }
+        return new Paginator<T, ApiResponse<D>>(
+          (_index, pageSignal, previous) =>
+            fetchPage(
+              {
+                url,
+                params: previous ? { ...params, [cursorParam]: nextCursor(previous.response) } : params,
+                signal: pageSignal,
+              },
+              (_items, response) => nextCursor(response) !== undefined
+            ),
+          { sequential: true, maxItems, signal }
+        )
+      }
+      case 'link':
+        // A URL da próxima página já traz os parâmetros de query
+        return new Paginator<T, ApiResponse<D>>(
+          (_index, pageSignal, previous) =>
+            fetchPage(
+              previous
+                ? { url: getNextLink(previous.response.headers?.link), signal: pageSignal }
+                : { url, params, signal: pageSignal },
+              (_items, response) => getNextLink(response.headers?.link) !== undefined
+            ),
+          { sequential: true, maxItems, signal }
+        )
     }
   }
 }
+
+/**
+ * Extração padrão dos itens de uma página: o corpo da resposta deve ser uma lista.
+ * @throws `ParseError` se o corpo não for uma lista
+ * @internal
+ */
+function getListItems(response: ApiResponse<unknown>): unknown[] {
+  if (!Array.isArray(response.data)) {
+    throw new ParseError('A resposta da página não é uma lista; informe `getItems` para extrair os itens', {
+      status: response.status,
+      code: 'PAGINATION_ITEMS_NOT_FOUND',
+      details: response.data,
+    })
+  }
+  return response.data
+}
@@ -0,0 +1,152 @@
+import { ApiError, AuthConfig, RequestConfig } from '../types/types'
+
+/**
+ * Tempo limite padrão da renovação dos tokens, em milissegundos.
+ */
+export const DEFAULT_REFRESH_TIMEOUT = 30000
+
+/**
+ * Gerencia a autenticação das requisições do `ApiClient`.
+ * Injeta o token de acesso em cada requisição e coordena a renovação
+ * quando o servidor responde 401:
+ * 
+ * - apenas uma renovação é executada por vez (single-flight);
+ * - requisições iniciadas durante a renovação aguardam o novo token;
+ * - requisições que falharam com o token antigo são repetidas com o novo;
+ * - se a renovação falhar ou exceder `refreshTimeout`, os tokens são removidos e `onAuthFailure` é chamado.
+ * 
+ * Normalmente não é usado diretamente: basta informar `auth` na configuração do `ApiClient`.
+ * 
+ * @example
+ * ```typescript
+ * const api = new ApiClient({
+ *   baseURL: 'https://api.exemplo.com',
+ *   auth: {
+ *     tokenProvider,
+ *     refreshTokens: (refreshToken) => authService.refresh(refreshToken),
+ *     onAuthFailure: () => logout()
+ *   }
+ * })
+ * ```
+ */
+export class AuthManager {
+  private config: AuthConfig
+  private refreshPromise: Promise<boolean> | null = null
+  private failedToken?: string
+
+  /**
+   * Cria um novo gerenciador de autenticação
+   * @param config Configuração de autenticação
+   */
+  constructor(config: AuthConfig) {
+    this.config = config
+  }
+
+  /**
+   * Adiciona o header de autorização à configuração da requisição.
+   * Se houver uma renovação em andamento, aguarda sua conclusão antes de ler o token.
+   * 
+   * @param config Configuração da requisição
+   * @returns Nova configuração com o header e o token utilizado
+   */
+  async authorize(config: RequestConfig): Promise<{ config: RequestConfig; token?: string }> {
+    if (this.refreshPromise) {
+      await this.refreshPromise
+    }
+
+    const token = (await this.config.tokenProvider.getAccessToken()) || undefined
+    if (!token) {
+      return { config }
+    }
+
+    const { headerName = 'Authorization', scheme = 'Bearer' } = this.config
+    return {
+      config: {
+        ...config,
+        headers: {
+          ...config.headers,
+          [headerName]: scheme ? `${scheme} ${token}` : token,
+        },
+      },
+      token,
+    }
+  }
+
+  /**
+   * Verifica se um erro deve disparar a renovação do token.
+   * @param error Erro padronizado da requisição
+   * @returns `true` se os tokens devem ser renovados
+   */
+  shouldRefresh(error: ApiError): boolean {
+    return this.config.shouldRefresh ? this.config.shouldRefresh(error) : error.status === 401
+  }
+
+  /**
+   * Renova os tokens, compartilhando a mesma renovação entre chamadas concorrentes.
+   * Se o token atual já for diferente do token usado pela requisição que falhou,
+   * outra requisição já concluiu a renovação e nenhuma nova chamada é feita.
+   * Se a renovação para esse token já falhou, não é repetida (`onAuthFailure` é chamado uma única vez).
+   * 
+   * @param staleToken Token usado pela requisição que recebeu o 401
+   * @returns `true` se há um novo token disponível para repetir a requisição
+   */
+  async refresh(staleToken?: string): Promise<boolean> {
+    if (!this.refreshPromise) {
+      const currentToken = (await this.config.tokenProvider.getAccessToken()) || undefined
+      if (currentToken && currentToken !== staleToken) {
+        return true
+      }
+      if (staleToken && staleToken === this.failedToken) {
+        return false
+      }
+    }
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh(staleToken).finally(() => {
+        this.refreshPromise = null
+      })
+    }
+
+    return this.refreshPromise
+  }
+
+  /**
+   * Executa a renovação propriamente dita.
+   * @param staleToken Token que motivou a renovação, lembrado em caso de falha
+   * @returns `true` se os novos tokens foram armazenados
+   * @internal
+   */
+  private async performRefresh(staleToken?: string): Promise<boolean> {
+    const { tokenProvider, refreshTokens, onAuthFailure, refreshTimeout = DEFAULT_REFRESH_TIMEOUT } = this.config
+
+    try {
+      const refreshToken = await tokenProvider.getRefreshToken()
+      // Sem o limite, um refresh feito pelo mesmo cliente sem `skipAuth` aguardaria a si mesmo
+      const tokens = await withTimeout(
+        refreshTokens(refreshToken),
+        refreshTimeout,
+        `A renovação do token excedeu o tempo limite de ${refreshTimeout}ms`
+      )
+      await tokenProvider.setTokens(tokens)
+      this.failedToken = undefined
+      return true
+    } catch (error) {
+      this.failedToken = staleToken
+      await tokenProvider.clearTokens()
+      onAuthFailure?.(error)
+      return false
+    }
+  }
+}
+
+/**
+ * Rejeita com um `Error` se a promise não for concluída dentro do tempo limite.
+ * @internal
+ */
+function withTimeout<T>(promise: Promise<T>, timeout: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const expired = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeout)
+  })
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer))
+}
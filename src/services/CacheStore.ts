@@ -0,0 +1,189 @@
+import { CacheEntry, CacheStore, StorageLike } from '../types/types'
+
+/**
+ * Armazenamento em memória com descarte LRU (menos usado recentemente).
+ * É o armazenamento padrão do cache de respostas do `ApiClient`.
+ * 
+ * @example
+ * ```typescript
+ * const api = new ApiClient({
+ *   baseURL: 'https://api.exemplo.com',
+ *   cache: { store: new MemoryCacheStore(500) }
+ * })
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>()
+  private maxEntries: number
+
+  /**
+   * Cria um novo armazenamento em memória
+   * @param maxEntries Número máximo de entradas antes do descarte (padrão: 100)
+   */
+  constructor(maxEntries = 100) {
+    this.maxEntries = maxEntries
+  }
+
+  /** Retorna a entrada e a marca como usada recentemente */
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (entry) {
+      // Reinsere para marcar a entrada como usada recentemente
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  /** Armazena a entrada, descartando as menos usadas se o limite for excedido */
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  /** Remove uma entrada */
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  /** Lista as chaves armazenadas, da menos para a mais usada recentemente */
+  keys(): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  /** Remove todas as entradas */
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Armazenamento persistente sobre um storage chave/valor
+ * (`localStorage`, `sessionStorage`, `AsyncStorage`...).
+ * As entradas são serializadas em JSON sob um prefixo, junto com um índice das chaves.
+ * As atualizações do índice são feitas uma de cada vez, para que gravações simultâneas não se percam.
+ * 
+ * @example
+ * ```typescript
+ * // Navegador
+ * const store = new StorageCacheStore(localStorage)
+ * 
+ * // React Native
+ * const store = new StorageCacheStore(AsyncStorage, 'api-cache:')
+ * ```
+ */
+export class StorageCacheStore implements CacheStore {
+  private storage: StorageLike
+  private prefix: string
+  private indexQueue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Cria um novo armazenamento persistente
+   * @param storage Storage chave/valor
+   * @param prefix Prefixo das chaves gravadas no storage (padrão: 'fn-api-cache:')
+   */
+  constructor(storage: StorageLike, prefix = 'fn-api-cache:') {
+    this.storage = storage
+    this.prefix = prefix
+  }
+
+  /** Lê e desserializa a entrada; entradas corrompidas são descartadas */
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const value = await this.storage.getItem(this.prefix + key)
+    if (!value) {
+      return undefined
+    }
+
+    try {
+      return JSON.parse(value) as CacheEntry
+    } catch {
+      await this.delete(key)
+      return undefined
+    }
+  }
+
+  /** Serializa e grava a entrada, registrando a chave no índice */
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.storage.setItem(this.prefix + key, JSON.stringify(entry))
+    await this.updateIndex((keys) => (keys.includes(key) ? keys : [...keys, key]))
+  }
+
+  /** Remove a entrada e sua chave do índice */
+  async delete(key: string): Promise<void> {
+    await this.deleteMany([key])
+  }
+
+  /** Remove as entradas e grava o índice uma única vez */
+  async deleteMany(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.storage.removeItem(this.prefix + key)))
+    await this.updateIndex((storedKeys) => storedKeys.filter((storedKey) => !keys.includes(storedKey)))
+  }
+
+  /** Lista as chaves registradas no índice, após as atualizações em andamento */
+  keys(): Promise<string[]> {
+    return this.enqueue(() => this.readIndex())
+  }
+
+  /** Remove todas as entradas gravadas sob o prefixo */
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      const keys = await this.readIndex()
+      await Promise.all(keys.map((key) => this.storage.removeItem(this.prefix + key)))
+      await this.storage.removeItem(this.indexKey)
+    })
+  }
+
+  /**
+   * Chave do índice de entradas no storage.
+   * @internal
+   */
+  private get indexKey(): string {
+    return `${this.prefix}__keys`
+  }
+
+  /**
+   * Lê o índice de entradas; um índice corrompido é tratado como vazio.
+   * @internal
+   */
+  private async readIndex(): Promise<string[]> {
+    const index = await this.storage.getItem(this.indexKey)
+    if (!index) {
+      return []
+    }
+
+    try {
+      return JSON.parse(index) as string[]
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Lê, altera e grava o índice de entradas, na fila de atualizações.
+   * @internal
+   */
+  private updateIndex(update: (keys: string[]) => string[]): Promise<void> {
+    return this.enqueue(async () => {
+      const keys = await this.readIndex()
+      const updated = update(keys)
+      if (updated !== keys) {
+        await this.storage.setItem(this.indexKey, JSON.stringify(updated))
+      }
+    })
+  }
+
+  /**
+   * Executa a tarefa após as anteriores, para que leituras e gravações do índice não se intercalem.
+   * @internal
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.indexQueue.then(task)
+    this.indexQueue = result.catch(() => undefined)
+    return result
+  }
+}
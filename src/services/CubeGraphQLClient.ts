@@ -1,7 +1,26 @@
-import { GraphQLClient } from './GraphQLClient'
-import { CubeQueryOptions } from '../types/graphql'
-import { buildCubeQuery } from '../utils/graphqlHelpers'
-import { RequestCallbacks, ApiResponse } from '../types/types'
+import { GraphQLClient, GraphQLConfig, GraphQLRequestOptions } from './GraphQLClient'
+import { CubeSchema } from './CubeSchema'
+import { Paginator } from './Paginator'
+import { CubeQueryOptions, GraphQLErrorMode, GraphQLResponse } from '../types/graphql'
+import { CUBE_QUERY_INVALID, buildCubeOperation } from '../utils/graphqlHelpers'
+import { RequestCallbacks } from '../types/types'
+import { CubePaginateOptions } from '../types/cube'
+import { settle, splitCallbacks } from '../utils/requestHelpers'
+import { ApiRequestError } from '../utils/errors'
+import { getCubeMemberKind, validateCubeQuery } from '../utils/cubeSchema'
+
+/**
+ * Interface para configuração do cliente GraphQL do Cube.
+ */
+export interface CubeGraphQLClientConfig extends GraphQLConfig {
+  /**
+   * Schema usado para validar as opções de cada consulta antes do envio (opcional).
+   * Consultas com cubes ou membros desconhecidos, ou operadores incompatíveis com o tipo do membro,
+   * rejeitam com `ApiRequestError` (código `CUBE_QUERY_INVALID`) sem acessar o endpoint GraphQL.
+   * O schema também define o tipo das variáveis de `equals`/`in`, que passa a ser o do membro.
+   */
+  schema?: CubeSchema
+}
 
 /**
  * Cliente específico para realizar consultas GraphQL no Cube.
@@ -48,8 +67,8 @@ import { RequestCallbacks, ApiResponse } from '../types/types'
  *   offset: 0,
  *   where: {
  *     vendas: {
- *       total: { greaterThan: 1000 },
- *       data: { between: ['2024-01-01', '2024-12-31'] },
+ *       total: { gt: 1000 },
+ *       data: { inDateRange: ['2024-01-01', '2024-12-31'] },
  *       status: { in: ['APROVADA', 'CONCLUIDA'] }
  *     },
  *     cliente: {
@@ -85,9 +104,21 @@ import { RequestCallbacks, ApiResponse } from '../types/types'
  * ```
  */
 export class CubeGraphQLClient extends GraphQLClient {
+  private schema?: CubeSchema
+
+  /**
+   * Cria uma nova instância do cliente GraphQL do Cube
+   * @param config Configurações do cliente (as mesmas do `GraphQLClient`)
+   * @param config.schema Schema usado para validar as consultas e tipar as variáveis dos filtros (opcional)
+   */
+  constructor(config: CubeGraphQLClientConfig) {
+    super(config)
+    this.schema = config.schema
+  }
+
   /**
    * Realiza uma consulta GraphQL específica para o Cube
-   * @param url Endpoint da API GraphQL do Cube
+   * @param url Endpoint da API GraphQL do Cube, relativo à `baseURL` (uma única requisição é enviada a ele)
    * @param options Opções da query do Cube
    * @param options.limit Limite de registros por página
    * @param options.offset Número de registros para pular (paginação)
@@ -95,7 +126,17 @@ export class CubeGraphQLClient extends GraphQLClient {
    * @param options.fields Campos a serem retornados na consulta
    * @param options.defaultEntity Entidade padrão para consulta
    * @param options.defaultFields Campos padrão a serem retornados
+   * @param options.cubes Cubes com medidas, dimensões, dimensões de tempo, filtros e ordenação
+   * @param options.orderBy Ordenação por entidade e campo
+   * @param options.timeDimensions Dimensões de tempo das entidades de `fields` (granularidade, `dateRange`, `compareDateRange`)
+   * @param options.timezone Fuso horário das dimensões de tempo
+   * @param options.renewQuery Ignora o cache do Cube
+   * @param options.ungrouped Retorna as linhas sem agregação
    * @param callbacks Callbacks para sucesso e erro
+   * @param requestOptions Opções da requisição, como o `signal` de cancelamento (opcional)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * @throws `ApiRequestError` (código `CUBE_QUERY_INVALID`) se as opções não puderem ser convertidas em GraphQL
+   * ou, com `schema` configurado, não forem válidas para o schema
    * 
    * @example
    * ```typescript
@@ -117,29 +158,121 @@ export class CubeGraphQLClient extends GraphQLClient {
    *   onSuccess: (response) => console.log('Métricas:', response.data),
    *   onError: (error) => console.error('Erro:', error.message)
    * })
+   * 
+   * // Ou com async/await
+   * const { data } = await client.query('/cubejs-api/graphql', { fields: { vendas: { total_vendas: true } } })
+   * 
+   * // Schema do Cube: vendas por mês em 2024, ordenadas pelo total
+   * const { data: vendasPorMes } = await client.query('/cubejs-api/graphql', {
+   *   cubes: {
+   *     vendas: {
+   *       measures: ['total'],
+   *       timeDimensions: [{ dimension: 'criadoEm', granularity: 'month', dateRange: ['2024-01-01', '2024-12-31'] }],
+   *       where: { OR: [{ status: { equals: 'APROVADA' } }, { status: { equals: 'CONCLUIDA' } }] },
+   *       orderBy: { total: 'desc' }
+   *     }
+   *   }
+   * })
    * ```
    */
+  query<T>(
+    url: string,
+    options: CubeQueryOptions | undefined,
+    callbacks: RequestCallbacks<T>,
+    requestOptions?: GraphQLRequestOptions,
+  ): Promise<void>
+  query<T>(url: string, options?: CubeQueryOptions, requestOptions?: GraphQLRequestOptions): Promise<GraphQLResponse<T>>
   async query<T>(
     url: string,
     options: CubeQueryOptions = {},
-    callbacks: RequestCallbacks<T> = {},
-  ): Promise<void> {
-    const query = buildCubeQuery(options)
-    await this.api.post(url, { query })
-    return super.query<T>(query, {}, callbacks)
+    callbacksOrOptions?: RequestCallbacks<T> | GraphQLRequestOptions,
+    requestOptions?: GraphQLRequestOptions,
+  ): Promise<GraphQLResponse<T> | void> {
+    const [callbacks, finalRequestOptions] = splitCallbacks<T, GraphQLRequestOptions>(
+      callbacksOrOptions,
+      requestOptions
+    )
+    return settle(
+      Promise.resolve().then(async () => {
+        const meta = this.schema && (await this.schema.load())
+        if (meta) {
+          const problems = validateCubeQuery(options, meta)
+          if (problems.length > 0) {
+            throw new ApiRequestError(problems[0], { code: CUBE_QUERY_INVALID, details: problems })
+          }
+        }
+        const { query, variables } = buildCubeOperation(options, meta && ((member) => getCubeMemberKind(meta, member)))
+        return this.execute<T>(query, variables, finalRequestOptions, url)
+      }),
+      callbacks
+    )
+  }
+
+  /**
+   * Percorre o resultado de uma consulta página a página, com `limit`/`offset`,
+   * em vez de chamar `query` em um laço. A última página é a que traz menos de `pageSize` linhas.
+   * Consultas com `compareDateRange` não são paginadas.
+   * @param url Endpoint da API GraphQL do Cube, relativo à `baseURL`
+   * @param options Opções da query do Cube (`offset` é o ponto de partida; `limit` é substituído por `pageSize`)
+   * @param pagination Tamanho da página, páginas em paralelo e limite de linhas
+   * @param requestOptions Opções das requisições, como o `signal` que interrompe a paginação (opcional)
+   * @returns `Paginator` com as linhas de cada página
+   * 
+   * @example
+   * ```typescript
+   * const vendas = client.paginate<{ total: number }>('/cubejs-api/graphql', {
+   *   cubes: { vendas: { measures: ['total'], dimensions: ['regiao'] } }
+   * }, { pageSize: 1000, concurrency: 3 })
+   * 
+   * for await (const page of vendas) {
+   *   console.log(`Página ${page.index}:`, page.items.length)
+   * }
+   * 
+   * // Ou todas as linhas de uma vez
+   * const linhas = await vendas.collectAll()
+   * ```
+   */
+  paginate<T>(
+    url: string,
+    options: CubeQueryOptions,
+    pagination: CubePaginateOptions,
+    requestOptions: GraphQLRequestOptions = {},
+  ): Paginator<T, GraphQLResponse<T[]>> {
+    const { pageSize, concurrency, maxItems } = pagination
+    const start = options.offset || 0
+    return new Paginator<T, GraphQLResponse<T[]>>(
+      async (index, signal) => {
+        const response = await this.query<T[]>(
+          url,
+          { ...options, offset: start + index * pageSize, limit: pageSize },
+          { ...requestOptions, signal }
+        )
+        const items = response.data || []
+        return { items, response, hasMore: items.length >= pageSize }
+      },
+      { concurrency, maxItems, signal: requestOptions.signal }
+    )
   }
 
   /**
-   * Extrai dados da resposta do Axios e padroniza o formato específico do Cube
+   * Extrai dados da resposta do Axios e padroniza o formato específico do Cube.
+   * Consultas com `compareDateRange` retornam um resultado por intervalo, na ordem dos intervalos.
    * @param response Resposta original do Axios
+   * @param errorMode Tratamento de dados parciais com erros
    * @returns Objeto de resposta padronizado com dados do Cube
    * @internal
    */
-  protected extractResponseData<T>(response: any): ApiResponse<T> {
-    return {
-      data: response.data.data.cube,
-      status: response.status,
-      message: 'Operação realizada com sucesso',
+  protected extractResponseData<T>(response: any, errorMode?: GraphQLErrorMode): GraphQLResponse<T> {
+    const result = super.extractResponseData<Record<string, unknown>>(response, errorMode)
+    const data = result.data
+    if (!data || 'cube' in data) {
+      return { ...result, data: data?.cube as T }
     }
+
+    const comparisons = Object.keys(data)
+      .filter((key) => /^compare\d+$/.test(key))
+      .sort((a, b) => Number(a.slice(7)) - Number(b.slice(7)))
+      .map((key) => data[key])
+    return { ...result, data: comparisons as T }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,429 @@
+import { ApiClientConfig, ApiError, ApiResponse, RequestCallbacks, RequestConfig } from '../types/types'
+import {
+  CubeDryRunResult,
+  CubeLoadResult,
+  CubeMeta,
+  CubePaginateOptions,
+  CubeRestQuery,
+  CubeRestQueryType,
+  CubeResultSet,
+  CubeRow,
+  CubeSqlResult,
+} from '../types/cube'
+import { linkAbortSignal, settle, splitCallbacks } from '../utils/requestHelpers'
+import { isCancelledError } from '../utils/cancellation'
+import { ParseError, TimeoutError, toApiError } from '../utils/errors'
+import { wait } from '../utils/retry'
+import { ApiClient } from './ApiClient'
+import { Paginator } from './Paginator'
+
+/**
+ * Resposta que o Cube devolve enquanto a consulta ainda está sendo calculada.
+ * @internal
+ */
+const CONTINUE_WAIT = 'Continue wait'
+
+/**
+ * Configuração da espera pelas consultas ainda em cálculo no Cube.
+ */
+export interface CubeContinueWaitConfig {
+  /** Intervalo entre as novas tentativas em milissegundos (opcional, padrão: 500) */
+  interval?: number
+  /** Tempo máximo de espera pelo resultado em milissegundos (opcional, padrão: 300000) */
+  timeout?: number
+}
+
+/**
+ * Interface para configuração do cliente REST do Cube.
+ * Aceita as mesmas opções do `ApiClient` (retry, auth...), usadas pelo pipeline HTTP interno,
+ * ou um `ApiClient` existente em `client` para compartilhar interceptadores e autenticação.
+ */
+export interface CubeRestConfig extends ApiClientConfig {
+  /**
+   * `ApiClient` usado para enviar as consultas (opcional).
+   * Com ele, `baseURL` é o caminho (ou a URL absoluta) da API REST do Cube
+   * e as opções HTTP desta configuração são ignoradas.
+   */
+  client?: ApiClient
+  /** Espera pelas consultas ainda em cálculo (opcional) */
+  continueWait?: CubeContinueWaitConfig
+}
+
+/**
+ * Opções adicionais de uma requisição à API REST do Cube
+ */
+export interface CubeRestRequestOptions {
+  /** Signal para cancelar a requisição (e a espera pelo resultado) */
+  signal?: AbortSignal
+  /**
+   * Método HTTP (padrão: 'POST'). Com 'GET', a consulta vai na query string
+   * e a resposta pode ser compartilhada com chamadas idênticas em andamento.
+   * Ignorado em `meta`, que sempre usa GET.
+   */
+  method?: 'GET' | 'POST'
+}
+
+/**
+ * Cliente para a API REST do Cube (`/load`, `/sql`, `/meta` e `/dry-run`).
+ * Envia consultas no formato JSON do Cube e aguarda automaticamente as respostas
+ * "Continue wait", repetindo a requisição até o resultado ficar pronto.
+ * 
+ * Características principais:
+ * - Consultas com medidas, dimensões, filtros, dimensões de tempo e segmentos
+ * - Espera automática pelas consultas em cálculo (long polling)
+ * - Resultados tipados com linhas, metadados dos membros e comparações de intervalos
+ * - SQL gerado, validação sem execução e metadados do schema
+ * 
+ * @example
+ * ```typescript
+ * const cube = new CubeRestClient({
+ *   baseURL: 'http://localhost:4000/cubejs-api/v1',
+ *   headers: {
+ *     'Authorization': 'seu-token'
+ *   }
+ * })
+ * 
+ * const { data: resultSet } = await cube.load({
+ *   measures: ['vendas.total'],
+ *   dimensions: ['vendas.status'],
+ *   timeDimensions: [{ dimension: 'vendas.criadoEm', granularity: 'month', dateRange: 'this year' }]
+ * })
+ * 
+ * resultSet.data.forEach((linha) => console.log(linha['vendas.status'], linha['vendas.total']))
+ * ```
+ */
+export class CubeRestClient {
+  protected http: ApiClient
+  protected endpoint: string
+  private pendingControllers = new Set<AbortController>()
+  private continueWait: Required<CubeContinueWaitConfig>
+
+  /**
+   * Cria uma nova instância do cliente REST do Cube
+   * @param config Configurações do cliente
+   * @param config.baseURL URL da API REST do Cube (ex.: 'http://localhost:4000/cubejs-api/v1')
+   * @param config.timeout Tempo limite de cada requisição em milissegundos (padrão: 30000)
+   * @param config.headers Headers customizados para todas as requisições
+   * @param config.client `ApiClient` existente cujo pipeline será compartilhado (opcional)
+   * @param config.continueWait Espera pelas consultas ainda em cálculo (opcional)
+   */
+  constructor(config: CubeRestConfig) {
+    this.http = config.client || new ApiClient({ ...config, timeout: config.timeout || 30000 })
+    this.endpoint = config.client ? config.baseURL.replace(/\/+$/, '') : ''
+    this.continueWait = {
+      interval: config.continueWait?.interval ?? 500,
+      timeout: config.continueWait?.timeout ?? 300000,
+    }
+  }
+
+  /**
+   * Executa uma consulta e retorna o resultado tipado.
+   * Com um array de consultas, ou com `compareDateRange`, `results` traz um resultado por consulta ou intervalo.
+   * @param query Consulta (ou consultas) no formato JSON do Cube
+   * @param callbacks Callbacks para sucesso e erro
+   * @param options Opções da requisição, como o `signal` de cancelamento (opcional)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * @throws `TimeoutError` (código `CUBE_CONTINUE_WAIT_TIMEOUT`) se o resultado não ficar pronto no tempo limite
+   * 
+   * @example
+   * ```typescript
+   * await cube.load({
+   *   measures: ['vendas.total'],
+   *   filters: [{ member: 'vendas.regiao', operator: 'equals', values: ['SUL'] }]
+   * }, {
+   *   onSuccess: (response) => console.log('Linhas:', response.data.data),
+   *   onError: (error) => console.error('Erro:', error.message)
+   * })
+   * 
+   * // Ou com async/await, comparando dois períodos
+   * const { data } = await cube.load<{ 'vendas.total': string }>({
+   *   measures: ['vendas.total'],
+   *   timeDimensions: [{
+   *     dimension: 'vendas.criadoEm',
+   *     compareDateRange: [['2023-01-01', '2023-12-31'], ['2024-01-01', '2024-12-31']]
+   *   }]
+   * })
+   * const [anoPassado, esteAno] = data.results
+   * ```
+   */
+  load<T = CubeRow>(
+    query: CubeRestQuery | CubeRestQuery[],
+    callbacks: RequestCallbacks<CubeResultSet<T>>,
+    options?: CubeRestRequestOptions,
+  ): Promise<void>
+  load<T = CubeRow>(
+    query: CubeRestQuery | CubeRestQuery[],
+    options?: CubeRestRequestOptions,
+  ): Promise<ApiResponse<CubeResultSet<T>>>
+  async load<T = CubeRow>(
+    query: CubeRestQuery | CubeRestQuery[],
+    callbacksOrOptions?: RequestCallbacks<CubeResultSet<T>> | CubeRestRequestOptions,
+    options?: CubeRestRequestOptions,
+  ): Promise<ApiResponse<CubeResultSet<T>> | void> {
+    const [callbacks, requestOptions] = splitCallbacks<CubeResultSet<T>, CubeRestRequestOptions>(
+      callbacksOrOptions,
+      options
+    )
+    return settle(
+      this.send<RawLoadResponse<T>>('/load', { query, queryType: 'multi' }, requestOptions).then((response) => ({
+        ...response,
+        data: toResultSet(response),
+      })),
+      callbacks
+    )
+  }
+
+  /**
+   * Retorna o SQL gerado pelo Cube para uma consulta, sem executá-la.
+   * @param query Consulta no formato JSON do Cube
+   * @param callbacks Callbacks para sucesso e erro
+   * @param options Opções da requisição, como o `signal` de cancelamento (opcional)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * 
+   * @example
+   * ```typescript
+   * const { data } = await cube.sql({ measures: ['vendas.total'] })
+   * const [sql, parametros] = data.sql.sql
+   * ```
+   */
+  sql(
+    query: CubeRestQuery,
+    callbacks: RequestCallbacks<CubeSqlResult>,
+    options?: CubeRestRequestOptions,
+  ): Promise<void>
+  sql(query: CubeRestQuery, options?: CubeRestRequestOptions): Promise<ApiResponse<CubeSqlResult>>
+  async sql(
+    query: CubeRestQuery,
+    callbacksOrOptions?: RequestCallbacks<CubeSqlResult> | CubeRestRequestOptions,
+    options?: CubeRestRequestOptions,
+  ): Promise<ApiResponse<CubeSqlResult> | void> {
+    const [callbacks, requestOptions] = splitCallbacks<CubeSqlResult, CubeRestRequestOptions>(
+      callbacksOrOptions,
+      options
+    )
+    return settle(this.send<CubeSqlResult>('/sql', { query }, requestOptions), callbacks)
+  }
+
+  /**
+   * Valida e normaliza uma consulta sem executá-la.
+   * Consultas inválidas (membros inexistentes, operadores desconhecidos...) rejeitam com `HttpError`
+   * e a mensagem devolvida pelo Cube.
+   * @param query Consulta (ou consultas) no formato JSON do Cube
+   * @param callbacks Callbacks para sucesso e erro
+   * @param options Opções da requisição, como o `signal` de cancelamento (opcional)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * 
+   * @example
+   * ```typescript
+   * const { data } = await cube.dryRun({ measures: ['vendas.total'], dimensions: ['vendas.status'] })
+   * console.log(data.normalizedQueries[0])
+   * ```
+   */
+  dryRun(
+    query: CubeRestQuery | CubeRestQuery[],
+    callbacks: RequestCallbacks<CubeDryRunResult>,
+    options?: CubeRestRequestOptions,
+  ): Promise<void>
+  dryRun(query: CubeRestQuery | CubeRestQuery[], options?: CubeRestRequestOptions): Promise<ApiResponse<CubeDryRunResult>>
+  async dryRun(
+    query: CubeRestQuery | CubeRestQuery[],
+    callbacksOrOptions?: RequestCallbacks<CubeDryRunResult> | CubeRestRequestOptions,
+    options?: CubeRestRequestOptions,
+  ): Promise<ApiResponse<CubeDryRunResult> | void> {
+    const [callbacks, requestOptions] = splitCallbacks<CubeDryRunResult, CubeRestRequestOptions>(
+      callbacksOrOptions,
+      options
+    )
+    return settle(this.send<CubeDryRunResult>('/dry-run', { query }, requestOptions), callbacks)
+  }
+
+  /**
+   * Retorna os cubes, medidas, dimensões e segmentos disponíveis.
+   * A requisição é um GET e usa o cache do `ApiClient`, quando configurado.
+   * @param callbacks Callbacks para sucesso e erro
+   * @param options Opções da requisição, como o `signal` de cancelamento (opcional)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
+   * 
+   * @example
+   * ```typescript
+   * const { data } = await cube.meta()
+   * data.cubes.forEach((item) => console.log(item.name, item.measures.map((measure) => measure.name)))
+   * ```
+   */
+  meta(callbacks: RequestCallbacks<CubeMeta>, options?: CubeRestRequestOptions): Promise<void>
+  meta(options?: CubeRestRequestOptions): Promise<ApiResponse<CubeMeta>>
+  async meta(
+    callbacksOrOptions?: RequestCallbacks<CubeMeta> | CubeRestRequestOptions,
+    options?: CubeRestRequestOptions,
+  ): Promise<ApiResponse<CubeMeta> | void> {
+    const [callbacks, requestOptions] = splitCallbacks<CubeMeta, CubeRestRequestOptions>(callbacksOrOptions, options)
+    return settle(this.send<CubeMeta>('/meta', undefined, { ...requestOptions, method: 'GET' }), callbacks)
+  }
+
+  /**
+   * Percorre o resultado de uma consulta página a página, com `limit`/`offset`,
+   * em vez de chamar `load` em um laço. A última página é a que traz menos de `pageSize` linhas.
+   * @param query Consulta no formato JSON do Cube (`offset` é o ponto de partida; `limit` é substituído por `pageSize`)
+   * @param pagination Tamanho da página, páginas em paralelo e limite de linhas
+   * @param options Opções das requisições, como o `signal` que interrompe a paginação (opcional)
+   * @returns `Paginator` com as linhas de cada página
+   * 
+   * @example
+   * ```typescript
+   * const pedidos = cube.paginate({
+   *   dimensions: ['pedidos.id', 'pedidos.status'],
+   *   order: { 'pedidos.id': 'asc' }
+   * }, { pageSize: 10000, concurrency: 2 })
+   * 
+   * for await (const page of pedidos) {
+   *   await exportar(page.items)
+   * }
+   * ```
+   */
+  paginate<T = CubeRow>(
+    query: CubeRestQuery,
+    pagination: CubePaginateOptions,
+    options: CubeRestRequestOptions = {},
+  ): Paginator<T, ApiResponse<CubeResultSet<T>>> {
+    const { pageSize, concurrency, maxItems } = pagination
+    const start = query.offset || 0
+    return new Paginator<T, ApiResponse<CubeResultSet<T>>>(
+      async (index, signal) => {
+        const response = await this.load<T>(
+          { ...query, offset: start + index * pageSize, limit: pageSize },
+          { ...options, signal }
+        )
+        const items = response.data.data
+        return { items, response, hasMore: items.length >= pageSize }
+      },
+      { concurrency, maxItems, signal: options.signal }
+    )
+  }
+
+  /**
+   * Cancela todas as requisições em andamento deste cliente, inclusive as que aguardam o resultado.
+   * @param reason Motivo do cancelamento (opcional, disponível em `error.details`)
+   */
+  cancelAll(reason?: unknown): void {
+    for (const controller of this.pendingControllers) {
+      controller.abort(reason)
+    }
+    this.pendingControllers.clear()
+  }
+
+  /**
+   * Envia a requisição, repetindo-a enquanto o Cube responder "Continue wait".
+   * Com GET, o corpo é enviado como parâmetros de query string (objetos em JSON).
+   * @param path Caminho do recurso, relativo à API REST do Cube
+   * @param body Corpo da requisição (opcional)
+   * @param options Opções da requisição
+   * @returns Promise que resolve com a resposta pronta ou rejeita com o erro padronizado
+   * @internal
+   */
+  protected async send<R>(
+    path: string,
+    body?: Record<string, unknown>,
+    options: CubeRestRequestOptions = {},
+  ): Promise<ApiResponse<R>> {
+    const controller = new AbortController()
+    const unlinkSignal = linkAbortSignal(controller, options.signal)
+    this.pendingControllers.add(controller)
+
+    const method = options.method || (body ? 'POST' : 'GET')
+    const config: RequestConfig =
+      method === 'GET'
+        ? { url: `${this.endpoint}${path}`, method, params: body && toQueryParams(body) }
+        : { url: `${this.endpoint}${path}`, method, data: body }
+    const deadline = Date.now() + this.continueWait.timeout
+
+    try {
+      for (;;) {
+        // Respostas "Continue wait" não podem ser reaproveitadas pelo cache, e consultas via POST não alteram recursos
+        const response = await this.http.request<R | { error?: unknown }>({
+          ...config,
+          cache: path === '/meta' ? undefined : false,
+          invalidate: false,
+          signal: controller.signal,
+        })
+        if ((response.data as { error?: unknown } | null)?.error !== CONTINUE_WAIT) {
+          return response as ApiResponse<R>
+        }
+
+        if (Date.now() + this.continueWait.interval >= deadline) {
+          throw new TimeoutError('O Cube não concluiu a consulta no tempo limite', {
+            status: response.status,
+            code: 'CUBE_CONTINUE_WAIT_TIMEOUT',
+            details: response.data,
+          })
+        }
+        await wait(this.continueWait.interval, controller.signal)
+      }
+    } catch (error) {
+      const formattedError = this.extractErrorData(error)
+      if (isCancelledError(formattedError)) {
+        formattedError.details = controller.signal.reason
+      }
+      throw formattedError
+    } finally {
+      unlinkSignal()
+      this.pendingControllers.delete(controller)
+    }
+  }
+
+  /**
+   * Padroniza o erro de uma requisição.
+   * O Cube descreve os erros em `error`, e não em `message`; essa descrição passa a ser a mensagem do erro.
+   * @param error Erro produzido pelo pipeline HTTP
+   * @returns Erro padronizado com mensagem, status e detalhes
+   * @internal
+   */
+  protected extractErrorData(error: unknown): ApiError {
+    const apiError = toApiError(error)
+    const description = (apiError.details as { error?: unknown } | null | undefined)?.error
+    if (apiError.status >= 400 && typeof description === 'string') {
+      apiError.message = description
+    }
+    return apiError
+  }
+}
+
+/**
+ * Corpo de `/load` com `queryType: 'multi'`, ou de um servidor que devolve o resultado único.
+ * @internal
+ */
+type RawLoadResponse<T> =
+  | { queryType: CubeRestQueryType; results: CubeLoadResult<T>[]; pivotQuery?: CubeRestQuery; slowQuery?: boolean }
+  | (CubeLoadResult<T> & { slowQuery?: boolean })
+
+/**
+ * Converte o corpo de `/load` no `CubeResultSet`, sempre com o array `results`.
+ * @throws `ParseError` se o corpo não trouxer resultados
+ * @internal
+ */
+function toResultSet<T>(response: ApiResponse<RawLoadResponse<T>>): CubeResultSet<T> {
+  const body = response.data
+  const multi = body && typeof body === 'object' && 'results' in body ? body : undefined
+  const results = multi ? multi.results : [body as CubeLoadResult<T>]
+  if (!Array.isArray(results) || !Array.isArray(results[0]?.data)) {
+    throw new ParseError('Resposta inválida do Cube', { status: response.status, details: body })
+  }
+
+  return {
+    queryType: multi?.queryType || 'regularQuery',
+    results,
+    data: results[0].data,
+    annotation: results[0].annotation,
+    pivotQuery: multi?.pivotQuery,
+    slowQuery: body.slowQuery,
+  }
+}
+
+/**
+ * Serializa em JSON os valores que não são texto, como a consulta enviada via GET.
+ * @internal
+ */
+function toQueryParams(body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+  )
+}
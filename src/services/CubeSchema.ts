@@ -0,0 +1,111 @@
+import { CubeMeta, CubeTypeGeneratorOptions } from '../types/cube'
+import { CubeQueryOptions } from '../types/graphql'
+import { generateCubeTypes, validateCubeQuery } from '../utils/cubeSchema'
+import { CubeRestClient } from './CubeRestClient'
+
+/**
+ * Função que obtém o schema do Cube no formato do `/meta`.
+ */
+export type CubeMetaLoader = () => Promise<CubeMeta>
+
+/**
+ * Interface para configuração do schema do Cube.
+ */
+export interface CubeSchemaConfig {
+  /** Tempo em milissegundos até o schema ser buscado novamente (opcional, padrão: sem expiração) */
+  ttl?: number
+}
+
+/**
+ * Schema do Cube buscado sob demanda e mantido em cache.
+ * Valida as opções das consultas do `CubeGraphQLClient` e gera os tipos TypeScript de cada cube.
+ * 
+ * A origem é um `CubeRestClient` (que consulta o `/meta`) ou qualquer função que retorne
+ * o schema no mesmo formato, como uma conversão da introspecção GraphQL.
+ * 
+ * @example
+ * ```typescript
+ * const schema = new CubeSchema(new CubeRestClient({
+ *   baseURL: 'http://localhost:4000/cubejs-api/v1',
+ *   headers: { 'Authorization': 'seu-token' }
+ * }), { ttl: 10 * 60 * 1000 })
+ * 
+ * const problemas = await schema.validate({ fields: { vendas: { totl: true } } })
+ * // ['Membro desconhecido: "vendas.totl"']
+ * 
+ * // Consultas validadas antes do envio
+ * const cube = new CubeGraphQLClient({ baseURL: 'http://localhost:4000', schema })
+ * ```
+ */
+export class CubeSchema {
+  private loader: CubeMetaLoader
+  private ttl?: number
+  private pending?: Promise<CubeMeta>
+  private expiresAt = Infinity
+
+  /**
+   * Cria uma nova instância do schema
+   * @param source `CubeRestClient` usado para buscar o `/meta` ou função que retorna o schema
+   * @param config Configurações do cache (opcional)
+   * @param config.ttl Tempo em milissegundos até o schema ser buscado novamente
+   */
+  constructor(source: CubeRestClient | CubeMetaLoader, config: CubeSchemaConfig = {}) {
+    this.loader = source instanceof CubeRestClient ? () => source.meta().then((response) => response.data) : source
+    this.ttl = config.ttl
+  }
+
+  /**
+   * Retorna o schema, buscando-o apenas na primeira chamada ou após expirar.
+   * Chamadas simultâneas compartilham a mesma busca; uma busca que falha não fica em cache.
+   * @returns Promise com o schema no formato do `/meta`
+   */
+  load(): Promise<CubeMeta> {
+    if (this.pending && Date.now() < this.expiresAt) {
+      return this.pending
+    }
+
+    const pending = this.loader().then(
+      (meta) => {
+        if (this.pending === pending && this.ttl !== undefined) {
+          this.expiresAt = Date.now() + this.ttl
+        }
+        return meta
+      },
+      (error) => {
+        if (this.pending === pending) {
+          this.pending = undefined
+        }
+        throw error
+      }
+    )
+    this.pending = pending
+    this.expiresAt = Infinity
+    return pending
+  }
+
+  /**
+   * Descarta o schema em cache; a próxima chamada a `load` o busca novamente.
+   * Use após publicar alterações no modelo do Cube.
+   */
+  invalidate(): void {
+    this.pending = undefined
+  }
+
+  /**
+   * Valida as opções de uma consulta contra o schema. Veja `validateCubeQuery`.
+   * @param options Opções da consulta
+   * @returns Promise com a lista de problemas encontrados (vazia se a consulta for válida)
+   */
+  async validate(options: CubeQueryOptions): Promise<string[]> {
+    return validateCubeQuery(options, await this.load())
+  }
+
+  /**
+   * Gera o código TypeScript com os tipos de cada cube. Veja `generateCubeTypes`.
+   * @param options Nomes e formato do código gerado (opcional)
+   * @returns Promise com o código-fonte TypeScript
+   */
+  async generateTypes(options?: CubeTypeGeneratorOptions): Promise<string> {
+    return generateCubeTypes(await this.load(), options)
+  }
+}
@@ -0,0 +1,152 @@
+import { CanceledError } from 'axios'
+import { ApiResponse } from '../types/types'
+import { GraphQLBatchConfig } from '../types/graphql'
+import { ParseError } from '../utils/errors'
+
+/**
+ * Função que envia um lote de operações e resolve com a resposta HTTP (corpo em `data`).
+ * @internal
+ */
+export type BatchSender = (
+  bodies: Record<string, unknown>[],
+  signal: AbortSignal,
+) => Promise<ApiResponse<unknown>>
+
+/**
+ * Operação aguardando o envio do lote.
+ * @internal
+ */
+interface QueuedOperation {
+  body: Record<string, unknown>
+  signal?: AbortSignal
+  resolve: (response: ApiResponse<unknown>) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * Agrupa as operações GraphQL emitidas dentro de uma janela de tempo em uma única requisição.
+ * O lote é enviado como um array JSON e cada item do array de respostas é entregue
+ * ao chamador da operação na mesma posição.
+ * 
+ * Cada chamador pode cancelar a sua operação com o próprio `AbortSignal`: antes do envio,
+ * a operação é retirada do lote; depois, a requisição só é abortada quando todos os chamadores cancelam.
+ * 
+ * Normalmente não é usado diretamente: basta informar `batch` na configuração do `GraphQLClient`.
+ */
+export class GraphQLBatcher {
+  private window: number
+  private maxBatchSize: number
+  private sendBatch: BatchSender
+  private queue: QueuedOperation[] = []
+  private timer?: ReturnType<typeof setTimeout>
+
+  /**
+   * Cria um novo agrupador
+   * @param config Janela e tamanho máximo dos lotes
+   * @param sendBatch Função que envia o lote
+   */
+  constructor(config: GraphQLBatchConfig, sendBatch: BatchSender) {
+    this.window = config.window ?? 10
+    this.maxBatchSize = Math.max(1, config.maxBatchSize ?? 10)
+    this.sendBatch = sendBatch
+  }
+
+  /**
+   * Adiciona uma operação ao próximo lote.
+   * @param body Corpo da operação (`{ query, variables, operationName }`)
+   * @param signal Signal de cancelamento deste chamador (opcional)
+   * @returns Resposta HTTP com o resultado desta operação em `data`
+   * @throws `CanceledError` se o chamador cancelar antes da conclusão
+   */
+  enqueue(body: Record<string, unknown>, signal?: AbortSignal): Promise<ApiResponse<unknown>> {
+    if (signal?.aborted) {
+      return Promise.reject(new CanceledError())
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ body, signal, resolve, reject })
+
+      if (this.queue.length >= this.maxBatchSize) {
+        this.flush()
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.window)
+      }
+    })
+  }
+
+  /**
+   * Envia as operações pendentes.
+   * @internal
+   */
+  private flush(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+    const batch = this.queue.splice(0, this.maxBatchSize).filter((operation) => {
+      if (operation.signal?.aborted) {
+        operation.reject(new CanceledError())
+        return false
+      }
+      return true
+    })
+
+    // Operações que excederam o tamanho máximo seguem para o próximo lote
+    if (this.queue.length > 0) {
+      this.timer = setTimeout(() => this.flush(), this.window)
+    }
+    if (batch.length > 0) {
+      this.dispatch(batch)
+    }
+  }
+
+  /**
+   * Envia um lote e distribui os resultados.
+   * O resultado de um lote com uma única operação é entregue sem passar pelo array,
+   * permitindo que o envio use um objeto simples nesse caso.
+   * @internal
+   */
+  private async dispatch(batch: QueuedOperation[]): Promise<void> {
+    const controller = new AbortController()
+    let pending = batch.length
+    const detach = batch.map((operation) => {
+      const signal = operation.signal
+      if (!signal) {
+        return () => undefined
+      }
+
+      const onAbort = () => {
+        operation.reject(new CanceledError())
+        if (--pending === 0) {
+          controller.abort(signal.reason)
+        }
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+      return () => signal.removeEventListener('abort', onAbort)
+    })
+
+    try {
+      if (batch.length === 1) {
+        batch[0].resolve(await this.sendBatch([batch[0].body], controller.signal))
+        return
+      }
+
+      const response = await this.sendBatch(
+        batch.map((operation) => operation.body),
+        controller.signal
+      )
+      const results = response.data
+      if (!Array.isArray(results) || results.length !== batch.length) {
+        throw new ParseError('Resposta inválida do servidor para o lote de operações GraphQL', {
+          status: response.status,
+          code: 'GRAPHQL_BATCH_MISMATCH',
+          details: results,
+        })
+      }
+
+      batch.forEach((operation, index) => operation.resolve({ ...response, data: results[index] }))
+    } catch (error) {
+      batch.forEach((operation) => operation.reject(error))
+    } finally {
+      detach.forEach((removeListener) => removeListener())
+    }
+  }
+}
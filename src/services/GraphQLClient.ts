@@ -1,13 +1,66 @@
-import axios, { AxiosError, AxiosInstance } from 'axios'
-import { ApiError, ApiResponse, RequestCallbacks } from '../types/types'
+import {
+  ApiClientConfig,
+  ApiError,
+  ApiResponse,
+  ErrorInterceptor,
+  InterceptorOptions,
+  RequestCallbacks,
+  RequestInterceptor,
+  ResponseInterceptor,
+} from '../types/types'
+import {
+  GraphQLBatchConfig,
+  GraphQLErrorItem,
+  GraphQLErrorMode,
+  GraphQLResponse,
+  PersistedQueriesConfig,
+  SubscriptionConfig,
+  SubscriptionHandlers,
+} from '../types/graphql'
+import {
+  cloneData,
+  isApiError,
+  linkAbortSignal,
+  settle,
+  splitCallbacks,
+  stableStringify,
+} from '../utils/requestHelpers'
+import { isCancelledError } from '../utils/cancellation'
+import { GraphQLRequestError, ParseError, toApiError } from '../utils/errors'
+import { analyzeDocument, parseGraphQLErrors, validateDocument } from '../utils/graphqlHelpers'
+import {
+  PERSISTED_QUERY_NOT_SUPPORTED,
+  getPersistedQueryError,
+  normalizeDocument,
+  sha256,
+} from '../utils/persistedQueries'
+import { RequestDeduplicator } from './RequestDeduplicator'
+import { GraphQLBatcher } from './GraphQLBatcher'
+import { ApiClient } from './ApiClient'
+import { SubscriptionClient } from './SubscriptionClient'
 
 /**
- * Interface para configuração do cliente GraphQL
+ * Interface para configuração do cliente GraphQL.
+ * Aceita as mesmas opções do `ApiClient` (retry, auth...), usadas pelo pipeline HTTP interno,
+ * ou um `ApiClient` existente em `client` para compartilhar interceptadores e autenticação.
  */
-export interface GraphQLConfig {
-  baseURL: string
-  timeout?: number
-  headers?: Record<string, string>
+export interface GraphQLConfig extends ApiClientConfig {
+  /**
+   * `ApiClient` usado para enviar as operações (opcional).
+   * Com ele, `baseURL` é o caminho (ou a URL absoluta) do endpoint GraphQL
+   * e as opções HTTP desta configuração são ignoradas.
+   */
+  client?: ApiClient
+  /** Compartilha uma única requisição entre queries idênticas e simultâneas (opcional, padrão: true) */
+  dedupe?: boolean
+  /** Tratamento de respostas com dados parciais e erros (opcional, padrão: 'lenient') */
+  errorMode?: GraphQLErrorMode
+  /** Configuração das subscriptions via WebSocket (opcional) */
+  subscriptions?: SubscriptionConfig
+  /** Envia as operações como Automatic Persisted Queries; `true` usa as opções padrão (opcional, padrão: false) */
+  persistedQueries?: PersistedQueriesConfig | boolean
+  /** Agrupa as operações emitidas na mesma janela em uma única requisição; `true` usa as opções padrão (opcional, padrão: false) */
+  batch?: GraphQLBatchConfig | boolean
 }
 
 /**
@@ -17,6 +70,27 @@ export interface GraphQLVariables {
   [key: string]: unknown
 }
 
+/**
+ * Opções adicionais de uma operação GraphQL
+ */
+export interface GraphQLRequestOptions {
+  /** Signal para cancelar a operação */
+  signal?: AbortSignal
+  /**
+   * Permite (ou impede, com `false`) que a query seja compartilhada com queries idênticas em andamento.
+   * Mutations nunca são compartilhadas.
+   */
+  dedupe?: boolean
+  /** Tratamento de dados parciais com erros nesta operação (sobrepõe o padrão do cliente) */
+  errorMode?: GraphQLErrorMode
+  /** Operação a ser executada, quando o documento possui mais de uma */
+  operationName?: string
+  /** Desativa (com `false`) as persisted queries nesta operação */
+  persistedQuery?: boolean
+  /** Envia esta operação imediatamente, fora do lote (com `false`), quando o batching está ativo */
+  batch?: boolean
+}
+
 /**
  * Cliente base para realizar consultas GraphQL.
  * Fornece uma interface simplificada para executar queries e mutations GraphQL
@@ -89,7 +163,18 @@ export interface GraphQLVariables {
  * ```
  */
 export class GraphQLClient {
-  protected api: AxiosInstance
+  protected http: ApiClient
+  protected endpoint: string
+  private pendingControllers = new Set<AbortController>()
+  private dedupe: boolean
+  private errorMode: GraphQLErrorMode
+  private deduplicator = new RequestDeduplicator()
+  private subscriptionConfig: SubscriptionConfig
+  private subscriptionClient?: SubscriptionClient
+  private persistedQueries?: PersistedQueriesConfig
+  private persistedManifest?: Map<string, string>
+  private queryHashes = new Map<string, Promise<string | undefined>>()
+  private batcher?: GraphQLBatcher
 
   /**
    * Cria uma nova instância do cliente GraphQL
@@ -97,49 +182,208 @@ export class GraphQLClient {
    * @param config.baseURL URL do endpoint GraphQL
    * @param config.timeout Tempo limite em milissegundos (padrão: 30000)
    * @param config.headers Headers customizados para todas as requisições
+   * @param config.client `ApiClient` existente cujo pipeline será compartilhado (opcional)
+   * @param config.dedupe Compartilha queries idênticas e simultâneas (padrão: true)
+   * @param config.errorMode Tratamento de dados parciais com erros (padrão: 'lenient')
+   * @param config.subscriptions Configuração das subscriptions via WebSocket (opcional)
+   * @param config.persistedQueries Envia as operações como Automatic Persisted Queries (opcional)
+   * @param config.batch Agrupa as operações emitidas na mesma janela em uma única requisição (opcional)
    */
   constructor(config: GraphQLConfig) {
-    this.api = axios.create({
-      baseURL: config.baseURL,
-      timeout: config.timeout || 30000,
-      headers: {
-        'Content-Type': 'application/json',
-        ...config.headers,
-      },
-    })
+    this.dedupe = config.dedupe ?? true
+    this.errorMode = config.errorMode || 'lenient'
+    this.http = config.client || new ApiClient({ ...config, timeout: config.timeout || 30000 })
+    this.endpoint = config.client ? config.baseURL : ''
+    this.subscriptionConfig = {
+      url: /^https?:\/\//.test(config.baseURL) ? config.baseURL.replace(/^http/, 'ws') : undefined,
+      connectionParams: config.auth ? () => this.authConnectionParams(config) : undefined,
+      ...config.subscriptions,
+    }
+    if (config.persistedQueries) {
+      this.persistedQueries = config.persistedQueries === true ? {} : config.persistedQueries
+      const { manifest } = this.persistedQueries
+      this.persistedManifest = manifest
+        ? new Map(Object.entries(manifest).map(([document, hash]) => [normalizeDocument(document), hash]))
+        : undefined
+    }
+    if (config.batch) {
+      this.batcher = new GraphQLBatcher(config.batch === true ? {} : config.batch, (bodies, signal) =>
+        this.post(bodies.length === 1 ? bodies[0] : bodies, signal)
+      )
+    }
+  }
+
+  /**
+   * Adiciona um interceptador de requisição ao pipeline HTTP do cliente.
+   * Nos clientes GraphQL, `config.data` contém `{ query, variables }`.
+   * Veja `ApiClient.addRequestInterceptor`.
+   * 
+   * @param interceptor Função que recebe e retorna a configuração da requisição
+   * @param options Opções de registro, como a prioridade de execução
+   * @returns Função que remove o interceptador
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor, options?: InterceptorOptions): () => void {
+    return this.http.addRequestInterceptor(interceptor, options)
   }
 
   /**
-   * Extrai e padroniza os dados de erro do Axios
-   * @param error Erro original do Axios
-   * @returns Objeto de erro padronizado com mensagem, status e detalhes
+   * Adiciona um interceptador de resposta ao pipeline HTTP do cliente.
+   * Nos clientes GraphQL, `response.data` contém o corpo GraphQL (`{ data, errors }`).
+   * Veja `ApiClient.addResponseInterceptor`.
+   * 
+   * @param interceptor Função que recebe e retorna a resposta
+   * @param options Opções de registro, como a prioridade de execução
+   * @returns Função que remove o interceptador
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor, options?: InterceptorOptions): () => void {
+    return this.http.addResponseInterceptor(interceptor, options)
+  }
+
+  /**
+   * Adiciona um interceptador de erro ao pipeline HTTP do cliente.
+   * Veja `ApiClient.addErrorInterceptor`.
+   * 
+   * @param interceptor Função que recebe o erro e retorna um erro ou uma resposta
+   * @param options Opções de registro, como a prioridade de execução
+   * @returns Função que remove o interceptador
+   */
+  addErrorInterceptor(interceptor: ErrorInterceptor, options?: InterceptorOptions): () => void {
+    return this.http.addErrorInterceptor(interceptor, options)
+  }
+
+  /**
+   * Remove um interceptador de requisição
+   * @param interceptor Interceptador a ser removido
+   */
+  removeRequestInterceptor(interceptor: RequestInterceptor): void {
+    this.http.removeRequestInterceptor(interceptor)
+  }
+
+  /**
+   * Remove um interceptador de resposta
+   * @param interceptor Interceptador a ser removido
+   */
+  removeResponseInterceptor(interceptor: ResponseInterceptor): void {
+    this.http.removeResponseInterceptor(interceptor)
+  }
+
+  /**
+   * Remove um interceptador de erro
+   * @param interceptor Interceptador a ser removido
+   */
+  removeErrorInterceptor(interceptor: ErrorInterceptor): void {
+    this.http.removeErrorInterceptor(interceptor)
+  }
+
+  /**
+   * Remove todos os interceptadores do pipeline HTTP.
+   * Com um `client` compartilhado, afeta também as requisições REST feitas por ele.
+   */
+  clearInterceptors(): void {
+    this.http.clearInterceptors()
+  }
+
+  /**
+   * Cancela todas as operações em andamento deste cliente.
+   * @param reason Motivo do cancelamento (opcional, disponível em `error.details`)
+   */
+  cancelAll(reason?: unknown): void {
+    for (const controller of this.pendingControllers) {
+      controller.abort(reason)
+    }
+    this.pendingControllers.clear()
+  }
+
+  /**
+   * Padroniza o erro de uma operação.
+   * Respostas de erro HTTP com o array `errors` (ex.: 400 por falha de validação da query)
+   * são convertidas em `GraphQLRequestError`.
+   * @param error Erro produzido pelo pipeline HTTP ou pela interpretação da resposta
+   * @returns Erro padronizado com mensagem, status e detalhes
    * @internal
    */
-  protected extractErrorData(error: AxiosError): ApiError {
-    return {
-      message:
-        (error.response?.data as { message?: string })?.message ||
-        'Ocorreu um erro na requisição',
-      status: error.response?.status || 500,
-      code: error.code,
-      details: error.response?.data,
+  protected extractErrorData(error: unknown): ApiError {
+    const apiError = isApiError(error) ? error : toApiError(error)
+    if (apiError instanceof GraphQLRequestError || apiError.status < 400) {
+      return apiError
     }
+
+    const body = apiError.details as { data?: unknown; errors?: unknown } | undefined
+    const errors = parseGraphQLErrors(body?.errors)
+    if (errors) {
+      const graphQLError = this.createGraphQLError(errors, apiError.status, body, body?.data ?? undefined)
+      graphQLError.attempts = apiError.attempts
+      graphQLError.config = apiError.config
+      graphQLError.headers = apiError.headers
+      return graphQLError
+    }
+    return apiError
   }
 
   /**
-   * Extrai e padroniza os dados da resposta do Axios
+   * Extrai e padroniza os dados da resposta do Axios, interpretando o array `errors`.
    * @param response Resposta original do Axios
-   * @returns Objeto de resposta padronizado com dados, status e mensagem
+   * @param errorMode Tratamento de dados parciais com erros
+   * @returns Objeto de resposta padronizado com dados, status, mensagem e erros parciais
+   * @throws `ParseError` se o corpo da resposta não for um objeto JSON
+   * @throws `GraphQLRequestError` se houver erros sem dados, ou dados parciais no modo `strict`
    * @internal
    */
-  protected extractResponseData<T>(response: any): ApiResponse<T> {
+  protected extractResponseData<T>(response: any, errorMode: GraphQLErrorMode = this.errorMode): GraphQLResponse<T> {
+    if (!response.data || typeof response.data !== 'object') {
+      throw new ParseError('Resposta inválida do servidor GraphQL', {
+        status: response.status,
+        details: response.data,
+      })
+    }
+
+    const { data, errors: rawErrors } = response.data
+    const errors = parseGraphQLErrors(rawErrors)
+    if (errors) {
+      const hasData = data !== null && data !== undefined
+      if (!hasData || errorMode === 'strict') {
+        throw this.createGraphQLError(errors, response.status, response.data, hasData ? data : undefined)
+      }
+
+      return {
+        data,
+        status: response.status,
+        message: 'Operação realizada com erros parciais',
+        errors,
+      }
+    }
+
     return {
-      data: response.data.data,
+      data,
       status: response.status,
       message: 'Operação realizada com sucesso',
     }
   }
 
+  /**
+   * Cria o erro de uma operação GraphQL a partir do array `errors`.
+   * A mensagem é a do primeiro erro e o código vem de `extensions.code`, quando disponível.
+   * @internal
+   */
+  protected createGraphQLError(
+    errors: GraphQLErrorItem[],
+    status: number,
+    body: unknown,
+    partialData?: unknown,
+  ): GraphQLRequestError {
+    const code = errors[0].extensions?.code
+    return new GraphQLRequestError(
+      errors[0].message,
+      errors,
+      {
+        status,
+        code: typeof code === 'string' ? code : 'GRAPHQL_ERROR',
+        details: body,
+      },
+      partialData,
+    )
+  }
+
   /**
    * Executa uma query GraphQL
    * @param query String da query GraphQL
@@ -147,6 +391,8 @@ export class GraphQLClient {
    * @param callbacks Objeto com callbacks de sucesso e erro
    * @param callbacks.onSuccess Callback chamado quando a query é bem sucedida
    * @param callbacks.onError Callback chamado quando ocorre um erro
+   * @param options Opções da operação, como o `signal` de cancelamento (opcional)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
    * 
    * @example
    * ```typescript
@@ -169,24 +415,189 @@ export class GraphQLClient {
    *   onSuccess: (response) => console.log('Produtos:', response.data.products),
    *   onError: (error) => console.error('Erro:', error.message)
    * })
+   * 
+   * // Ou com async/await
+   * const { data } = await client.query<{ products: Product[] }>(query, variables)
+   * 
+   * // Documento com várias operações
+   * await client.query(PRODUCT_DOCUMENT, { id: '1' }, { operationName: 'GetProduct' })
    * ```
    */
+  query<T>(
+    query: string,
+    variables: GraphQLVariables | undefined,
+    callbacks: RequestCallbacks<T>,
+    options?: GraphQLRequestOptions,
+  ): Promise<void>
+  query<T>(query: string, variables?: GraphQLVariables, options?: GraphQLRequestOptions): Promise<GraphQLResponse<T>>
   async query<T>(
     query: string,
     variables: GraphQLVariables = {},
-    { onSuccess, onError }: RequestCallbacks<T> = {},
-  ): Promise<void> {
+    callbacksOrOptions?: RequestCallbacks<T> | GraphQLRequestOptions,
+    options?: GraphQLRequestOptions,
+  ): Promise<GraphQLResponse<T> | void> {
+    const [callbacks, requestOptions] = splitCallbacks<T, GraphQLRequestOptions>(callbacksOrOptions, options)
+    return settle(this.execute<T>(query, variables, requestOptions), callbacks)
+  }
+
+  /**
+   * Envia a operação GraphQL e padroniza o resultado.
+   * Antes do envio, verifica se a operação escolhida e os fragmentos usados existem no documento;
+   * caso contrário, rejeita com `GraphQLRequestError` (código `GRAPHQL_DOCUMENT_INVALID`) sem acessar a rede.
+   * @param query String da operação GraphQL
+   * @param variables Variáveis da operação
+   * @param options Opções da operação
+   * @param endpoint Caminho ou URL do endpoint GraphQL (padrão: o endpoint do cliente)
+   * @returns Promise que resolve com a resposta padronizada ou rejeita com o erro padronizado
+   * @internal
+   */
+  protected async execute<T>(
+    query: string,
+    variables: GraphQLVariables,
+    options: GraphQLRequestOptions = {},
+    endpoint: string = this.endpoint,
+  ): Promise<GraphQLResponse<T>> {
+    const controller = new AbortController()
+    const unlinkSignal = linkAbortSignal(controller, options.signal)
+    this.pendingControllers.add(controller)
+
     try {
-      const response = await this.api.post('', {
-        query,
-        variables,
-      })
-      const formattedResponse = this.extractResponseData<T>(response)
-      onSuccess?.(formattedResponse)
+      const { operationName } = options
+      const problems = validateDocument(query, operationName)
+      if (problems.length > 0) {
+        throw new GraphQLRequestError(
+          problems[0],
+          problems.map((message) => ({ message })),
+          { code: 'GRAPHQL_DOCUMENT_INVALID' }
+        )
+      }
+
+      // Mutations têm efeitos colaterais e nunca são compartilhadas, mesmo quando enviadas por `query`
+      const operation = analyzeDocument(query).operations.find(
+        (definition) => !operationName || definition.name === operationName
+      )
+      const dedupe = (options.dedupe ?? this.dedupe) && operation?.type !== 'mutation'
+
+      const body = { query, variables, operationName }
+      const persisted = !!this.persistedQueries && options.persistedQuery !== false
+      // Operações com persisted query são enviadas individualmente, pois o reenvio do documento é por operação;
+      // os lotes são sempre enviados ao endpoint do cliente
+      const batcher =
+        !persisted && options.batch !== false && endpoint === this.endpoint ? this.batcher : undefined
+      const send = (signal: AbortSignal) =>
+        persisted
+          ? this.sendPersisted(body, operation?.type === 'mutation', signal, endpoint)
+          : batcher
+            ? batcher.enqueue(body, signal)
+            : this.post(body, signal, endpoint)
+      const response = dedupe
+        ? await this.deduplicator
+          .run(`${endpoint} ${stableStringify(body)}`, send, controller.signal)
+          .then((shared) => ({ ...shared, data: cloneData(shared.data) }))
+        : await send(controller.signal)
+      return this.extractResponseData<T>(response, options.errorMode)
+    } catch (error) {
+      const formattedError = this.extractErrorData(error)
+      if (isCancelledError(formattedError)) {
+        formattedError.details = controller.signal.reason
+      }
+      throw formattedError
+    } finally {
+      unlinkSignal()
+      this.pendingControllers.delete(controller)
+    }
+  }
+
+  /**
+   * Envia o corpo da operação (ou o array de um lote) via POST.
+   * O POST não invalida o cache do `ApiClient`: a URL do endpoint não identifica um recurso alterado.
+   * @internal
+   */
+  private post(
+    body: Record<string, unknown> | Record<string, unknown>[],
+    signal: AbortSignal,
+    endpoint: string = this.endpoint,
+  ): Promise<ApiResponse<unknown>> {
+    return this.http.request<unknown>({ url: endpoint, method: 'POST', data: body, signal, invalidate: false })
+  }
+
+  /**
+   * Envia a operação como Automatic Persisted Query.
+   * Envia apenas o hash do documento (via GET, para queries com `useGETForHashedQueries`) e,
+   * se o servidor responder `PersistedQueryNotFound`, reenvia o documento completo via POST para registrá-lo.
+   * Com um manifesto, o documento nunca é enviado; sem a Web Crypto API, a operação é enviada normalmente.
+   * @internal
+   */
+  private async sendPersisted(
+    body: { query: string; variables: GraphQLVariables; operationName?: string },
+    isMutation: boolean,
+    signal: AbortSignal,
+    endpoint: string,
+  ): Promise<ApiResponse<unknown>> {
+    const config = this.persistedQueries!
+    const hash = await this.hashDocument(body.query, config)
+    if (!hash) {
+      if (this.persistedManifest) {
+        throw new GraphQLRequestError(
+          'Operação não registrada no manifesto de persisted queries',
+          [{ message: 'Operação não registrada no manifesto de persisted queries' }],
+          { code: 'PERSISTED_QUERY_NOT_REGISTERED' }
+        )
+      }
+      return this.post(body, signal, endpoint)
+    }
+
+    const extensions = { persistedQuery: { version: 1, sha256Hash: hash } }
+    const { query, ...hashedBody } = body
+    let response: ApiResponse<unknown>
+    try {
+      response = config.useGETForHashedQueries && !isMutation
+        ? await this.http.request<unknown>({
+          url: endpoint,
+          method: 'GET',
+          params: {
+            ...(body.operationName && { operationName: body.operationName }),
+            variables: JSON.stringify(body.variables),
+            extensions: JSON.stringify(extensions),
+          },
+          signal,
+        })
+        : await this.post({ ...hashedBody, extensions }, signal, endpoint)
     } catch (error) {
-      const formattedError = this.extractErrorData(error as AxiosError)
-      onError?.(formattedError)
+      // Alguns servidores respondem o hash desconhecido com status de erro HTTP
+      const details = isApiError(error) ? error.details : undefined
+      if (this.persistedManifest || !getPersistedQueryError(details)) {
+        throw error
+      }
+      response = { data: details, status: 200, message: 'Persisted query não encontrada' }
+    }
+
+    const persistedError = getPersistedQueryError(response.data)
+    if (!persistedError || this.persistedManifest) {
+      return response
+    }
+    if (persistedError === PERSISTED_QUERY_NOT_SUPPORTED) {
+      this.persistedQueries = undefined
+      return this.post(body, signal, endpoint)
+    }
+    return this.post({ ...body, extensions }, signal, endpoint)
+  }
+
+  /**
+   * Obtém o hash SHA-256 de um documento, pelo manifesto ou calculando-o (com memoização).
+   * @internal
+   */
+  private hashDocument(document: string, config: PersistedQueriesConfig): Promise<string | undefined> {
+    if (this.persistedManifest) {
+      return Promise.resolve(this.persistedManifest.get(normalizeDocument(document)))
+    }
+
+    let hash = this.queryHashes.get(document)
+    if (!hash) {
+      hash = Promise.resolve(config.hash ? config.hash(document) : sha256(document))
+      this.queryHashes.set(document, hash)
     }
+    return hash
   }
 
   /**
@@ -196,6 +607,8 @@ export class GraphQLClient {
    * @param callbacks Objeto com callbacks de sucesso e erro
    * @param callbacks.onSuccess Callback chamado quando a mutation é bem sucedida
    * @param callbacks.onError Callback chamado quando ocorre um erro
+   * @param options Opções da operação, como o `signal` de cancelamento (opcional)
+   * @returns Sem callbacks, uma promise com a resposta padronizada que rejeita com `ApiError`
    * 
    * @example
    * ```typescript
@@ -223,11 +636,94 @@ export class GraphQLClient {
    * })
    * ```
    */
+  mutate<T>(
+    mutation: string,
+    variables: GraphQLVariables | undefined,
+    callbacks: RequestCallbacks<T>,
+    options?: GraphQLRequestOptions,
+  ): Promise<void>
+  mutate<T>(mutation: string, variables?: GraphQLVariables, options?: GraphQLRequestOptions): Promise<GraphQLResponse<T>>
   async mutate<T>(
     mutation: string,
     variables: GraphQLVariables = {},
-    { onSuccess, onError }: RequestCallbacks<T> = {},
-  ): Promise<void> {
-    return this.query<T>(mutation, variables, { onSuccess, onError })
+    callbacksOrOptions?: RequestCallbacks<T> | GraphQLRequestOptions,
+    options?: GraphQLRequestOptions,
+  ): Promise<GraphQLResponse<T> | void> {
+    const [callbacks, requestOptions] = splitCallbacks<T, GraphQLRequestOptions>(callbacksOrOptions, options)
+    // Mutations têm efeitos colaterais e nunca são compartilhadas
+    return settle(this.execute<T>(mutation, variables, { ...requestOptions, dedupe: false }), callbacks)
+  }
+
+  /**
+   * Inicia uma subscription GraphQL via WebSocket (protocolo graphql-ws).
+   * A conexão é aberta na primeira subscription, reconectada com backoff em caso de queda
+   * (reenviando as subscriptions ativas) e fechada quando a última subscription é encerrada.
+   * 
+   * @param query String da subscription GraphQL
+   * @param variables Variáveis da subscription
+   * @param handlers Callbacks `onNext`, `onError` e `onComplete`
+   * @param options Opções da operação, como o `operationName` (opcional)
+   * @returns Função que encerra a subscription
+   * 
+   * @example
+   * ```typescript
+   * const client = new GraphQLClient({
+   *   baseURL: 'https://api.exemplo.com/graphql',
+   *   subscriptions: {
+   *     connectionParams: async () => ({ Authorization: `Bearer ${await getToken()}` })
+   *   }
+   * })
+   * 
+   * const unsubscribe = client.subscribe<{ placar: Placar }>(
+   *   `subscription Placar($pautaId: ID!) { placar(pautaId: $pautaId) { sim nao abstencao } }`,
+   *   { pautaId: '42' },
+   *   {
+   *     onNext: (response) => setPlacar(response.data.placar),
+   *     onError: (error) => console.error('Erro:', error.message),
+   *     onComplete: () => console.log('Votação encerrada')
+   *   }
+   * )
+   * 
+   * // Ao desmontar o componente
+   * unsubscribe()
+   * ```
+   */
+  subscribe<T>(
+    query: string,
+    variables: GraphQLVariables = {},
+    handlers: SubscriptionHandlers<T> = {},
+    options: Pick<GraphQLRequestOptions, 'operationName'> = {},
+  ): () => void {
+    const { operationName } = options
+    const problems = validateDocument(query, operationName)
+    if (problems.length > 0) {
+      handlers.onError?.(
+        new GraphQLRequestError(
+          problems[0],
+          problems.map((message) => ({ message })),
+          { code: 'GRAPHQL_DOCUMENT_INVALID' }
+        )
+      )
+      return () => undefined
+    }
+
+    if (!this.subscriptionClient) {
+      this.subscriptionClient = new SubscriptionClient(this.subscriptionConfig)
+    }
+    return this.subscriptionClient.subscribe({ query, variables, operationName }, handlers)
+  }
+
+  /**
+   * Monta o payload do `connection_init` a partir da configuração de autenticação.
+   * @internal
+   */
+  private async authConnectionParams(config: GraphQLConfig): Promise<Record<string, unknown> | undefined> {
+    const token = await config.auth!.tokenProvider.getAccessToken()
+    if (!token) {
+      return undefined
+    }
+
+    const { headerName = 'Authorization', scheme = 'Bearer' } = config.auth!
+    return { [headerName]: scheme ? `${scheme} ${token}` : token }
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { ApiResponse, Page } from '../types/types'
+import { linkAbortSignal } from '../utils/requestHelpers'
+
+/**
+ * Página carregada por um `PageLoader`, antes da aplicação de `maxItems`.
+ */
+export interface LoadedPage<T, R = ApiResponse<unknown>> {
+  /** Itens da página */
+  items: T[]
+  /** Resposta da requisição da página */
+  response: R
+  /** Indica se há uma próxima página */
+  hasMore: boolean
+}
+
+/**
+ * Carrega a página de posição `index`.
+ * Em fontes sequenciais (cursor, `Link`), `previous` é a página anterior, já carregada.
+ */
+export type PageLoader<T, R = ApiResponse<unknown>> = (
+  index: number,
+  signal: AbortSignal,
+  previous?: LoadedPage<T, R>,
+) => Promise<LoadedPage<T, R>>
+
+/**
+ * Opções de um `Paginator`.
+ */
+export interface PaginatorOptions {
+  /** A próxima página depende da anterior, o que impede buscas em paralelo (opcional, padrão: false) */
+  sequential?: boolean
+  /** Páginas buscadas em paralelo, à frente da página atual (opcional, padrão: 1) */
+  concurrency?: number
+  /** Número máximo de itens retornados (opcional) */
+  maxItems?: number
+  /** Signal para interromper a paginação (opcional) */
+  signal?: AbortSignal
+}
+
+/**
+ * Iterador assíncrono sobre as páginas de uma listagem.
+ * Cada `for await` busca as páginas novamente, a partir da primeira; ao sair do laço (ou em caso de erro),
+ * as páginas buscadas antecipadamente são canceladas.
+ * 
+ * Normalmente criado por `ApiClient.paginate`, `CubeGraphQLClient.paginate` ou `CubeRestClient.paginate`.
+ * 
+ * @example
+ * ```typescript
+ * const pedidos = api.paginate<Pedido>('/pedidos', { strategy: { type: 'offset', limit: 100, concurrency: 3 } })
+ * 
+ * for await (const page of pedidos) {
+ *   console.log(`Página ${page.index}:`, page.items.length)
+ * }
+ * 
+ * // Ou todos os itens de uma vez
+ * const todos = await pedidos.collectAll()
+ * ```
+ */
+export class Paginator<T, R = ApiResponse<unknown>> implements AsyncIterable<Page<T, R>> {
+  private load: PageLoader<T, R>
+  private options: PaginatorOptions
+
+  /**
+   * Cria um novo paginador
+   * @param load Função que carrega cada página
+   * @param options Opções da paginação (opcional)
+   */
+  constructor(load: PageLoader<T, R>, options: PaginatorOptions = {}) {
+    this.load = load
+    this.options = options
+  }
+
+  /**
+   * Percorre as páginas em ordem, parando na última página, ao atingir `maxItems` ou quando o laço é interrompido.
+   * Páginas vazias não são entregues.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<Page<T, R>> {
+    const { sequential, maxItems, signal } = this.options
+    const concurrency = sequential ? 1 : Math.max(1, this.options.concurrency || 1)
+    const controller = new AbortController()
+    const unlinkSignal = linkAbortSignal(controller, signal)
+    const queue: Promise<LoadedPage<T, R>>[] = []
+    let nextIndex = 0
+    let pageIndex = 0
+    let total = 0
+    let previous: LoadedPage<T, R> | undefined
+
+    try {
+      for (;;) {
+        while (queue.length < concurrency) {
+          const pending = this.load(nextIndex++, controller.signal, previous)
+          // Rejeições das páginas descartadas não devem ficar sem tratamento
+          pending.catch(() => undefined)
+          queue.push(pending)
+        }
+
+        const loaded = await (queue.shift() as Promise<LoadedPage<T, R>>)
+        previous = loaded
+        const items = maxItems === undefined ? loaded.items : loaded.items.slice(0, Math.max(0, maxItems - total))
+        total += items.length
+        if (items.length > 0) {
+          yield { items, index: pageIndex++, response: loaded.response }
+        }
+        if (!loaded.hasMore || (maxItems !== undefined && total >= maxItems)) {
+          return
+        }
+      }
+    } finally {
+      unlinkSignal()
+      controller.abort()
+    }
+  }
+
+  /**
+   * Busca todas as páginas (respeitando `maxItems`) e retorna os itens em uma única lista.
+   * @returns Promise com os itens de todas as páginas, na ordem
+   * 
+   * @example
+   * ```typescript
+   * const clientes = await api.paginate<Cliente>('/clientes', { strategy: { type: 'link' } }).collectAll()
+   * ```
+   */
+  async collectAll(): Promise<T[]> {
+    const items: T[] = []
+    for await (const page of this) {
+      items.push(...page.items)
+    }
+    return items
+  }
+}
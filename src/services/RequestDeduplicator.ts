@@ -0,0 +1,91 @@
+import { CanceledError } from 'axios'
+
+/**
+ * Requisição em andamento compartilhada entre chamadores.
+ * @internal
+ */
+interface InFlightRequest<R> {
+  promise: Promise<R>
+  controller: AbortController
+  subscribers: number
+}
+
+/**
+ * Compartilha uma única operação entre chamadas idênticas e simultâneas.
+ * Enquanto a operação de uma chave estiver em andamento, novas chamadas com a mesma chave
+ * aguardam o mesmo resultado em vez de disparar outra requisição.
+ * 
+ * Cada chamador pode cancelar a sua participação com o próprio `AbortSignal`;
+ * a operação compartilhada só é abortada quando todos os chamadores cancelam.
+ * 
+ * Normalmente não é usado diretamente: `ApiClient.get` e `GraphQLClient.query`
+ * deduplicam as chamadas automaticamente (desative com `dedupe: false`).
+ */
+export class RequestDeduplicator {
+  private inFlight = new Map<string, InFlightRequest<unknown>>()
+
+  /**
+   * Executa a operação ou se junta à operação em andamento com a mesma chave.
+   * @param key Chave que identifica chamadas idênticas
+   * @param operation Operação a ser executada, recebendo o signal compartilhado
+   * @param signal Signal de cancelamento deste chamador (opcional)
+   * @returns Resultado da operação compartilhada
+   * @throws `CanceledError` se o chamador cancelar antes da conclusão
+   */
+  run<R>(key: string, operation: (signal: AbortSignal) => Promise<R>, signal?: AbortSignal): Promise<R> {
+    let request = this.inFlight.get(key) as InFlightRequest<R> | undefined
+
+    if (!request) {
+      const controller = new AbortController()
+      const created: InFlightRequest<R> = {
+        promise: operation(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key)
+          }
+        }),
+        controller,
+        subscribers: 0,
+      }
+      // Evita rejeições não tratadas quando todos os chamadores já cancelaram
+      created.promise.catch(() => undefined)
+      this.inFlight.set(key, created)
+      request = created
+    }
+
+    request.subscribers++
+    return this.subscribe(key, request, signal)
+  }
+
+  /**
+   * Entrega o resultado compartilhado a um chamador, respeitando o seu signal.
+   * @internal
+   */
+  private subscribe<R>(key: string, request: InFlightRequest<R>, signal?: AbortSignal): Promise<R> {
+    if (!signal) {
+      return request.promise
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new CanceledError())
+        request.subscribers--
+        if (request.subscribers === 0) {
+          request.controller.abort(signal.reason)
+          if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key)
+          }
+        }
+      }
+
+      if (signal.aborted) {
+        onAbort()
+        return
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true })
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+}
@@ -0,0 +1,203 @@
+import { AxiosResponse } from 'axios'
+import {
+  ApiResponse,
+  CacheConfig,
+  CacheEntry,
+  CacheStore,
+  RequestCacheOptions,
+  RequestConfig,
+} from '../types/types'
+import { buildRequestKey, cloneData } from '../utils/requestHelpers'
+import { MemoryCacheStore } from './CacheStore'
+
+/**
+ * Estado de uma entrada encontrada no cache.
+ * - `fresh`: dentro do `ttl`, pode ser entregue sem acessar a rede;
+ * - `stale`: dentro da janela de stale-while-revalidate, é entregue e revalidada em segundo plano;
+ * - `expired`: precisa ser buscada novamente (com revalidação condicional, se possível).
+ */
+export type CacheEntryState = 'fresh' | 'stale' | 'expired'
+
+/**
+ * Opções de cache resolvidas para uma requisição.
+ * @internal
+ */
+export interface ResolvedCacheOptions {
+  key: string
+  ttl: number
+  staleWhileRevalidate: number
+}
+
+/**
+ * Cache de respostas GET do `ApiClient`.
+ * Resolve as opções de cada requisição, classifica as entradas (fresca, obsoleta ou expirada),
+ * guarda os validadores `ETag`/`Last-Modified` e invalida recursos após mutações.
+ * 
+ * Normalmente não é usado diretamente: basta informar `cache` na configuração do `ApiClient`
+ * e usar `api.invalidateCache()` / `api.clearCache()`.
+ */
+export class ResponseCache {
+  private store: CacheStore
+  private enabled: boolean
+  private ttl: number
+  private staleWhileRevalidate: number
+  private invalidateOnMutation: boolean
+
+  /**
+   * Cria um novo cache de respostas
+   * @param config Configuração do cache; `undefined` ou `false` mantém o cache desativado
+   * até que uma requisição o solicite explicitamente
+   */
+  constructor(config?: CacheConfig | boolean) {
+    const options = typeof config === 'object' ? config : {}
+    this.enabled = !!config
+    this.store = options.store || new MemoryCacheStore()
+    this.ttl = options.ttl ?? 60000
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0
+    this.invalidateOnMutation = options.invalidateOnMutation ?? true
+  }
+
+  /**
+   * Resolve as opções de cache de uma requisição.
+   * @param config Configuração da requisição
+   * @returns Opções resolvidas ou `undefined` se a requisição não usa o cache
+   */
+  resolveOptions(config: RequestConfig): ResolvedCacheOptions | undefined {
+    const method = (config.method || 'GET').toUpperCase()
+    if (method !== 'GET' || config.cache === false || (!this.enabled && !config.cache)) {
+      return undefined
+    }
+
+    const options: RequestCacheOptions = typeof config.cache === 'object' ? config.cache : {}
+    return {
+      key: options.key || buildRequestKey(config.url, config.params),
+      ttl: options.ttl ?? this.ttl,
+      staleWhileRevalidate: options.staleWhileRevalidate ?? this.staleWhileRevalidate,
+    }
+  }
+
+  /**
+   * Busca uma entrada e classifica seu estado.
+   * @param key Chave da entrada
+   * @returns Entrada e estado, ou `undefined` se não houver entrada
+   */
+  async lookup(key: string): Promise<{ entry: CacheEntry; state: CacheEntryState } | undefined> {
+    const entry = await this.store.get(key)
+    if (!entry) {
+      return undefined
+    }
+
+    const now = Date.now()
+    const state: CacheEntryState =
+      now < entry.expiresAt ? 'fresh' : now < entry.staleUntil ? 'stale' : 'expired'
+    return { entry, state }
+  }
+
+  /**
+   * Monta os headers condicionais para revalidar uma entrada.
+   * @param entry Entrada em cache
+   * @returns Headers `If-None-Match` e `If-Modified-Since` disponíveis
+   */
+  conditionalHeaders(entry: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {}
+    if (entry.etag) {
+      headers['If-None-Match'] = entry.etag
+    }
+    if (entry.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified
+    }
+    return headers
+  }
+
+  /**
+   * Armazena a resposta de uma requisição.
+   * Para respostas 304, renova a validade da entrada anterior e a retorna no lugar da resposta vazia.
+   * O cache guarda uma cópia, para que alterações do chamador na resposta não alterem a entrada.
+   * 
+   * @param options Opções resolvidas da requisição
+   * @param rawResponse Resposta original do Axios (para ler status e validadores)
+   * @param response Resposta padronizada
+   * @param previous Entrada usada na revalidação condicional (opcional)
+   * @returns A resposta a ser entregue ao chamador
+   */
+  async save<T>(
+    options: ResolvedCacheOptions,
+    rawResponse: AxiosResponse<T>,
+    response: ApiResponse<T>,
+    previous?: CacheEntry,
+  ): Promise<ApiResponse<T>> {
+    const notModified = rawResponse.status === 304 && !!previous
+    const finalResponse = notModified ? (previous!.response as ApiResponse<T>) : response
+    const headers = rawResponse.headers || {}
+    const now = Date.now()
+
+    await this.store.set(options.key, {
+      response: cloneData(finalResponse),
+      storedAt: now,
+      expiresAt: now + options.ttl,
+      staleUntil: now + options.ttl + options.staleWhileRevalidate,
+      etag: headers['etag'] ?? previous?.etag,
+      lastModified: headers['last-modified'] ?? previous?.lastModified,
+    })
+
+    return finalResponse
+  }
+
+  /**
+   * Remove as entradas cuja chave começa com o prefixo informado.
+   * @param prefix Chave exata ou prefixo (ex.: '/agendas')
+   */
+  async invalidate(prefix: string): Promise<void> {
+    const keys = await this.store.keys()
+    await this.deleteKeys(keys.filter((key) => key.startsWith(prefix)))
+  }
+
+  /**
+   * Invalida o recurso alterado por uma mutação e a coleção a que ele pertence.
+   * Um `PUT /agendas/1` remove `/agendas/1` (e seus sub-recursos) e as listagens `/agendas` e `/agendas?...`,
+   * mas preserva `/agendas/2`. Sem URL não há recurso a invalidar, e nada é removido.
+   * 
+   * @param config Configuração da requisição de mutação (`invalidate` substitui `invalidateOnMutation`)
+   */
+  async invalidateResource(config: RequestConfig): Promise<void> {
+    const path = buildRequestKey((config.url || '').split('?')[0])
+    if (!(config.invalidate ?? this.invalidateOnMutation) || !path) {
+      return
+    }
+
+    const collection = path.slice(0, path.lastIndexOf('/'))
+    const isPathOrChild = (key: string, base: string) =>
+      key === base || key.startsWith(`${base}?`) || key.startsWith(`${base}/`)
+    const keys = await this.store.keys()
+
+    await this.deleteKeys(
+      keys.filter(
+        (key) =>
+          isPathOrChild(key, path) ||
+          (!!collection && (key === collection || key.startsWith(`${collection}?`)))
+      )
+    )
+  }
+
+  /**
+   * Remove todas as entradas do cache.
+   */
+  async clear(): Promise<void> {
+    await this.store.clear()
+  }
+
+  /**
+   * Remove as entradas informadas, de uma vez quando o armazenamento oferece `deleteMany`.
+   * @internal
+   */
+  private async deleteKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return
+    }
+    if (this.store.deleteMany) {
+      await this.store.deleteMany(keys)
+      return
+    }
+    await Promise.all(keys.map((key) => this.store.delete(key)))
+  }
+}
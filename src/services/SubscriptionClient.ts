@@ -0,0 +1,396 @@
+import {
+  GraphQLResponse,
+  SubscriptionConfig,
+  SubscriptionHandlers,
+  WebSocketConstructor,
+  WebSocketLike,
+} from '../types/graphql'
+import { ApiRequestError, GraphQLRequestError, NetworkError, createHttpError } from '../utils/errors'
+import { parseGraphQLErrors } from '../utils/graphqlHelpers'
+
+/**
+ * Subprotocolo WebSocket do graphql-ws.
+ */
+export const GRAPHQL_WS_PROTOCOL = 'graphql-transport-ws'
+
+/**
+ * Códigos de fechamento após os quais a conexão não é refeita:
+ * fechamento normal e erros de protocolo, autenticação ou inicialização duplicada.
+ * @internal
+ */
+const FATAL_CLOSE_CODES = [1000, 4400, 4401, 4403, 4406, 4409, 4429]
+
+/**
+ * Payload de uma operação enviada no `subscribe`.
+ * @internal
+ */
+interface SubscriptionPayload {
+  query: string
+  variables?: Record<string, unknown>
+  operationName?: string
+}
+
+/**
+ * Subscription ativa, reenviada após cada reconexão.
+ * @internal
+ */
+interface ActiveSubscription {
+  payload: SubscriptionPayload
+  handlers: SubscriptionHandlers<unknown>
+}
+
+/**
+ * Mensagem do protocolo graphql-ws.
+ * @internal
+ */
+interface ProtocolMessage {
+  type: string
+  id?: string
+  payload?: unknown
+}
+
+/**
+ * Cliente de subscriptions GraphQL sobre WebSocket, no protocolo graphql-ws (`graphql-transport-ws`).
+ * 
+ * - conecta sob demanda na primeira subscription e desconecta quando a última é encerrada (pelo cliente ou pelo servidor);
+ * - envia `connection_init` com `connectionParams` (ex.: o token de acesso) a cada conexão;
+ * - responde aos pings do servidor e, com `keepAlive`, envia pings e reconecta se o pong não chegar;
+ * - reconecta com backoff exponencial e reenvia todas as subscriptions ativas.
+ * 
+ * Normalmente não é usado diretamente: `GraphQLClient.subscribe` cria o cliente a partir de `subscriptions`.
+ * 
+ * @example
+ * ```typescript
+ * const subscriptions = new SubscriptionClient({
+ *   url: 'wss://api.exemplo.com/graphql',
+ *   connectionParams: () => ({ Authorization: `Bearer ${getToken()}` })
+ * })
+ * 
+ * const unsubscribe = subscriptions.subscribe(
+ *   { query: 'subscription { votos { sim nao } }' },
+ *   { onNext: (response) => console.log(response.data) }
+ * )
+ * ```
+ */
+export class SubscriptionClient {
+  private config: SubscriptionConfig
+  private socket?: WebSocketLike
+  private ready = false
+  private subscriptions = new Map<string, ActiveSubscription>()
+  private nextId = 1
+  private retries = 0
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private ackTimer?: ReturnType<typeof setTimeout>
+  private keepAliveTimer?: ReturnType<typeof setInterval>
+  private awaitingPong = false
+
+  /**
+   * Cria um novo cliente de subscriptions
+   * @param config Configuração da conexão WebSocket
+   */
+  constructor(config: SubscriptionConfig) {
+    this.config = config
+  }
+
+  /**
+   * Inicia uma subscription.
+   * @param payload Documento, variáveis e nome da operação
+   * @param handlers Callbacks de eventos, erro e conclusão
+   * @returns Função que encerra a subscription
+   */
+  subscribe<T>(payload: SubscriptionPayload, handlers: SubscriptionHandlers<T>): () => void {
+    const id = String(this.nextId++)
+    this.subscriptions.set(id, { payload, handlers: handlers as SubscriptionHandlers<unknown> })
+
+    if (this.ready) {
+      this.sendSubscribe(id)
+    } else {
+      this.connect()
+    }
+    return () => this.unsubscribe(id)
+  }
+
+  /**
+   * Encerra todas as subscriptions e fecha a conexão.
+   */
+  dispose(): void {
+    this.subscriptions.clear()
+    this.closeSocket()
+  }
+
+  /**
+   * Encerra uma subscription, fechando a conexão se não restar nenhuma.
+   * @internal
+   */
+  private unsubscribe(id: string): void {
+    if (!this.subscriptions.delete(id)) {
+      return
+    }
+
+    if (this.ready) {
+      this.send({ id, type: 'complete' })
+    }
+    this.closeIfIdle()
+  }
+
+  /**
+   * Fecha a conexão quando não resta nenhuma subscription ativa.
+   * @internal
+   */
+  private closeIfIdle(): void {
+    if (this.subscriptions.size === 0) {
+      this.closeSocket()
+    }
+  }
+
+  /**
+   * Abre a conexão WebSocket, se ainda não houver uma.
+   * @internal
+   */
+  private connect(): void {
+    if (this.socket || this.reconnectTimer) {
+      return
+    }
+
+    const WebSocketImpl =
+      this.config.webSocketImpl || (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket
+    if (!WebSocketImpl || !this.config.url) {
+      this.failAll(
+        new NetworkError(
+          WebSocketImpl
+            ? 'URL WebSocket das subscriptions não configurada'
+            : 'WebSocket não disponível; informe subscriptions.webSocketImpl',
+          { code: 'WS_UNAVAILABLE' }
+        )
+      )
+      return
+    }
+
+    const socket = new WebSocketImpl(this.config.url, GRAPHQL_WS_PROTOCOL)
+    this.socket = socket
+
+    socket.onopen = async () => {
+      try {
+        const { connectionParams } = this.config
+        const payload = typeof connectionParams === 'function' ? await connectionParams() : connectionParams
+        if (socket !== this.socket) {
+          return
+        }
+
+        this.send({ type: 'connection_init', payload })
+        this.ackTimer = setTimeout(
+          () => socket.close(4504, 'Connection acknowledgement timeout'),
+          this.config.connectionAckWaitTimeout ?? 10000
+        )
+      } catch (error) {
+        this.closeSocket()
+        this.failAll(
+          new ApiRequestError('Falha ao obter os parâmetros da conexão', { code: 'WS_INIT_FAILED', cause: error })
+        )
+      }
+    }
+    socket.onmessage = (event) => this.handleMessage(socket, event.data)
+    socket.onclose = (event) => this.handleClose(socket, event.code, event.reason)
+    // O evento `close` sempre segue um erro e concentra o tratamento
+    socket.onerror = () => undefined
+  }
+
+  /**
+   * Trata uma mensagem recebida do servidor.
+   * @internal
+   */
+  private handleMessage(socket: WebSocketLike, raw: unknown): void {
+    if (socket !== this.socket) {
+      return
+    }
+
+    let message: ProtocolMessage
+    try {
+      message = JSON.parse(String(raw))
+    } catch {
+      socket.close(4400, 'Invalid message received')
+      return
+    }
+
+    const subscription = message.id ? this.subscriptions.get(message.id) : undefined
+
+    switch (message.type) {
+      case 'connection_ack':
+        clearTimeout(this.ackTimer)
+        this.ready = true
+        this.retries = 0
+        this.startKeepAlive(socket)
+        for (const id of this.subscriptions.keys()) {
+          this.sendSubscribe(id)
+        }
+        break
+      case 'ping':
+        this.send({ type: 'pong', payload: message.payload })
+        break
+      case 'pong':
+        this.awaitingPong = false
+        break
+      case 'next':
+        subscription?.handlers.onNext?.(this.toResponse(message.payload))
+        break
+      case 'error': {
+        if (!subscription) break
+        this.subscriptions.delete(message.id!)
+        this.closeIfIdle()
+        const errors = parseGraphQLErrors(message.payload) || [{ message: 'Erro na subscription GraphQL' }]
+        subscription.handlers.onError?.(
+          new GraphQLRequestError(errors[0].message, errors, { code: 'GRAPHQL_ERROR', details: message.payload })
+        )
+        break
+      }
+      case 'complete':
+        if (!subscription) break
+        this.subscriptions.delete(message.id!)
+        this.closeIfIdle()
+        subscription.handlers.onComplete?.()
+        break
+    }
+  }
+
+  /**
+   * Trata o fechamento da conexão, reconectando ou encerrando as subscriptions.
+   * @internal
+   */
+  private handleClose(socket: WebSocketLike, code: number, reason: string): void {
+    if (socket !== this.socket) {
+      return
+    }
+
+    this.resetConnection()
+    if (this.subscriptions.size === 0) {
+      return
+    }
+
+    const event = { code, reason }
+    const shouldRetry = this.config.shouldRetry
+      ? this.config.shouldRetry(event)
+      : !FATAL_CLOSE_CODES.includes(code)
+
+    if (!shouldRetry) {
+      // Códigos 44xx espelham os status HTTP (4401 → 401, 4403 → 403...)
+      this.failAll(
+        code >= 4400 && code < 4500
+          ? createHttpError(reason || 'Conexão WebSocket recusada', code - 4000, { code: 'WS_CLOSED', details: event })
+          : new NetworkError(reason || 'Conexão WebSocket encerrada', { code: 'WS_CLOSED', details: event })
+      )
+      return
+    }
+
+    if (this.retries >= (this.config.retryAttempts ?? 5)) {
+      this.failAll(
+        new NetworkError('Não foi possível conectar ao servidor de subscriptions', {
+          code: 'WS_CLOSED',
+          details: event,
+        })
+      )
+      return
+    }
+
+    const baseDelay = this.config.retryDelay ?? 1000
+    const maxDelay = this.config.maxRetryDelay ?? 30000
+    const delay = Math.min(maxDelay, baseDelay * 2 ** this.retries) * (0.5 + Math.random() / 2)
+    this.retries++
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined
+      this.connect()
+    }, delay)
+  }
+
+  /**
+   * Envia pings periódicos e fecha a conexão se o pong anterior não tiver chegado.
+   * @internal
+   */
+  private startKeepAlive(socket: WebSocketLike): void {
+    const interval = this.config.keepAlive ?? 0
+    if (interval <= 0) {
+      return
+    }
+
+    this.awaitingPong = false
+    this.keepAliveTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        socket.close(4499, 'Keep-alive timeout')
+        return
+      }
+      this.awaitingPong = true
+      this.send({ type: 'ping' })
+    }, interval)
+  }
+
+  /**
+   * Envia a mensagem `subscribe` de uma subscription ativa.
+   * @internal
+   */
+  private sendSubscribe(id: string): void {
+    const subscription = this.subscriptions.get(id)
+    if (subscription) {
+      this.send({ id, type: 'subscribe', payload: subscription.payload })
+    }
+  }
+
+  /**
+   * Serializa e envia uma mensagem do protocolo.
+   * @internal
+   */
+  private send(message: ProtocolMessage): void {
+    this.socket?.send(JSON.stringify(message))
+  }
+
+  /**
+   * Converte o payload de um evento `next` na resposta padronizada.
+   * @internal
+   */
+  private toResponse(payload: unknown): GraphQLResponse<unknown> {
+    const result = typeof payload === 'object' && payload !== null ? (payload as { data?: unknown; errors?: unknown }) : {}
+    const errors = parseGraphQLErrors(result.errors)
+    return {
+      data: result.data,
+      status: 200,
+      message: errors ? 'Evento recebido com erros' : 'Evento recebido',
+      ...(errors && { errors }),
+    }
+  }
+
+  /**
+   * Entrega um erro a todas as subscriptions ativas e as encerra.
+   * @internal
+   */
+  private failAll(error: ApiRequestError): void {
+    const subscriptions = Array.from(this.subscriptions.values())
+    this.subscriptions.clear()
+    this.retries = 0
+    for (const { handlers } of subscriptions) {
+      handlers.onError?.(error)
+    }
+  }
+
+  /**
+   * Fecha a conexão atual sem disparar a reconexão.
+   * @internal
+   */
+  private closeSocket(): void {
+    const socket = this.socket
+    this.resetConnection()
+    clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = undefined
+    this.retries = 0
+    socket?.close(1000, 'Normal Closure')
+  }
+
+  /**
+   * Limpa o estado e os timers da conexão atual.
+   * @internal
+   */
+  private resetConnection(): void {
+    clearTimeout(this.ackTimer)
+    clearInterval(this.keepAliveTimer)
+    this.socket = undefined
+    this.ready = false
+    this.awaitingPong = false
+  }
+}
@@ -0,0 +1,540 @@
+import {
+  CubeOrderDirection,
+  CubeQueryFilter,
+  CubeQueryOptions,
+  CubeQueryTimeDimension,
+  CubeTimeGranularity,
+  CubeWhereAnd,
+  CubeWhereNot,
+  CubeWhereOr,
+} from './graphql'
+
+/**
+ * Operadores de filtro da API REST do Cube.
+ * `set`/`notSet` não recebem valores; `measureFilter` aplica os filtros de uma medida.
+ */
+export type CubeRestFilterOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'notContains'
+  | 'startsWith'
+  | 'notStartsWith'
+  | 'endsWith'
+  | 'notEndsWith'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'set'
+  | 'notSet'
+  | 'inDateRange'
+  | 'notInDateRange'
+  | 'beforeDate'
+  | 'beforeOrOnDate'
+  | 'afterDate'
+  | 'afterOrOnDate'
+  | 'measureFilter'
+
+/**
+ * Filtro sobre um membro na API REST do Cube.
+ * 
+ * @example
+ * ```typescript
+ * const filtro: CubeRestMemberFilter = {
+ *   member: 'vendas.status',
+ *   operator: 'equals',
+ *   values: ['APROVADA', 'CONCLUIDA']
+ * }
+ * ```
+ */
+export interface CubeRestMemberFilter {
+  /** Membro no formato `cube.membro` */
+  member: string
+  /** Operador do filtro */
+  operator: CubeRestFilterOperator
+  /** Valores comparados (como strings); omitido em `set` e `notSet` */
+  values?: string[]
+}
+
+/**
+ * Grupo de filtros combinados com AND.
+ */
+export interface CubeRestAndFilter {
+  and: CubeRestFilter[]
+}
+
+/**
+ * Grupo de filtros combinados com OR.
+ */
+export interface CubeRestOrFilter {
+  or: CubeRestFilter[]
+}
+
+/**
+ * Filtro da API REST do Cube: um filtro de membro ou um grupo `and`/`or` aninhado.
+ * 
+ * @example
+ * ```typescript
+ * const filtro: CubeRestFilter = {
+ *   or: [
+ *     { member: 'vendas.status', operator: 'equals', values: ['APROVADA'] },
+ *     { member: 'vendas.total', operator: 'gt', values: ['1000'] }
+ *   ]
+ * }
+ * ```
+ */
+export type CubeRestFilter = CubeRestMemberFilter | CubeRestAndFilter | CubeRestOrFilter
+
+/**
+ * Intervalo de datas na API REST do Cube: `['2024-01-01', '2024-12-31']` ou uma expressão como `'last 7 days'`.
+ */
+export type CubeRestDateRange = [string, string] | string
+
+/**
+ * Dimensão de tempo de uma consulta REST.
+ * 
+ * @example
+ * ```typescript
+ * const porMes: CubeRestTimeDimension = {
+ *   dimension: 'vendas.criadoEm',
+ *   granularity: 'month',
+ *   dateRange: ['2024-01-01', '2024-12-31']
+ * }
+ * ```
+ */
+export interface CubeRestTimeDimension {
+  /** Dimensão de tempo no formato `cube.membro` */
+  dimension: string
+  /** Granularidade do agrupamento (opcional) */
+  granularity?: CubeTimeGranularity
+  /** Intervalo de datas (opcional) */
+  dateRange?: CubeRestDateRange
+  /** Intervalos a comparar; a resposta traz um resultado por intervalo (opcional) */
+  compareDateRange?: CubeRestDateRange[]
+}
+
+/**
+ * Consulta no formato JSON da API REST do Cube.
+ * 
+ * @example
+ * ```typescript
+ * const query: CubeRestQuery = {
+ *   measures: ['vendas.total'],
+ *   dimensions: ['vendas.status'],
+ *   timeDimensions: [{ dimension: 'vendas.criadoEm', granularity: 'month', dateRange: 'this year' }],
+ *   filters: [{ member: 'vendas.regiao', operator: 'equals', values: ['SUL'] }],
+ *   segments: ['vendas.ativas'],
+ *   order: { 'vendas.total': 'desc' },
+ *   limit: 100
+ * }
+ * ```
+ */
+export interface CubeRestQuery {
+  /** Medidas no formato `cube.membro` (opcional) */
+  measures?: string[]
+  /** Dimensões no formato `cube.membro` (opcional) */
+  dimensions?: string[]
+  /** Filtros combinados com AND (opcional) */
+  filters?: CubeRestFilter[]
+  /** Dimensões de tempo (opcional) */
+  timeDimensions?: CubeRestTimeDimension[]
+  /** Segmentos no formato `cube.membro` (opcional) */
+  segments?: string[]
+  /** Limite de linhas (opcional) */
+  limit?: number
+  /** Número de linhas para pular (opcional) */
+  offset?: number
+  /** Ordenação por membro, como objeto ou lista de pares (opcional) */
+  order?: Record<string, CubeOrderDirection> | [string, CubeOrderDirection][]
+  /** Fuso horário das dimensões de tempo (opcional, padrão: 'UTC') */
+  timezone?: string
+  /** Ignora o cache do Cube (opcional) */
+  renewQuery?: boolean
+  /** Retorna as linhas sem agregação (opcional) */
+  ungrouped?: boolean
+  /** Inclui o total de linhas sem `limit`/`offset` em `total` (opcional) */
+  total?: boolean
+}
+
+/**
+ * Tipo de consulta identificado pelo Cube.
+ */
+export type CubeRestQueryType = 'regularQuery' | 'compareDateRangeQuery' | 'blendingQuery'
+
+/**
+ * Linha retornada pelo Cube, com as chaves no formato `cube.membro`.
+ * Medidas numéricas costumam vir como strings.
+ */
+export type CubeRow = Record<string, string | number | boolean | null>
+
+/**
+ * Metadados de um membro presente no resultado.
+ */
+export interface CubeAnnotationMember {
+  /** Título completo */
+  title: string
+  /** Título curto */
+  shortTitle: string
+  /** Tipo do membro (ex.: 'number', 'string', 'time') */
+  type: string
+  /** Formato de exibição (opcional) */
+  format?: string
+  /** Metadados personalizados do schema (opcional) */
+  meta?: unknown
+}
+
+/**
+ * Metadados dos membros presentes no resultado, por tipo de membro.
+ */
+export interface CubeAnnotation {
+  measures: Record<string, CubeAnnotationMember>
+  dimensions: Record<string, CubeAnnotationMember>
+  segments: Record<string, CubeAnnotationMember>
+  timeDimensions: Record<string, CubeAnnotationMember>
+}
+
+/**
+ * Resultado de uma consulta (ou de um intervalo de `compareDateRange`).
+ */
+export interface CubeLoadResult<T = CubeRow> {
+  /** Consulta normalizada pelo Cube */
+  query: CubeRestQuery
+  /** Linhas retornadas */
+  data: T[]
+  /** Metadados dos membros do resultado */
+  annotation: CubeAnnotation
+  /** Momento da última atualização dos dados (opcional) */
+  lastRefreshTime?: string
+  /** Total de linhas sem `limit`/`offset`, quando a consulta usa `total: true` (opcional) */
+  total?: number
+  /** Tipo do banco de dados de origem (opcional) */
+  dbType?: string
+}
+
+/**
+ * Resultado de `CubeRestClient.load`.
+ * Toda resposta traz `results`, com um item por consulta (ou por intervalo de `compareDateRange`);
+ * `data` e `annotation` repetem os do primeiro item.
+ * 
+ * @example
+ * ```typescript
+ * const { data: resultSet } = await cube.load({ measures: ['vendas.total'] })
+ * console.log(resultSet.data[0]['vendas.total'])
+ * console.log(resultSet.annotation.measures['vendas.total'].title)
+ * ```
+ */
+export interface CubeResultSet<T = CubeRow> {
+  /** Tipo de consulta identificado pelo Cube */
+  queryType: CubeRestQueryType
+  /** Resultados, na ordem das consultas ou dos intervalos comparados */
+  results: CubeLoadResult<T>[]
+  /** Linhas do primeiro resultado */
+  data: T[]
+  /** Metadados dos membros do primeiro resultado */
+  annotation: CubeAnnotation
+  /** Consulta usada para combinar os resultados (opcional) */
+  pivotQuery?: CubeRestQuery
+  /** Indica que o Cube considerou a consulta lenta (opcional) */
+  slowQuery?: boolean
+}
+
+/**
+ * SQL gerado pelo Cube para uma consulta.
+ */
+export interface CubeSqlResult {
+  sql: {
+    /** SQL e seus parâmetros */
+    sql: [string, unknown[]]
+    /** Fonte de dados usada (opcional) */
+    dataSource?: string
+    /** Indica se a consulta usa pré-agregações externas (opcional) */
+    external?: boolean
+    [key: string]: unknown
+  }
+}
+
+/**
+ * Resultado de `CubeRestClient.dryRun`: a consulta validada e normalizada, sem execução.
+ */
+export interface CubeDryRunResult {
+  /** Tipo de consulta identificado pelo Cube */
+  queryType: CubeRestQueryType
+  /** Consultas normalizadas */
+  normalizedQueries: CubeRestQuery[]
+  /** Consulta usada para combinar os resultados */
+  pivotQuery: CubeRestQuery
+  /** Ordem das consultas (opcional) */
+  queryOrder?: unknown[]
+}
+
+/**
+ * Membro (medida, dimensão ou segmento) de um cube em `/meta`.
+ */
+export interface CubeMetaMember {
+  /** Nome no formato `cube.membro` */
+  name: string
+  /** Título completo */
+  title: string
+  /** Título curto */
+  shortTitle: string
+  /** Tipo do membro (ex.: 'count', 'sum', 'string', 'time'); ausente em segmentos */
+  type?: string
+  /** Tipo de agregação de uma medida (opcional) */
+  aggType?: string
+  /** Formato de exibição (opcional) */
+  format?: string
+  /** Indica se o membro é visível (opcional) */
+  isVisible?: boolean
+  /** Metadados personalizados do schema (opcional) */
+  meta?: unknown
+}
+
+/**
+ * Cube (ou view) descrito em `/meta`.
+ */
+export interface CubeMetaCube {
+  /** Nome do cube */
+  name: string
+  /** Título do cube */
+  title: string
+  /** `cube` ou `view` (opcional) */
+  type?: 'cube' | 'view'
+  measures: CubeMetaMember[]
+  dimensions: CubeMetaMember[]
+  segments: CubeMetaMember[]
+}
+
+/**
+ * Resposta de `/meta` com os cubes disponíveis.
+ */
+export interface CubeMeta {
+  cubes: CubeMetaCube[]
+}
+
+/**
+ * Tipo de um membro do cube, usado para decidir quais operadores de filtro se aplicam a ele.
+ */
+export type CubeMemberKind = 'number' | 'string' | 'time' | 'boolean'
+
+/**
+ * Retorna o tipo de um membro pelo nome completo (`vendas.total`), ou `undefined` se for desconhecido.
+ * Usado por `buildCubeOperation` para declarar as variáveis dos filtros com o tipo do membro.
+ */
+export type CubeMemberKindResolver = (member: string) => CubeMemberKind | undefined
+
+/**
+ * Schema de cubes por nome, com o tipo de cada membro.
+ * Normalmente gerado por `generateCubeTypes` a partir do `/meta` do Cube;
+ * os tipos que recebem o schema usam a restrição `S extends CubeSchemaDefinition<S>`,
+ * que aceita tanto interfaces quanto aliases de tipo.
+ * 
+ * @example
+ * ```typescript
+ * interface MeuSchema {
+ *   vendas: { total: 'number'; status: 'string'; criadoEm: 'time' }
+ *   cliente: { nome: 'string'; ativo: 'boolean' }
+ * }
+ * ```
+ */
+export type CubeSchemaDefinition<S> = { [C in keyof S]: { [M in keyof S[C]]: CubeMemberKind } }
+
+/**
+ * Operadores aceitos por todos os tipos de membro.
+ * @internal
+ */
+type CubeCommonOperator = 'equals' | 'notEquals' | 'in' | 'notIn' | 'set' | 'notSet'
+
+/**
+ * Operadores de filtro aplicáveis a um tipo de membro.
+ */
+export type CubeKindOperator<K extends CubeMemberKind> =
+  | CubeCommonOperator
+  | (K extends 'number'
+    ? 'gt' | 'gte' | 'lt' | 'lte'
+    : K extends 'string'
+      ? 'contains' | 'notContains' | 'startsWith' | 'notStartsWith' | 'endsWith' | 'notEndsWith'
+      : K extends 'time'
+        ? 'inDateRange' | 'notInDateRange' | 'beforeDate' | 'beforeOrOnDate' | 'afterDate' | 'afterOrOnDate'
+        : never)
+
+/**
+ * Filtro de um membro com apenas os operadores aplicáveis ao seu tipo.
+ */
+export type TypedCubeFilter<K extends CubeMemberKind> = Pick<CubeQueryFilter, CubeKindOperator<K>>
+
+/**
+ * Campos selecionáveis de cada cube do schema.
+ */
+export type TypedCubeFields<S extends CubeSchemaDefinition<S>> = {
+  [C in keyof S]?: { [M in keyof S[C]]?: boolean }
+}
+
+/**
+ * Mapa de cubes e filtros por membro do schema, todos combinados com AND.
+ */
+export type TypedCubeEntityFilters<S extends CubeSchemaDefinition<S>> = {
+  AND?: never
+  OR?: never
+  NOT?: never
+} & {
+  [C in keyof S]?: { [M in keyof S[C]]?: TypedCubeFilter<Extract<S[C][M], CubeMemberKind>> }
+}
+
+/**
+ * Filtros da consulta verificados contra o schema: membros inexistentes e
+ * operadores incompatíveis com o tipo do membro são erros de compilação.
+ */
+export type TypedCubeWhere<S extends CubeSchemaDefinition<S>> =
+  | TypedCubeEntityFilters<S>
+  | CubeWhereAnd<TypedCubeWhere<S>>
+  | CubeWhereOr<TypedCubeWhere<S>>
+  | CubeWhereNot<TypedCubeWhere<S>>
+
+/**
+ * Dimensão de tempo de um cube do schema; apenas membros do tipo `time` são aceitos.
+ */
+export type TypedCubeTimeDimension<S extends CubeSchemaDefinition<S>> = {
+  [C in keyof S & string]: Omit<CubeQueryTimeDimension, 'entity' | 'dimension'> & {
+    entity: C
+    dimension: { [M in keyof S[C] & string]: S[C][M] extends 'time' ? M : never }[keyof S[C] & string]
+  }
+}[keyof S & string]
+
+/**
+ * `CubeQueryOptions` verificadas contra um schema: `fields`, `where`, `orderBy`,
+ * `timeDimensions` e `defaultEntity` só aceitam cubes e membros existentes.
+ * O resultado pode ser passado diretamente para `CubeGraphQLClient.query`.
+ * 
+ * @example
+ * ```typescript
+ * import { CubeSchemaTypes } from './cube-schema' // gerado por generateCubeTypes
+ * 
+ * const options: TypedCubeQueryOptions<CubeSchemaTypes> = {
+ *   fields: { vendas: { total: true, status: true } },
+ *   where: { vendas: { total: { gt: 1000 } } }
+ *   // where: { vendas: { total: { contains: '1' } } } -> erro de compilação
+ * }
+ * ```
+ */
+export interface TypedCubeQueryOptions<S extends CubeSchemaDefinition<S>>
+  extends Omit<CubeQueryOptions, 'fields' | 'where' | 'orderBy' | 'timeDimensions' | 'defaultEntity'> {
+  /** Campos a serem retornados na consulta */
+  fields?: TypedCubeFields<S>
+  /** Filtros a serem aplicados na consulta */
+  where?: TypedCubeWhere<S>
+  /** Ordenação do resultado, por cube e membro */
+  orderBy?: { [C in keyof S]?: { [M in keyof S[C]]?: CubeOrderDirection } }
+  /** Dimensões de tempo dos cubes de `fields` */
+  timeDimensions?: TypedCubeTimeDimension<S>[]
+  /** Entidade padrão para consulta quando não especificada */
+  defaultEntity?: keyof S & string
+}
+
+/**
+ * Opções do código gerado por `generateCubeTypes`.
+ */
+export interface CubeTypeGeneratorOptions {
+  /** Nome da interface com o schema completo; o alias das opções de consulta recebe o sufixo `Query` (opcional, padrão: 'CubeSchemaTypes', que não conflita com a classe `CubeSchema`) */
+  schemaName?: string
+  /** Módulo de onde `TypedCubeQueryOptions` é importado (opcional, padrão: '@wmmz/fn-api-client') */
+  importFrom?: string
+  /** Converte os nomes de cubes e membros para camelCase, como no GraphQL do Cube (opcional, padrão: true) */
+  camelCase?: boolean
+}
+
+/**
+ * Valor de uma coluna de `CubeRow`.
+ */
+export type CubeRowValue = CubeRow[string]
+
+/**
+ * Opções de `pivotCubeRows`.
+ * 
+ * @example
+ * ```typescript
+ * const options: CubePivotOptions = {
+ *   x: 'vendas.criadoEm.month',
+ *   by: 'vendas.status',
+ *   measures: 'vendas.total'
+ * }
+ * ```
+ */
+export interface CubePivotOptions {
+  /** Coluna usada como eixo X (categorias) */
+  x: string
+  /** Medida (ou medidas) usadas como valores das séries */
+  measures: string | string[]
+  /** Dimensão cujos valores dão origem a uma série cada (opcional) */
+  by?: string
+  /** Valor das categorias sem linha na série (opcional, padrão: null) */
+  fill?: number | null
+}
+
+/**
+ * Série de um gráfico produzida por `pivotCubeRows`.
+ */
+export interface CubeSeries {
+  /** Identificador da série: o valor de `by`, a medida, ou ambos quando há várias medidas */
+  key: string
+  /** Medida da série */
+  measure: string
+  /** Valor da dimensão `by` da série (opcional) */
+  group?: CubeRowValue
+  /** Valores da série, na ordem de `categories` */
+  data: (number | null)[]
+}
+
+/**
+ * Resultado de `pivotCubeRows`: categorias do eixo X e uma série por grupo e medida.
+ */
+export interface CubePivot {
+  /** Valores do eixo X, na ordem em que aparecem nas linhas */
+  categories: CubeRowValue[]
+  /** Séries com um valor por categoria */
+  series: CubeSeries[]
+}
+
+/**
+ * Opções de `fillCubeTimeBuckets`.
+ * 
+ * @example
+ * ```typescript
+ * const options: CubeTimeBucketOptions = {
+ *   dimension: 'vendas.criadoEm.month',
+ *   granularity: 'month',
+ *   dateRange: ['2024-01-01', '2024-12-31'],
+ *   values: { 'vendas.total': 0 }
+ * }
+ * ```
+ */
+export interface CubeTimeBucketOptions {
+  /** Coluna da dimensão de tempo */
+  dimension: string
+  /** Granularidade dos intervalos */
+  granularity: CubeTimeGranularity
+  /** Intervalo a preencher (opcional, padrão: da primeira à última data das linhas) */
+  dateRange?: [string | Date, string | Date]
+  /** Valores das demais colunas nas linhas criadas (opcional) */
+  values?: CubeRow
+  /** Número máximo de intervalos; acima dele o preenchimento é rejeitado (opcional, padrão: 10000) */
+  maxBuckets?: number
+}
+
+/**
+ * Opções de paginação de `CubeGraphQLClient.paginate` e `CubeRestClient.paginate`.
+ * As páginas são buscadas com `limit`/`offset`, a partir do `offset` da consulta.
+ * 
+ * @example
+ * ```typescript
+ * const pagination: CubePaginateOptions = { pageSize: 5000, concurrency: 2, maxItems: 50000 }
+ * ```
+ */
+export interface CubePaginateOptions {
+  /** Linhas por página, enviadas como `limit` */
+  pageSize: number
+  /** Páginas buscadas em paralelo (opcional, padrão: 1) */
+  concurrency?: number
+  /** Número máximo de linhas retornadas (opcional) */
+  maxItems?: number
+}
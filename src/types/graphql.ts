@@ -61,78 +61,296 @@ export interface CubeQueryFields {
     | undefined
 }
 
+/**
+ * Valor de enum do schema GraphQL, enviado sem aspas. Crie com `cubeEnum`.
+ * 
+ * @example
+ * ```typescript
+ * const filtro: CubeQueryFilter = { equals: cubeEnum('APROVADA') } // equals: APROVADA
+ * ```
+ */
+export interface CubeEnumValue {
+  /** Nome do valor do enum */
+  readonly enum: string
+}
+
+/**
+ * Valor aceito em um filtro do Cube.
+ * Datas são enviadas como strings ISO 8601 e valores de enum (`cubeEnum`) sem aspas.
+ */
+export type CubeFilterValue = string | number | boolean | Date | CubeEnumValue | null
+
+/**
+ * Data aceita pelos operadores de data do Cube (string ISO 8601 ou `Date`).
+ */
+export type CubeDateValue = string | Date
+
+/**
+ * Intervalo de datas: início e fim, ou uma expressão relativa como `'last 7 days'` ou `'this month'`.
+ */
+export type CubeDateRange = [CubeDateValue, CubeDateValue] | string
+
 /**
  * Interface para definir os filtros que podem ser aplicados na query.
- * Suporta diversos operadores de comparação para filtrar os dados.
+ * Declara todos os operadores do Cube com o tipo de valor de cada um; operadores desconhecidos
+ * não compilam e, em JavaScript, são rejeitados pelo `buildCubeQuery` com `ApiRequestError`.
+ * Os operadores de um mesmo filtro são combinados com AND.
  * 
  * @example
  * ```typescript
  * const filtroVenda: CubeQueryFilter = {
- *   equals: 1000,
- *   greaterThan: 500,
+ *   gt: 500,
  *   in: [1, 2, 3],
  *   contains: 'APROVADA'
  * }
  * 
  * const filtroData: CubeQueryFilter = {
- *   between: ['2024-01-01', '2024-12-31'],
+ *   inDateRange: ['2024-01-01', '2024-12-31'],
  *   notEquals: '2024-03-15'
  * }
  * ```
  */
 export interface CubeQueryFilter {
   /** Filtro de igualdade exata */
-  equals?: number | string
+  equals?: CubeFilterValue
   /** Filtro de diferença */
-  notEquals?: number | string
+  notEquals?: CubeFilterValue
   /** Filtro de inclusão em lista de valores */
-  in?: (number | string)[]
+  in?: CubeFilterValue[]
   /** Filtro de exclusão de lista de valores */
-  notIn?: (number | string)[]
+  notIn?: CubeFilterValue[]
   /** Filtro de texto contendo valor */
   contains?: string
   /** Filtro de texto não contendo valor */
   notContains?: string
+  /** Filtro de texto iniciando com o valor */
+  startsWith?: string
+  /** Filtro de texto não iniciando com o valor */
+  notStartsWith?: string
+  /** Filtro de texto terminando com o valor */
+  endsWith?: string
+  /** Filtro de texto não terminando com o valor */
+  notEndsWith?: string
+  /** Maior que */
+  gt?: number
+  /** Maior ou igual a */
+  gte?: number
+  /** Menor que */
+  lt?: number
+  /** Menor ou igual a */
+  lte?: number
+  /** Data dentro do intervalo */
+  inDateRange?: CubeDateRange
+  /** Data fora do intervalo */
+  notInDateRange?: CubeDateRange
+  /** Data anterior à informada */
+  beforeDate?: CubeDateValue
+  /** Data anterior ou igual à informada */
+  beforeOrOnDate?: CubeDateValue
+  /** Data posterior à informada */
+  afterDate?: CubeDateValue
+  /** Data posterior ou igual à informada */
+  afterOrOnDate?: CubeDateValue
+  /** Membro preenchido (`true`) ou vazio (`false`) */
+  set?: boolean
+  /** Membro vazio (`true`); equivale a `set: false` */
+  notSet?: boolean
+}
+
+/**
+ * Grupo de filtros em que todas as condições devem ser atendidas.
+ * Usado tanto no `where` da consulta quanto no `where` de cada cube.
+ */
+export interface CubeWhereAnd<W> {
+  AND: W[]
+  OR?: never
+  NOT?: never
+}
+
+/**
+ * Grupo de filtros em que pelo menos uma das condições deve ser atendida.
+ */
+export interface CubeWhereOr<W> {
+  OR: W[]
+  AND?: never
+  NOT?: never
+}
+
+/**
+ * Grupo de filtros cuja condição não deve ser atendida.
+ * Como o Cube não possui `NOT`, a condição é convertida negando os operadores.
+ */
+export interface CubeWhereNot<W> {
+  NOT: W
+  AND?: never
+  OR?: never
+}
+
+/**
+ * Mapa de entidades e seus filtros por campo, todos combinados com AND.
+ */
+export interface CubeEntityFilters {
+  AND?: never
+  OR?: never
+  NOT?: never
   /** 
-   * Permite extensão com operadores adicionais.
-   * Exemplos: greaterThan, lessThan, between, etc.
+   * Mapa de entidades e seus filtros.
+   * A chave é o nome da entidade e o valor é um objeto com os filtros por campo.
    */
-  [key: string]: number | string | (number | string)[] | undefined
+  [entity: string]:
+    | {
+        /** 
+         * Mapa de campos e seus filtros.
+         * A chave é o nome do campo e o valor é o objeto de filtro.
+         */
+        [field: string]: CubeQueryFilter | undefined
+      }
+    | undefined
 }
 
 /**
- * Interface para definir a estrutura dos filtros por entidade.
- * Permite agrupar filtros por entidade e campo.
+ * Estrutura dos filtros da consulta: um mapa de entidades e campos (combinados com AND)
+ * ou um grupo `AND`, `OR` ou `NOT` de outros filtros, que pode combinar entidades diferentes.
+ * Um mesmo objeto não mistura grupos e entidades; para isso, use um grupo `AND`.
  * 
  * @example
  * ```typescript
+ * // Filtros simples, combinados com AND
  * const where: CubeQueryWhere = {
  *   vendas: {
- *     total: { greaterThan: 1000 },
- *     data: { between: ['2024-01-01', '2024-12-31'] },
+ *     total: { gt: 1000 },
  *     status: { in: ['APROVADA', 'CONCLUIDA'] }
  *   },
  *   cliente: {
- *     tipo: { equals: 'PJ' },
- *     regiao: { in: ['SUDESTE', 'SUL'] }
+ *     tipo: { equals: 'PJ' }
  *   }
  * }
+ * 
+ * // Status APROVADA ou total acima de 1000, exceto clientes PF
+ * const composto: CubeQueryWhere = {
+ *   AND: [
+ *     { OR: [{ vendas: { status: { equals: 'APROVADA' } } }, { vendas: { total: { gt: 1000 } } }] },
+ *     { NOT: { cliente: { tipo: { equals: 'PF' } } } }
+ *   ]
+ * }
  * ```
  */
-export interface CubeQueryWhere {
-  /** 
-   * Mapa de entidades e seus filtros.
-   * A chave é o nome da entidade e o valor é um objeto com os filtros por campo.
+export type CubeQueryWhere =
+  | CubeEntityFilters
+  | CubeWhereAnd<CubeQueryWhere>
+  | CubeWhereOr<CubeQueryWhere>
+  | CubeWhereNot<CubeQueryWhere>
+
+/**
+ * Granularidades de uma dimensão de tempo no Cube.
+ */
+export type CubeTimeGranularity = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+/**
+ * Direção de ordenação de um membro do cube.
+ */
+export type CubeOrderDirection = 'asc' | 'desc'
+
+/**
+ * Dimensão de tempo selecionada em um cube.
+ * 
+ * @example
+ * ```typescript
+ * const porMes: CubeTimeDimension = {
+ *   dimension: 'criadoEm',
+ *   granularity: 'month',
+ *   dateRange: ['2024-01-01', '2024-12-31']
+ * }
+ * ```
+ */
+export interface CubeTimeDimension {
+  /** Nome da dimensão de tempo no cube */
+  dimension: string
+  /** Granularidade do agrupamento; sem ela, é retornado o valor original (`value`) */
+  granularity?: CubeTimeGranularity
+  /** Intervalo de datas (`['2024-01-01', '2024-12-31']` ou uma expressão como `'last 7 days'`) */
+  dateRange?: CubeDateRange
+  /**
+   * Intervalos a comparar: a consulta é feita uma vez por intervalo e a resposta
+   * traz um resultado por intervalo, na mesma ordem. Apenas uma dimensão de tempo por consulta pode usá-lo.
    */
-  [entity: string]:
-    | {
-        /** 
-         * Mapa de campos e seus filtros.
-         * A chave é o nome do campo e o valor é o objeto de filtro.
-         */
-        [field: string]: CubeQueryFilter | undefined
-      }
-    | undefined
+  compareDateRange?: CubeDateRange[]
+}
+
+/**
+ * Dimensão de tempo de uma entidade selecionada em `fields`.
+ * 
+ * @example
+ * ```typescript
+ * const porMes: CubeQueryTimeDimension = {
+ *   entity: 'vendas',
+ *   dimension: 'criadoEm',
+ *   granularity: 'month',
+ *   dateRange: ['2024-01-01', '2024-12-31']
+ * }
+ * ```
+ */
+export interface CubeQueryTimeDimension extends CubeTimeDimension {
+  /** Entidade (cube) a que a dimensão pertence */
+  entity: string
+}
+
+/**
+ * Mapa de membros de um cube e seus filtros, todos combinados com AND.
+ */
+export interface CubeMemberFilters {
+  AND?: never
+  OR?: never
+  NOT?: never
+  /** Filtro de um membro (medida ou dimensão) */
+  [member: string]: CubeQueryFilter | undefined
+}
+
+/**
+ * Filtros sobre os membros de um cube: um mapa de membros (combinados com AND)
+ * ou um grupo `AND`, `OR` ou `NOT` aninhado.
+ * 
+ * @example
+ * ```typescript
+ * const where: CubeMemberWhere = {
+ *   AND: [
+ *     { status: { equals: 'APROVADA' } },
+ *     { OR: [{ total: { gt: 1000 } }, { tipoCliente: { equals: 'PJ' } }] }
+ *   ]
+ * }
+ * ```
+ */
+export type CubeMemberWhere =
+  | CubeMemberFilters
+  | CubeWhereAnd<CubeMemberWhere>
+  | CubeWhereOr<CubeMemberWhere>
+  | CubeWhereNot<CubeMemberWhere>
+
+/**
+ * Seleção de um cube no formato do schema GraphQL do Cube.
+ * 
+ * @example
+ * ```typescript
+ * const vendas: CubeSelection = {
+ *   measures: ['total', 'quantidade'],
+ *   dimensions: ['status'],
+ *   timeDimensions: [{ dimension: 'criadoEm', granularity: 'month', dateRange: ['2024-01-01', '2024-12-31'] }],
+ *   where: { status: { in: ['APROVADA', 'CONCLUIDA'] } },
+ *   orderBy: { total: 'desc' }
+ * }
+ * ```
+ */
+export interface CubeSelection {
+  /** Medidas a serem retornadas */
+  measures?: string[]
+  /** Dimensões a serem retornadas */
+  dimensions?: string[]
+  /** Dimensões de tempo, com granularidade e intervalo de datas */
+  timeDimensions?: CubeTimeDimension[]
+  /** Filtros sobre os membros do cube */
+  where?: CubeMemberWhere
+  /** Ordenação por membro do cube */
+  orderBy?: Record<string, CubeOrderDirection>
 }
 
 /**
@@ -146,7 +364,7 @@ export interface CubeQueryWhere {
  *   offset: 0,
  *   where: {
  *     vendas: {
- *       total: { greaterThan: 1000 },
+ *       total: { gt: 1000 },
  *       status: { in: ['APROVADA', 'CONCLUIDA'] }
  *     }
  *   },
@@ -160,6 +378,14 @@ export interface CubeQueryWhere {
  *   defaultEntity: 'vendas',
  *   defaultFields: ['id', 'total', 'status']
  * }
+ * 
+ * // Vendas por mês em 2024, ordenadas pelo total
+ * const porMes: CubeQueryOptions = {
+ *   fields: { vendas: { total: true } },
+ *   timeDimensions: [{ entity: 'vendas', dimension: 'criadoEm', granularity: 'month', dateRange: ['2024-01-01', '2024-12-31'] }],
+ *   orderBy: { vendas: { total: 'desc' } },
+ *   timezone: 'America/Sao_Paulo'
+ * }
  * ```
  */
 export interface CubeQueryOptions {
@@ -175,6 +401,214 @@ export interface CubeQueryOptions {
   defaultEntity?: string
   /** Campos padrão a serem retornados quando não especificados */
   defaultFields?: string[]
+  /** Cubes consultados, por nome, com medidas, dimensões, filtros e ordenação */
+  cubes?: Record<string, CubeSelection>
+  /** Ordenação do resultado, por entidade e campo (ex.: `{ vendas: { total: 'desc' } }`) */
+  orderBy?: Record<string, Record<string, CubeOrderDirection>>
+  /** Dimensões de tempo das entidades de `fields`, com granularidade e intervalos de datas */
+  timeDimensions?: CubeQueryTimeDimension[]
+  /** Fuso horário usado nas dimensões de tempo e intervalos de datas (ex.: 'America/Sao_Paulo') */
+  timezone?: string
+  /** Ignora o cache do Cube e recalcula o resultado */
+  renewQuery?: boolean
+  /** Retorna as linhas sem agregação (sem GROUP BY) */
+  ungrouped?: boolean
+}
+
+/**
+ * Erro retornado no array `errors` de uma resposta GraphQL, conforme a especificação.
+ * 
+ * @example
+ * ```typescript
+ * const error: GraphQLErrorItem = {
+ *   message: 'Cannot query field "nome" on type "Usuario"',
+ *   locations: [{ line: 3, column: 5 }],
+ *   path: ['usuario', 'nome'],
+ *   extensions: { code: 'GRAPHQL_VALIDATION_FAILED' }
+ * }
+ * ```
+ */
+export interface GraphQLErrorItem {
+  /** Mensagem descritiva do erro */
+  message: string
+  /** Posições da operação relacionadas ao erro (opcional) */
+  locations?: { line: number; column: number }[]
+  /** Caminho do campo que falhou na resposta (opcional) */
+  path?: (string | number)[]
+  /** Informações adicionais definidas pelo servidor (opcional) */
+  extensions?: Record<string, unknown>
+}
+
+/**
+ * Resposta padronizada de uma operação GraphQL.
+ * No modo `lenient`, quando o servidor retorna dados parciais junto com erros,
+ * os erros são entregues em `errors` em vez de rejeitar a operação.
+ * 
+ * @example
+ * ```typescript
+ * const { data, errors } = await client.query<{ usuario: Usuario }>(query, { id })
+ * if (errors) {
+ *   console.warn('Campos com falha:', errors.map((error) => error.path?.join('.')))
+ * }
+ * ```
+ */
+export interface GraphQLResponse<T> extends ApiResponse<T> {
+  /** Erros retornados junto com dados parciais (opcional) */
+  errors?: GraphQLErrorItem[]
+}
+
+/**
+ * Tratamento de respostas que trazem dados parciais e erros ao mesmo tempo.
+ * - `lenient`: entrega os dados parciais com os erros em `errors` (`onSuccess`);
+ * - `strict`: rejeita com `GraphQLRequestError`, com os dados parciais em `partialData` (`onError`).
+ * 
+ * Respostas com erros e sem dados sempre rejeitam com `GraphQLRequestError`.
+ */
+export type GraphQLErrorMode = 'strict' | 'lenient'
+
+/**
+ * Tipo de uma operação GraphQL.
+ */
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription'
+
+/**
+ * Resultado da análise leve de um documento GraphQL.
+ */
+export interface GraphQLDocumentInfo {
+  /** Operações do documento; operações anônimas não possuem `name` */
+  operations: { type: GraphQLOperationType; name?: string }[]
+  /** Nomes dos fragmentos definidos no documento */
+  fragments: string[]
+  /** Nomes dos fragmentos referenciados com `...Nome` */
+  spreads: string[]
+}
+
+/**
+ * Callbacks de uma subscription GraphQL.
+ * 
+ * @example
+ * ```typescript
+ * const handlers: SubscriptionHandlers<{ votos: Placar }> = {
+ *   onNext: (response) => setPlacar(response.data.votos),
+ *   onError: (error) => console.error('Subscription encerrada:', error.message),
+ *   onComplete: () => console.log('Votação encerrada')
+ * }
+ * ```
+ */
+export interface SubscriptionHandlers<T> {
+  /** Chamado a cada evento recebido do servidor */
+  onNext?: (response: GraphQLResponse<T>) => void
+  /** Chamado quando a subscription falha; nenhum outro evento é entregue depois dele */
+  onError?: (error: ApiError) => void
+  /** Chamado quando o servidor encerra a subscription */
+  onComplete?: () => void
+}
+
+/**
+ * Handler de um evento do WebSocket.
+ * Declarado como método para aceitar os handlers das implementações, que recebem eventos mais
+ * completos (ex.: `MessageEvent` no navegador).
+ */
+export type WebSocketEventHandler<E> = { handle(event: E): void }['handle']
+
+/**
+ * Subconjunto da API de WebSocket usado pelas subscriptions.
+ * Compatível com o `WebSocket` do navegador e do React Native e com o pacote `ws` no Node.
+ * Nos testes, basta um objeto com estes membros que entregue as mensagens do servidor em `onmessage`.
+ */
+export interface WebSocketLike {
+  readonly protocol: string
+  send(data: string): void
+  close(code?: number, reason?: string): void
+  onopen: WebSocketEventHandler<unknown> | null
+  onmessage: WebSocketEventHandler<{ data: unknown }> | null
+  onclose: WebSocketEventHandler<{ code: number; reason: string }> | null
+  onerror: WebSocketEventHandler<unknown> | null
+}
+
+/**
+ * Construtor de WebSocket usado pelas subscriptions.
+ */
+export type WebSocketConstructor = new (url: string, protocols?: string | string[]) => WebSocketLike
+
+/**
+ * Configuração das subscriptions GraphQL (protocolo graphql-ws).
+ * 
+ * @example
+ * ```typescript
+ * const subscriptions: SubscriptionConfig = {
+ *   url: 'wss://api.exemplo.com/graphql',
+ *   connectionParams: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ *   retryAttempts: 10,
+ *   keepAlive: 15000
+ * }
+ * ```
+ */
+export interface SubscriptionConfig {
+  /** URL WebSocket do endpoint (padrão: `baseURL` do cliente com `http` trocado por `ws`) */
+  url?: string
+  /** Payload do `connection_init`, normalmente com o token de acesso; pode ser assíncrono */
+  connectionParams?:
+    | Record<string, unknown>
+    | (() => Record<string, unknown> | undefined | Promise<Record<string, unknown> | undefined>)
+  /** Implementação de WebSocket (padrão: `WebSocket` global) */
+  webSocketImpl?: WebSocketConstructor
+  /** Número máximo de reconexões consecutivas (padrão: 5) */
+  retryAttempts?: number
+  /** Atraso base em milissegundos do backoff exponencial de reconexão (padrão: 1000) */
+  retryDelay?: number
+  /** Atraso máximo em milissegundos entre reconexões (padrão: 30000) */
+  maxRetryDelay?: number
+  /** Decide se a conexão deve ser refeita após um fechamento (padrão: exceto códigos fatais do protocolo) */
+  shouldRetry?: (event: { code: number; reason: string }) => boolean
+  /** Tempo máximo em milissegundos para o `connection_ack` do servidor (padrão: 10000) */
+  connectionAckWaitTimeout?: number
+  /** Intervalo em milissegundos entre pings do cliente; 0 desativa (padrão: 0) */
+  keepAlive?: number
+}
+
+/**
+ * Configuração das Automatic Persisted Queries (APQ).
+ * As operações são enviadas apenas com o hash SHA-256 do documento em `extensions.persistedQuery`;
+ * se o servidor ainda não conhecer o hash, o documento completo é reenviado uma vez para registrá-lo.
+ * 
+ * @example
+ * ```typescript
+ * const persistedQueries: PersistedQueriesConfig = {
+ *   useGETForHashedQueries: true
+ * }
+ * ```
+ */
+export interface PersistedQueriesConfig {
+  /** Envia queries com hash via GET, permitindo cache em CDN (padrão: false; mutations usam sempre POST) */
+  useGETForHashedQueries?: boolean
+  /** Função de hash SHA-256 em hexadecimal (padrão: Web Crypto `crypto.subtle`) */
+  hash?: (document: string) => string | Promise<string>
+  /**
+   * Manifesto de hashes pré-registrados no servidor, indexado pelo documento.
+   * Com um manifesto, o documento completo nunca é enviado: operações fora do manifesto
+   * são rejeitadas antes do envio, como exigem servidores que aceitam apenas operações registradas.
+   */
+  manifest?: Record<string, string>
+}
+
+/**
+ * Configuração do agrupamento (batching) de operações GraphQL.
+ * As operações emitidas dentro da janela são enviadas em uma única requisição com um array JSON.
+ * 
+ * @example
+ * ```typescript
+ * const batch: GraphQLBatchConfig = {
+ *   window: 20,
+ *   maxBatchSize: 5
+ * }
+ * ```
+ */
+export interface GraphQLBatchConfig {
+  /** Tempo, em milissegundos, para aguardar outras operações antes do envio (padrão: 10) */
+  window?: number
+  /** Número máximo de operações por requisição; ao ser atingido, o lote é enviado imediatamente (padrão: 10) */
+  maxBatchSize?: number
 }
 
 export type { ApiResponse, ApiError, RequestCallbacks } 
\ No newline at end of file
@@ -25,6 +25,12 @@ export interface ApiError {
   code?: string
   /** Detalhes adicionais do erro (opcional) */
   details?: unknown
+  /** Número de tentativas realizadas até o erro final (opcional) */
+  attempts?: number
+  /** Configuração da requisição que falhou (opcional) */
+  config?: RequestConfig
+  /** Headers da resposta, quando houve resposta (opcional) */
+  headers?: Record<string, string>
 }
 
 /**
@@ -57,6 +63,8 @@ export interface ApiResponse<T> {
   status: number
   /** Mensagem descritiva do resultado */
   message: string
+  /** Headers da resposta, com os nomes em minúsculas (opcional) */
+  headers?: Record<string, string>
 }
 
 /**
@@ -90,6 +98,11 @@ export interface RequestCallbacks<T> {
   onSuccess?: (response: ApiResponse<T>) => void
   /** Função chamada quando ocorre um erro na requisição */
   onError?: (error: ApiError) => void
+  /**
+   * Função chamada quando a requisição é cancelada.
+   * Se não for informada, o cancelamento é entregue ao `onError`.
+   */
+  onCancel?: (error: ApiError) => void
 }
 
 /**
@@ -116,6 +129,20 @@ export interface ApiClientConfig {
   timeout?: number
   /** Headers customizados para todas as requisições (opcional) */
   headers?: Record<string, string>
+  /** Política de retentativa padrão para todas as requisições (opcional, desativada por padrão) */
+  retry?: RetryPolicy | false
+  /** Configuração de autenticação com injeção de token e renovação automática (opcional) */
+  auth?: AuthConfig
+  /**
+   * Cache de respostas GET (opcional, desativado por padrão).
+   * `true` ativa o cache em memória com as opções padrão.
+   */
+  cache?: CacheConfig | boolean
+  /**
+   * Compartilha uma única requisição entre chamadas GET idênticas e simultâneas
+   * (mesma URL, parâmetros e headers). Opcional, padrão: `true`.
+   */
+  dedupe?: boolean
 }
 
 /**
@@ -149,34 +176,156 @@ export interface RequestConfig {
   params?: Record<string, unknown>
   /** Timeout específico para esta requisição */
   timeout?: number
+  /**
+   * Política de retentativa para esta requisição.
+   * É combinada com a política do cliente; `false` desativa as retentativas.
+   */
+  retry?: RetryPolicy | false
+  /** Signal para cancelar a requisição (e as retentativas pendentes) */
+  signal?: AbortSignal
+  /**
+   * Ignora o módulo de autenticação nesta requisição: o token não é injetado
+   * e um 401 não dispara a renovação. Use na própria requisição de refresh.
+   */
+  skipAuth?: boolean
+  /**
+   * Opções de cache desta requisição (apenas GET).
+   * `false` ignora o cache; `true` ou um objeto ativa o cache mesmo que o cliente não o tenha configurado.
+   */
+  cache?: RequestCacheOptions | boolean
+  /**
+   * Invalida o recurso e sua coleção no cache após esta mutação (padrão: `invalidateOnMutation` do cache).
+   * Use `false` quando a URL não identifica o recurso alterado, como nas operações GraphQL.
+   */
+  invalidate?: boolean
+  /** Permite (ou impede, com `false`) que esta requisição GET seja compartilhada com chamadas idênticas em andamento */
+  dedupe?: boolean
+}
+
+/**
+ * Política de retentativa automática de requisições.
+ * Define quando uma requisição que falhou deve ser repetida e quanto tempo
+ * aguardar entre as tentativas (backoff exponencial com jitter).
+ * 
+ * Por padrão apenas métodos idempotentes são repetidos; POST e PATCH
+ * só são repetidos quando incluídos explicitamente em `methods`.
+ * 
+ * @example
+ * ```typescript
+ * const retry: RetryPolicy = {
+ *   maxAttempts: 4,
+ *   retryOnStatus: [429, 502, 503, 504],
+ *   baseDelay: 500,
+ *   maxDelay: 8000,
+ *   methods: ['GET', 'PUT', 'DELETE', 'POST']
+ * }
+ * ```
+ */
+export interface RetryPolicy {
+  /** Número máximo de tentativas, incluindo a primeira (padrão: 3) */
+  maxAttempts?: number
+  /** Status HTTP que permitem nova tentativa (padrão: 502, 503 e 504) */
+  retryOnStatus?: number[]
+  /** Códigos de erro de rede que permitem nova tentativa (padrão: ERR_NETWORK, ECONNABORTED, ECONNRESET, ECONNREFUSED e ETIMEDOUT) */
+  retryOnCodes?: string[]
+  /** Métodos HTTP que podem ser repetidos (padrão: GET, HEAD, OPTIONS, PUT e DELETE) */
+  methods?: string[]
+  /** Atraso base do backoff exponencial em milissegundos (padrão: 300) */
+  baseDelay?: number
+  /** Atraso máximo entre tentativas em milissegundos (padrão: 10000) */
+  maxDelay?: number
+  /** Aplica jitter aleatório ao atraso calculado (padrão: true) */
+  jitter?: boolean
+  /** Usa o header `Retry-After` da resposta quando presente (padrão: true) */
+  respectRetryAfter?: boolean
 }
 
 /**
  * Função interceptadora de requisições.
- * Permite modificar a configuração da requisição antes do envio.
+ * Permite modificar a configuração da requisição antes do envio, de forma síncrona ou assíncrona.
+ * Retornar uma `ApiResponse` encerra a requisição sem acessá-la pela rede.
  * 
  * @param config Configuração da requisição
- * @returns Configuração modificada da requisição
+ * @returns Configuração modificada da requisição ou uma resposta sintética
  */
-export type RequestInterceptor = (config: RequestConfig) => RequestConfig
+export type RequestInterceptor = (
+  config: RequestConfig
+) => RequestConfig | ApiResponse<unknown> | Promise<RequestConfig | ApiResponse<unknown>>
+
+/**
+ * Opções de registro de um interceptador.
+ * 
+ * @example
+ * ```typescript
+ * // Executa antes dos interceptadores registrados com prioridade padrão
+ * api.addRequestInterceptor(assinarRequisicao, { priority: 10 })
+ * ```
+ */
+export interface InterceptorOptions {
+  /**
+   * Prioridade de execução (padrão: 0).
+   * Interceptadores com maior prioridade executam primeiro; em caso de empate, vale a ordem de registro.
+   */
+  priority?: number
+}
+
+/**
+ * Contexto entregue aos interceptadores de resposta e de erro.
+ * Identifica a requisição que originou o resultado e permite repeti-la
+ * pelo pipeline completo (autenticação, interceptadores, retentativas).
+ * 
+ * @example
+ * ```typescript
+ * api.addErrorInterceptor(async (error, context) => {
+ *   // Tenta um endpoint alternativo apenas uma vez
+ *   if (error.status === 503 && context.config.url === '/relatorios') {
+ *     return context.retry({ url: '/relatorios-backup' })
+ *   }
+ *   return error
+ * })
+ * ```
+ */
+export interface InterceptorContext {
+  /** Configuração final da requisição, após os interceptadores de requisição */
+  config: RequestConfig
+  /** Número de tentativas HTTP realizadas até aqui, incluindo repetições anteriores */
+  attempt: number
+  /**
+   * Repete a requisição original pelo pipeline completo.
+   * A configuração informada é combinada com a configuração original.
+   * 
+   * @param config Alterações a serem aplicadas à requisição original (opcional)
+   * @returns Promise com a nova resposta padronizada, que rejeita com `ApiError`
+   */
+  retry: <T = unknown>(config?: RequestConfig) => Promise<ApiResponse<T>>
+}
 
 /**
  * Função interceptadora de respostas.
- * Permite processar a resposta antes de retorná-la para o callback.
+ * Permite processar a resposta antes de retorná-la para o callback, de forma síncrona ou assíncrona.
  * 
  * @param response Resposta da requisição
+ * @param context Contexto da requisição que originou a resposta
  * @returns Resposta processada
  */
-export type ResponseInterceptor = <T>(response: ApiResponse<T>) => ApiResponse<T>
+export type ResponseInterceptor = <T>(
+  response: ApiResponse<T>,
+  context: InterceptorContext
+) => ApiResponse<T> | Promise<ApiResponse<T>>
 
 /**
  * Função interceptadora de erros.
- * Permite processar erros antes de retorná-los para o callback.
+ * Permite processar erros antes de retorná-los para o callback,
+ * ou recuperar a requisição retornando uma nova resposta (por exemplo via `context.retry()`).
  * 
  * @param error Erro da requisição
+ * @param context Contexto da requisição que originou o erro
  * @returns Erro processado ou uma nova resposta
  */
-export type ErrorInterceptor = (error: ApiError) => ApiError | Promise<ApiResponse<unknown>>
+export type ErrorInterceptor = (
+  error: ApiError,
+  context: InterceptorContext
+) => ApiError | ApiResponse<unknown> | Promise<ApiError | ApiResponse<unknown>>
 
 /**
  * Parâmetros de query string para requisições GET e DELETE.
@@ -197,3 +346,288 @@ export type ErrorInterceptor = (error: ApiError) => ApiError | Promise<ApiRespon
 export interface QueryParams {
   [key: string]: string | number | boolean | undefined
 }
+
+/**
+ * Par de tokens de autenticação.
+ */
+export interface AuthTokens {
+  /** Token de acesso enviado no header de autorização */
+  accessToken: string
+  /** Token usado para obter um novo token de acesso (opcional) */
+  refreshToken?: string
+}
+
+/**
+ * Provedor de tokens usado pelo módulo de autenticação.
+ * Permite armazenar os tokens onde for mais adequado (memória, localStorage,
+ * AsyncStorage, keychain...). Todos os métodos podem ser síncronos ou assíncronos.
+ * 
+ * @example
+ * ```typescript
+ * const tokenProvider: TokenProvider = {
+ *   getAccessToken: () => localStorage.getItem('accessToken'),
+ *   getRefreshToken: () => localStorage.getItem('refreshToken'),
+ *   setTokens: ({ accessToken, refreshToken }) => {
+ *     localStorage.setItem('accessToken', accessToken)
+ *     if (refreshToken) localStorage.setItem('refreshToken', refreshToken)
+ *   },
+ *   clearTokens: () => {
+ *     localStorage.removeItem('accessToken')
+ *     localStorage.removeItem('refreshToken')
+ *   }
+ * }
+ * ```
+ */
+export interface TokenProvider {
+  /** Retorna o token de acesso atual */
+  getAccessToken(): string | null | undefined | Promise<string | null | undefined>
+  /** Retorna o refresh token atual */
+  getRefreshToken(): string | null | undefined | Promise<string | null | undefined>
+  /** Armazena os novos tokens após uma renovação */
+  setTokens(tokens: AuthTokens): void | Promise<void>
+  /** Remove os tokens armazenados */
+  clearTokens(): void | Promise<void>
+}
+
+/**
+ * Configuração do módulo de autenticação do `ApiClient`.
+ * 
+ * @example
+ * ```typescript
+ * const api = new ApiClient({
+ *   baseURL: 'https://api.exemplo.com',
+ *   auth: {
+ *     tokenProvider,
+ *     refreshTokens: async (refreshToken) => {
+ *       const { data } = await api.request<AuthTokens>({
+ *         url: '/auth/refresh',
+ *         method: 'POST',
+ *         data: { refreshToken },
+ *         skipAuth: true
+ *       })
+ *       return data
+ *     },
+ *     onAuthFailure: () => router.push('/login')
+ *   }
+ * })
+ * ```
+ */
+export interface AuthConfig {
+  /** Provedor responsável por ler e gravar os tokens */
+  tokenProvider: TokenProvider
+  /**
+   * Obtém um novo par de tokens a partir do refresh token.
+   * Se a requisição for feita com o mesmo cliente, use `skipAuth: true`: sem ele, a requisição
+   * aguarda a própria renovação, que falha ao atingir `refreshTimeout`.
+   */
+  refreshTokens: (refreshToken: string | null | undefined) => Promise<AuthTokens>
+  /** Tempo limite da renovação em milissegundos; ao atingi-lo, a renovação é tratada como falha (padrão: 30000) */
+  refreshTimeout?: number
+  /** Chamado quando a renovação falha; use para forçar o logout (opcional) */
+  onAuthFailure?: (error: unknown) => void
+  /** Decide se um erro deve disparar a renovação (padrão: status 401) */
+  shouldRefresh?: (error: ApiError) => boolean
+  /** Nome do header de autorização (padrão: 'Authorization') */
+  headerName?: string
+  /** Esquema usado antes do token (padrão: 'Bearer') */
+  scheme?: string
+}
+
+/**
+ * Entrada armazenada no cache de respostas.
+ */
+export interface CacheEntry {
+  /** Resposta padronizada armazenada */
+  response: ApiResponse<unknown>
+  /** Momento (timestamp) em que a resposta foi armazenada ou revalidada */
+  storedAt: number
+  /** Momento a partir do qual a resposta deixa de ser considerada fresca */
+  expiresAt: number
+  /** Momento até o qual a resposta ainda pode ser servida enquanto é revalidada */
+  staleUntil: number
+  /** Valor do header `ETag` da resposta (opcional) */
+  etag?: string
+  /** Valor do header `Last-Modified` da resposta (opcional) */
+  lastModified?: string
+}
+
+/**
+ * Armazenamento plugável do cache de respostas.
+ * Todos os métodos podem ser síncronos ou assíncronos.
+ */
+export interface CacheStore {
+  /** Retorna a entrada armazenada para a chave */
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+  /** Armazena uma entrada */
+  set(key: string, entry: CacheEntry): void | Promise<void>
+  /** Remove uma entrada */
+  delete(key: string): void | Promise<void>
+  /** Remove várias entradas de uma vez (opcional; sem ele, `delete` é chamado para cada chave) */
+  deleteMany?(keys: string[]): void | Promise<void>
+  /** Lista todas as chaves armazenadas */
+  keys(): string[] | Promise<string[]>
+  /** Remove todas as entradas */
+  clear(): void | Promise<void>
+}
+
+/**
+ * Storage chave/valor usado para persistir o cache.
+ * Compatível com `localStorage`, `sessionStorage` e `AsyncStorage`.
+ */
+export interface StorageLike {
+  getItem(key: string): string | null | Promise<string | null>
+  setItem(key: string, value: string): void | Promise<void>
+  removeItem(key: string): void | Promise<void>
+}
+
+/**
+ * Opções de cache de uma requisição GET.
+ * 
+ * @example
+ * ```typescript
+ * api.request({
+ *   url: '/agendas',
+ *   cache: { ttl: 30000, staleWhileRevalidate: 300000 }
+ * }, {
+ *   // Chamado com os dados em cache e novamente com os dados revalidados
+ *   onSuccess: (response) => setAgendas(response.data)
+ * })
+ * ```
+ */
+export interface RequestCacheOptions {
+  /** Tempo em milissegundos durante o qual a resposta é considerada fresca */
+  ttl?: number
+  /**
+   * Janela em milissegundos, após o `ttl`, em que a resposta em cache ainda é entregue
+   * enquanto uma nova versão é buscada em segundo plano
+   */
+  staleWhileRevalidate?: number
+  /** Chave customizada (padrão: URL com os parâmetros de query ordenados) */
+  key?: string
+}
+
+/**
+ * Configuração do cache de respostas do `ApiClient`.
+ * 
+ * @example
+ * ```typescript
+ * const api = new ApiClient({
+ *   baseURL: 'https://api.exemplo.com',
+ *   cache: {
+ *     ttl: 60000,
+ *     staleWhileRevalidate: 300000,
+ *     store: new StorageCacheStore(localStorage)
+ *   }
+ * })
+ * ```
+ */
+export interface CacheConfig {
+  /** Armazenamento das respostas (padrão: `MemoryCacheStore` com 100 entradas) */
+  store?: CacheStore
+  /** Tempo padrão em milissegundos durante o qual a resposta é considerada fresca (padrão: 60000) */
+  ttl?: number
+  /** Janela padrão de stale-while-revalidate em milissegundos (padrão: 0) */
+  staleWhileRevalidate?: number
+  /** Invalida o recurso e sua coleção após POST, PUT, PATCH ou DELETE bem-sucedidos (padrão: true) */
+  invalidateOnMutation?: boolean
+}
+
+/**
+ * Paginação por deslocamento: `?offset=0&limit=50`, `?offset=50&limit=50`...
+ * A última página é a que traz menos itens que `limit`.
+ */
+export interface OffsetPagination {
+  type: 'offset'
+  /** Itens por página */
+  limit: number
+  /** Deslocamento da primeira página (opcional, padrão: 0) */
+  start?: number
+  /** Nome do parâmetro de deslocamento (opcional, padrão: 'offset') */
+  offsetParam?: string
+  /** Nome do parâmetro de limite (opcional, padrão: 'limit') */
+  limitParam?: string
+  /** Páginas buscadas em paralelo, à frente da página atual (opcional, padrão: 1) */
+  concurrency?: number
+}
+
+/**
+ * Paginação por número de página: `?page=1&pageSize=50`, `?page=2&pageSize=50`...
+ * Com `pageSize`, a última página é a que traz menos itens; sem ele, a primeira página vazia.
+ */
+export interface PagePagination {
+  type: 'page'
+  /** Itens por página, enviado em `pageSizeParam` (opcional) */
+  pageSize?: number
+  /** Número da primeira página (opcional, padrão: 1) */
+  firstPage?: number
+  /** Nome do parâmetro da página (opcional, padrão: 'page') */
+  pageParam?: string
+  /** Nome do parâmetro de itens por página (opcional, padrão: 'pageSize') */
+  pageSizeParam?: string
+  /** Páginas buscadas em paralelo, à frente da página atual (opcional, padrão: 1) */
+  concurrency?: number
+}
+
+/**
+ * Paginação por cursor: o cursor da próxima página é lido da resposta e enviado em `cursorParam`.
+ * A última página é a que não traz cursor.
+ */
+export interface CursorPagination<D = unknown> {
+  type: 'cursor'
+  /** Extrai da resposta o cursor da próxima página (`null` ou `undefined` na última) */
+  getCursor: (response: ApiResponse<D>) => string | number | null | undefined
+  /** Nome do parâmetro do cursor (opcional, padrão: 'cursor') */
+  cursorParam?: string
+}
+
+/**
+ * Paginação pelo header `Link` (RFC 8288): a próxima página é a URL com `rel="next"`.
+ */
+export interface LinkPagination {
+  type: 'link'
+}
+
+/**
+ * Estratégia usada para buscar as páginas de um endpoint de listagem.
+ * `D` é o tipo do corpo de cada página, recebido por `getCursor`.
+ */
+export type PaginationStrategy<D = unknown> = OffsetPagination | PagePagination | CursorPagination<D> | LinkPagination
+
+/**
+ * Opções de `ApiClient.paginate`.
+ * `T` é o tipo dos itens e `D` o tipo do corpo de cada página (padrão: `unknown`).
+ * 
+ * @example
+ * ```typescript
+ * const options: PaginateOptions<Pedido, { items: Pedido[]; nextCursor?: string }> = {
+ *   strategy: { type: 'cursor', getCursor: (response) => response.data.nextCursor },
+ *   params: { status: 'ABERTO' },
+ *   getItems: (response) => response.data.items,
+ *   maxItems: 500
+ * }
+ * ```
+ */
+export interface PaginateOptions<T, D = unknown> {
+  /** Estratégia de paginação */
+  strategy: PaginationStrategy<D>
+  /** Parâmetros de query string enviados em todas as páginas (opcional) */
+  params?: QueryParams
+  /** Extrai os itens da resposta (opcional, padrão: o corpo, que deve ser uma lista) */
+  getItems?: (response: ApiResponse<D>) => T[]
+  /** Número máximo de itens retornados (opcional) */
+  maxItems?: number
+  /** Signal para interromper a paginação (opcional) */
+  signal?: AbortSignal
+}
+
+/**
+ * Página entregue pela iteração de um `Paginator`.
+ */
+export interface Page<T, R = ApiResponse<unknown>> {
+  /** Itens da página */
+  items: T[]
+  /** Posição da página na iteração, a partir de 0 */
+  index: number
+  /** Resposta da requisição da página */
+  response: R
+}
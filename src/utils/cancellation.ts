@@ -0,0 +1,39 @@
+import { ApiError } from '../types/types'
+import { CANCELLED_ERROR_CODE, CancelledError } from './errors'
+
+/**
+ * Cria o erro padronizado de cancelamento.
+ * Requisições canceladas não recebem resposta, por isso o status é 0.
+ * 
+ * @param reason Motivo do cancelamento (opcional)
+ * @returns Erro de cancelamento
+ */
+export function createCancelledError(reason?: unknown): CancelledError {
+  return new CancelledError(reason)
+}
+
+/**
+ * Verifica se um erro representa uma requisição cancelada.
+ * 
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ * @returns `true` se a requisição foi cancelada
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   const { data } = await api.request({ url: '/busca', params: { q }, signal })
+ *   setResultados(data)
+ * } catch (error) {
+ *   if (!isCancelledError(error)) {
+ *     setErro((error as ApiError).message)
+ *   }
+ * }
+ * ```
+ */
+export function isCancelledError(error: unknown): error is ApiError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as ApiError).code === CANCELLED_ERROR_CODE
+  )
+}
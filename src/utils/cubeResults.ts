@@ -0,0 +1,357 @@
+import {
+  CubePivot,
+  CubePivotOptions,
+  CubeRow,
+  CubeRowValue,
+  CubeSeries,
+  CubeTimeBucketOptions,
+} from '../types/cube'
+import { CubeTimeGranularity } from '../types/graphql'
+import { ApiRequestError } from './errors'
+
+/**
+ * Código do erro produzido quando `fillCubeTimeBuckets` criaria mais intervalos que `maxBuckets`.
+ */
+export const CUBE_TIME_BUCKETS_LIMIT = 'CUBE_TIME_BUCKETS_LIMIT'
+
+/**
+ * Números escritos como texto pelo Cube, sem zeros à esquerda (que indicam códigos, como CEPs).
+ * @internal
+ */
+const NUMERIC_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/
+
+/**
+ * Duração dos intervalos de tamanho fixo, em milissegundos.
+ * @internal
+ */
+const FIXED_STEPS: Partial<Record<CubeTimeGranularity, number>> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Limite padrão de intervalos de `fillCubeTimeBuckets` (um ano de horas cabe nele).
+ * @internal
+ */
+const DEFAULT_MAX_BUCKETS = 10000
+
+/**
+ * Meses de cada intervalo de tamanho variável.
+ * @internal
+ */
+const MONTH_STEPS: Partial<Record<CubeTimeGranularity, number>> = { month: 1, quarter: 3, year: 12 }
+
+/**
+ * Converte um valor numérico (ou número escrito como texto) em número.
+ * @internal
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+/**
+ * Chave usada para agrupar valores, sem confundir `null` com o texto "null" nem `1` com "1".
+ * @internal
+ */
+function valueKey(value: unknown): string {
+  return value === null || value === undefined ? 'null' : `${typeof value}:${String(value)}`
+}
+
+/**
+ * Interpreta uma data do Cube; datas sem fuso horário (ex.: '2024-01-01T00:00:00.000') são tratadas como UTC.
+ * @internal
+ */
+function parseTime(value: unknown): number | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value.getTime()
+  }
+  if (typeof value !== 'string') {
+    return undefined
+  }
+
+  const hasZone = /([zZ]|[+-]\d\d:?\d\d)$/.test(value)
+  const time = Date.parse(value.includes('T') && !hasZone ? `${value}Z` : value)
+  return Number.isNaN(time) ? undefined : time
+}
+
+/**
+ * Formata o início de um intervalo como o Cube: '2024-01-01T00:00:00.000'.
+ * @internal
+ */
+function formatTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 23)
+}
+
+/**
+ * Início do intervalo que contém a data; semanas começam na segunda-feira.
+ * @internal
+ */
+function truncateTime(time: number, granularity: CubeTimeGranularity): number {
+  const date = new Date(time)
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+  switch (granularity) {
+    case 'year':
+      return Date.UTC(year, 0, 1)
+    case 'quarter':
+      return Date.UTC(year, month - (month % 3), 1)
+    case 'month':
+      return Date.UTC(year, month, 1)
+    case 'week':
+      return Date.UTC(year, month, date.getUTCDate() - ((date.getUTCDay() + 6) % 7))
+    case 'day':
+      return Date.UTC(year, month, date.getUTCDate())
+    default:
+      return time - (time % (FIXED_STEPS[granularity] as number))
+  }
+}
+
+/**
+ * Início do intervalo seguinte.
+ * @internal
+ */
+function nextTime(time: number, granularity: CubeTimeGranularity): number {
+  const months = MONTH_STEPS[granularity]
+  if (months === undefined) {
+    return time + (FIXED_STEPS[granularity] as number)
+  }
+  const date = new Date(time)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+}
+
+/**
+ * Achata as linhas do `CubeGraphQLClient`, aninhadas por entidade, em linhas com chaves `entidade.campo`.
+ * Dimensões de tempo selecionadas com granularidade viram `entidade.campo.granularidade`,
+ * o mesmo formato das linhas do `CubeRestClient`.
+ * 
+ * @param rows Linhas retornadas por `CubeGraphQLClient.query`
+ * @returns Linhas planas
+ * 
+ * @example
+ * ```typescript
+ * const { data } = await cube.query('/cubejs-api/graphql', {
+ *   fields: { vendas: { total: true, status: true } },
+ *   timeDimensions: [{ entity: 'vendas', dimension: 'criadoEm', granularity: 'month' }]
+ * })
+ * flattenCubeRows(data)
+ * // [{ 'vendas.total': '1500', 'vendas.status': 'APROVADA', 'vendas.criadoEm.month': '2024-01-01T00:00:00.000' }, ...]
+ * ```
+ */
+export function flattenCubeRows(rows: unknown): CubeRow[] {
+  if (!Array.isArray(rows)) {
+    return []
+  }
+
+  const flatten = (target: CubeRow, value: unknown, prefix: string): CubeRow => {
+    for (const [key, nested] of Object.entries(value || {})) {
+      const path = prefix ? `${prefix}.${key}` : key
+      if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+        flatten(target, nested, path)
+      } else {
+        target[path] = (nested ?? null) as CubeRowValue
+      }
+    }
+    return target
+  }
+  return rows.map((row) => flatten({}, row, ''))
+}
+
+/**
+ * Converte em números as medidas que o Cube retorna como texto (ex.: `'1500.50'` → `1500.5`).
+ * Apenas as colunas de `members` são convertidas, para que dimensões numéricas como anos,
+ * IDs e CEPs continuem como texto; com o `CubeRestClient`, use `Object.keys(resultSet.annotation.measures)`.
+ * 
+ * @param rows Linhas planas
+ * @param members Colunas a converter
+ * @returns Novas linhas com os números convertidos
+ * 
+ * @example
+ * ```typescript
+ * parseCubeNumbers([{ 'vendas.total': '1500.50', 'vendas.ano': '2024' }], ['vendas.total'])
+ * // [{ 'vendas.total': 1500.5, 'vendas.ano': '2024' }]
+ * ```
+ */
+export function parseCubeNumbers(rows: CubeRow[], members: string[]): CubeRow[] {
+  return rows.map((row) => {
+    const parsed: CubeRow = { ...row }
+    for (const member of members) {
+      const value = row[member]
+      if (typeof value === 'string' && toNumber(value) !== null) {
+        parsed[member] = Number(value)
+      }
+    }
+    return parsed
+  })
+}
+
+/**
+ * Soma as medidas de todas as linhas; valores nulos ou não numéricos são ignorados.
+ * 
+ * @param rows Linhas planas
+ * @param measures Colunas a somar (opcional, padrão: as colunas com apenas valores numéricos)
+ * @returns Total de cada coluna
+ * 
+ * @example
+ * ```typescript
+ * computeCubeTotals(linhas, ['vendas.total', 'vendas.quantidade'])
+ * // { 'vendas.total': 48230.5, 'vendas.quantidade': 312 }
+ * ```
+ */
+export function computeCubeTotals(rows: CubeRow[], measures?: string[]): Record<string, number> {
+  const columns =
+    measures ||
+    [...new Set(rows.flatMap((row) => Object.keys(row)))].filter((column) => {
+      const values = rows.map((row) => row[column]).filter((value) => value !== null && value !== undefined)
+      return (
+        values.length > 0 &&
+        values.every((value) => typeof value === 'number' || (typeof value === 'string' && NUMERIC_PATTERN.test(value)))
+      )
+    })
+
+  const totals: Record<string, number> = {}
+  for (const column of columns) {
+    totals[column] = rows.reduce((sum, row) => sum + (toNumber(row[column]) ?? 0), 0)
+  }
+  return totals
+}
+
+/**
+ * Organiza as linhas em séries para gráficos: as categorias vêm da coluna `x` e há uma série
+ * por valor de `by` (e por medida, quando há várias). Linhas repetidas na mesma categoria e série são somadas,
+ * e linhas sem a coluna `by` apenas acrescentam a sua categoria.
+ * 
+ * @param rows Linhas planas
+ * @param options Colunas do eixo X, das medidas e do agrupamento
+ * @returns Categorias e séries, com um valor por categoria
+ * 
+ * @example
+ * ```typescript
+ * const { categories, series } = pivotCubeRows(linhas, {
+ *   x: 'vendas.criadoEm.month',
+ *   by: 'vendas.status',
+ *   measures: 'vendas.total',
+ *   fill: 0
+ * })
+ * // categories: ['2024-01-01T00:00:00.000', '2024-02-01T00:00:00.000']
+ * // series: [{ key: 'APROVADA', group: 'APROVADA', measure: 'vendas.total', data: [1500, 0] }, ...]
+ * ```
+ */
+export function pivotCubeRows(rows: CubeRow[], options: CubePivotOptions): CubePivot {
+  const { x, by } = options
+  const measures = Array.isArray(options.measures) ? options.measures : [options.measures]
+  const fill = options.fill === undefined ? null : options.fill
+
+  const categories = new Map<string, CubeRowValue>()
+  const groups = new Map<string, CubeRowValue>()
+  const cells = new Map<string, number>()
+  for (const row of rows) {
+    const category = valueKey(row[x])
+    const group = by ? valueKey(row[by]) : ''
+    if (!categories.has(category)) {
+      categories.set(category, row[x] ?? null)
+    }
+    // Linhas sem a coluna `by` (ex.: criadas por `fillCubeTimeBuckets`) apenas completam as categorias
+    if (by && !(by in row)) {
+      continue
+    }
+    if (!groups.has(group)) {
+      groups.set(group, by ? row[by] ?? null : null)
+    }
+    for (const measure of measures) {
+      const value = toNumber(row[measure])
+      if (value !== null) {
+        const cell = `${group}\u0000${measure}\u0000${category}`
+        cells.set(cell, (cells.get(cell) ?? 0) + value)
+      }
+    }
+  }
+
+  const series: CubeSeries[] = []
+  for (const [group, groupValue] of groups) {
+    for (const measure of measures) {
+      const name = String(groupValue)
+      series.push({
+        key: !by ? measure : measures.length > 1 ? `${name},${measure}` : name,
+        measure,
+        ...(by ? { group: groupValue } : {}),
+        data: [...categories.keys()].map((category) => cells.get(`${group}\u0000${measure}\u0000${category}`) ?? fill),
+      })
+    }
+  }
+  return { categories: [...categories.values()], series }
+}
+
+/**
+ * Completa os intervalos de tempo sem dados, para que gráficos não pulem meses ou dias vazios.
+ * As linhas são ordenadas pela dimensão de tempo, e cada intervalo ausente recebe uma linha
+ * com a data de início e os valores de `values`. Linhas sem data válida ficam no final.
+ * 
+ * @param rows Linhas planas
+ * @param options Dimensão de tempo, granularidade, intervalo, valores das linhas criadas e limite de intervalos
+ * @returns Novas linhas com todos os intervalos
+ * @throws `ApiRequestError` (código `CUBE_TIME_BUCKETS_LIMIT`) se o intervalo tiver mais que `maxBuckets` intervalos
+ * 
+ * @example
+ * ```typescript
+ * fillCubeTimeBuckets([
+ *   { 'vendas.criadoEm.month': '2024-01-01T00:00:00.000', 'vendas.total': 1500 },
+ *   { 'vendas.criadoEm.month': '2024-03-01T00:00:00.000', 'vendas.total': 900 }
+ * ], { dimension: 'vendas.criadoEm.month', granularity: 'month', values: { 'vendas.total': 0 } })
+ * // [..., { 'vendas.criadoEm.month': '2024-02-01T00:00:00.000', 'vendas.total': 0 }, ...]
+ * ```
+ */
+export function fillCubeTimeBuckets(rows: CubeRow[], options: CubeTimeBucketOptions): CubeRow[] {
+  const { dimension, granularity, dateRange, values = {}, maxBuckets = DEFAULT_MAX_BUCKETS } = options
+  const buckets = new Map<number, CubeRow[]>()
+  const untimed: CubeRow[] = []
+  for (const row of rows) {
+    const time = parseTime(row[dimension])
+    if (time === undefined) {
+      untimed.push(row)
+      continue
+    }
+    const bucket = truncateTime(time, granularity)
+    const bucketRows = buckets.get(bucket)
+    if (bucketRows) {
+      bucketRows.push(row)
+    } else {
+      buckets.set(bucket, [row])
+    }
+  }
+
+  // O intervalo informado é ampliado, se preciso, para não descartar linhas fora dele
+  const bounds = [...buckets.keys()]
+  for (const limit of dateRange || []) {
+    const time = parseTime(limit)
+    if (time !== undefined) {
+      bounds.push(truncateTime(time, granularity))
+    }
+  }
+  if (bounds.length === 0) {
+    return [...rows]
+  }
+
+  const start = bounds.reduce((min, time) => Math.min(min, time))
+  const end = bounds.reduce((max, time) => Math.max(max, time))
+  const filled: CubeRow[] = []
+  for (let time = start, count = 1; time <= end; time = nextTime(time, granularity), count++) {
+    if (count > maxBuckets) {
+      throw new ApiRequestError(`O preenchimento excede o limite de ${maxBuckets} intervalos de "${granularity}"`, {
+        code: CUBE_TIME_BUCKETS_LIMIT,
+        details: { start: formatTime(start), end: formatTime(end), granularity, maxBuckets },
+      })
+    }
+    filled.push(...(buckets.get(time) || [{ ...values, [dimension]: formatTime(time) }]))
+  }
+  return [...filled, ...untimed]
+}
@@ -0,0 +1,340 @@
+import { CubeMemberKind, CubeMeta, CubeMetaMember, CubeTypeGeneratorOptions } from '../types/cube'
+import { CubeQueryFilter, CubeQueryOptions } from '../types/graphql'
+
+/**
+ * Membro indexado do schema, com a categoria e o tipo usado nos filtros.
+ * @internal
+ */
+interface SchemaMember {
+  category: 'measure' | 'dimension'
+  kind?: CubeMemberKind
+}
+
+/**
+ * Membros de cada cube, indexados (assim como os cubes) pela chave normalizada do nome.
+ * @internal
+ */
+type SchemaIndex = Map<string, Map<string, SchemaMember>>
+
+/**
+ * Nó da árvore de filtros percorrida pela validação, verificado em tempo de execução.
+ * @internal
+ */
+type FilterTree = Record<string, unknown>
+
+/**
+ * Operadores de filtro aplicáveis a cada tipo de membro.
+ * @internal
+ */
+const KIND_OPERATORS: Record<CubeMemberKind, string[]> = {
+  number: ['equals', 'notEquals', 'in', 'notIn', 'set', 'notSet', 'gt', 'gte', 'lt', 'lte'],
+  string: [
+    'equals', 'notEquals', 'in', 'notIn', 'set', 'notSet',
+    'contains', 'notContains', 'startsWith', 'notStartsWith', 'endsWith', 'notEndsWith',
+  ],
+  time: [
+    'equals', 'notEquals', 'in', 'notIn', 'set', 'notSet',
+    'inDateRange', 'notInDateRange', 'beforeDate', 'beforeOrOnDate', 'afterDate', 'afterOrOnDate',
+  ],
+  boolean: ['equals', 'notEquals', 'in', 'notIn', 'set', 'notSet'],
+}
+
+/**
+ * Todos os operadores conhecidos; os demais são rejeitados na construção da query.
+ * @internal
+ */
+const KNOWN_OPERATORS = new Set(Object.values(KIND_OPERATORS).flat())
+
+/**
+ * Tipos de medida numéricos informados pelo `/meta`.
+ * @internal
+ */
+const NUMBER_TYPES = ['number', 'count', 'countDistinct', 'countDistinctApprox', 'sum', 'avg', 'min', 'max', 'runningTotal']
+
+/**
+ * Índices já calculados para cada resposta do `/meta`.
+ * @internal
+ */
+const schemaIndexes = new WeakMap<CubeMeta, SchemaIndex>()
+
+/**
+ * Chave usada para comparar nomes: o GraphQL do Cube expõe cubes e membros em camelCase,
+ * enquanto o `/meta` usa os nomes do modelo, muitas vezes em snake_case.
+ * @internal
+ */
+function schemaKey(name: string): string {
+  return name.replace(/_/g, '').toLowerCase()
+}
+
+/**
+ * Converte um nome do modelo para camelCase (`total_vendas` → `totalVendas`).
+ * @internal
+ */
+function toCamelCase(name: string): string {
+  const camel = name.replace(/[_\s-]+([A-Za-z0-9])/g, (_, char: string) => char.toUpperCase())
+  return camel.charAt(0).toLowerCase() + camel.slice(1)
+}
+
+/**
+ * Determina o tipo de um membro para a validação dos filtros.
+ * @internal
+ */
+function memberKind(member: CubeMetaMember): CubeMemberKind | undefined {
+  if (member.type === 'time' || member.type === 'string' || member.type === 'boolean') {
+    return member.type
+  }
+  return NUMBER_TYPES.includes(member.type || '') ? 'number' : undefined
+}
+
+/**
+ * Nome de um membro sem o prefixo do cube (`vendas.total` → `total`).
+ * @internal
+ */
+function shortName(member: CubeMetaMember): string {
+  return member.name.slice(member.name.indexOf('.') + 1)
+}
+
+/**
+ * Indexa os cubes e membros do `/meta` pela chave normalizada dos nomes.
+ * @internal
+ */
+function indexSchema(meta: CubeMeta): SchemaIndex {
+  const cached = schemaIndexes.get(meta)
+  if (cached) {
+    return cached
+  }
+
+  const index: SchemaIndex = new Map()
+  for (const cube of meta.cubes || []) {
+    const members = new Map<string, SchemaMember>()
+    const add = (member: CubeMetaMember, category: SchemaMember['category']) =>
+      members.set(schemaKey(shortName(member)), { category, kind: memberKind(member) })
+    cube.measures?.forEach((member) => add(member, 'measure'))
+    cube.dimensions?.forEach((member) => add(member, 'dimension'))
+    index.set(schemaKey(cube.name), members)
+  }
+  schemaIndexes.set(meta, index)
+  return index
+}
+
+/**
+ * Retorna o tipo de um membro do schema, como em `validateCubeQuery`, sem diferenciar camelCase e snake_case.
+ * Passado a `buildCubeOperation`, declara as variáveis de `equals`/`in` com o tipo do membro.
+ * 
+ * @param meta Schema retornado pelo `/meta` do Cube
+ * @param member Nome completo do membro (`vendas.total`)
+ * @returns Tipo do membro, ou `undefined` se o membro ou seu tipo forem desconhecidos
+ * 
+ * @example
+ * ```typescript
+ * const { data: meta } = await cubeRest.meta()
+ * getCubeMemberKind(meta, 'vendas.total') // 'number'
+ * 
+ * const { query, variables } = buildCubeOperation(options, (member) => getCubeMemberKind(meta, member))
+ * ```
+ */
+export function getCubeMemberKind(meta: CubeMeta, member: string): CubeMemberKind | undefined {
+  const separator = member.indexOf('.')
+  if (separator < 0) {
+    return undefined
+  }
+  const cube = indexSchema(meta).get(schemaKey(member.slice(0, separator)))
+  return cube?.get(schemaKey(member.slice(separator + 1)))?.kind
+}
+
+/**
+ * Percorre os mapas de filtros de uma árvore com grupos `AND`, `OR` e `NOT`.
+ * @internal
+ */
+function forEachFilterMap(tree: unknown, visit: (filters: FilterTree) => void): void {
+  if (!tree || typeof tree !== 'object' || Array.isArray(tree)) {
+    return
+  }
+  const where = tree as FilterTree
+  const group = Array.isArray(where.AND) ? where.AND : Array.isArray(where.OR) ? where.OR : undefined
+  if (group) {
+    for (const condition of group) {
+      forEachFilterMap(condition, visit)
+    }
+    return
+  }
+  if (where.NOT) {
+    forEachFilterMap(where.NOT, visit)
+    return
+  }
+  visit(where)
+}
+
+/**
+ * Valida as opções de uma consulta do `CubeGraphQLClient` contra o schema retornado pelo `/meta`.
+ * São apontados cubes e membros desconhecidos, medidas e dimensões trocadas em `cubes`,
+ * dimensões de tempo que não são do tipo `time` e operadores de filtro incompatíveis com o tipo do membro
+ * (ex.: `contains` em uma medida numérica). Os nomes são comparados sem diferenciar camelCase e snake_case.
+ * 
+ * @param options Opções da consulta
+ * @param meta Schema retornado pelo `/meta` do Cube
+ * @returns Lista de problemas encontrados (vazia se a consulta for válida)
+ * 
+ * @example
+ * ```typescript
+ * const { data: meta } = await cubeRest.meta()
+ * const problemas = validateCubeQuery({
+ *   fields: { vendas: { totl: true } },
+ *   where: { vendas: { total: { contains: '10' } } }
+ * }, meta)
+ * // ['Membro desconhecido: "vendas.totl"', 'O operador "contains" não se aplica a "vendas.total", do tipo number']
+ * ```
+ */
+export function validateCubeQuery(options: CubeQueryOptions, meta: CubeMeta): string[] {
+  const index = indexSchema(meta)
+  const problems = new Set<string>()
+
+  const findCube = (cube: string) => {
+    const found = index.get(schemaKey(cube))
+    if (!found) {
+      problems.add(`Cube desconhecido: "${cube}"`)
+    }
+    return found
+  }
+  const findMember = (cube: string, member: string) => {
+    const found = findCube(cube)?.get(schemaKey(member))
+    if (index.has(schemaKey(cube)) && !found) {
+      problems.add(`Membro desconhecido: "${cube}.${member}"`)
+    }
+    return found
+  }
+  const checkFilter = (cube: string, member: string, filter: CubeQueryFilter | undefined) => {
+    const found = findMember(cube, member)
+    if (!found?.kind || !filter || typeof filter !== 'object') {
+      return
+    }
+    for (const [operator, value] of Object.entries(filter)) {
+      if (value !== undefined && KNOWN_OPERATORS.has(operator) && !KIND_OPERATORS[found.kind].includes(operator)) {
+        problems.add(`O operador "${operator}" não se aplica a "${cube}.${member}", do tipo ${found.kind}`)
+      }
+    }
+  }
+  const checkTimeDimension = (cube: string, dimension: string) => {
+    const found = findMember(cube, dimension)
+    if (found && found.kind !== 'time') {
+      problems.add(`"${cube}.${dimension}" não é uma dimensão de tempo`)
+    }
+  }
+  const checkCategory = (cube: string, member: string, category: SchemaMember['category']) => {
+    const found = findMember(cube, member)
+    if (found && found.category !== category) {
+      problems.add(`"${cube}.${member}" não é uma ${category === 'measure' ? 'medida' : 'dimensão'}`)
+    }
+  }
+
+  for (const [entity, fields] of Object.entries(options.fields || {})) {
+    Object.keys(fields || {}).forEach((field) => findMember(entity, field))
+  }
+  if (options.defaultEntity) {
+    findCube(options.defaultEntity)
+    options.defaultFields?.forEach((field) => findMember(options.defaultEntity as string, field))
+  }
+  forEachFilterMap(options.where, (filters) => {
+    for (const [entity, entityFilters] of Object.entries(filters)) {
+      for (const [field, filter] of Object.entries(entityFilters || {})) {
+        checkFilter(entity, field, filter as CubeQueryFilter)
+      }
+    }
+  })
+  for (const [entity, fields] of Object.entries(options.orderBy || {})) {
+    Object.keys(fields || {}).forEach((field) => findMember(entity, field))
+  }
+  options.timeDimensions?.forEach(({ entity, dimension }) => checkTimeDimension(entity, dimension))
+
+  for (const [cube, selection] of Object.entries(options.cubes || {})) {
+    if (!findCube(cube)) {
+      continue
+    }
+    selection.measures?.forEach((measure) => checkCategory(cube, measure, 'measure'))
+    selection.dimensions?.forEach((dimension) => checkCategory(cube, dimension, 'dimension'))
+    selection.timeDimensions?.forEach(({ dimension }) => checkTimeDimension(cube, dimension))
+    forEachFilterMap(selection.where, (filters) => {
+      for (const [member, filter] of Object.entries(filters)) {
+        checkFilter(cube, member, filter as CubeQueryFilter)
+      }
+    })
+    Object.keys(selection.orderBy || {}).forEach((member) => findMember(cube, member))
+  }
+
+  return [...problems]
+}
+
+/**
+ * Nome de propriedade TypeScript, entre aspas quando não for um identificador.
+ * @internal
+ */
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+/**
+ * Comentário de documentação de uma linha, sem permitir o fechamento antecipado.
+ * @internal
+ */
+function docComment(text: string, indent = ''): string {
+  return `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n`
+}
+
+/**
+ * Gera o código TypeScript com os tipos do schema do Cube: uma interface por cube, com o tipo de cada membro,
+ * a interface do schema completo e um alias de `TypedCubeQueryOptions` para ele. Com esses tipos,
+ * `fields`, `where`, `orderBy` e `timeDimensions` passam a ser verificados em tempo de compilação.
+ * 
+ * @param meta Schema retornado pelo `/meta` do Cube
+ * @param options Nomes e formato do código gerado (opcional)
+ * @returns Código-fonte TypeScript, pronto para ser salvo em um arquivo
+ * 
+ * @example
+ * ```typescript
+ * // scripts/gerar-tipos-cube.ts
+ * const { data: meta } = await cubeRest.meta()
+ * await fs.writeFile('src/cube-schema.ts', generateCubeTypes(meta))
+ * 
+ * // src/relatorios.ts
+ * import { CubeSchemaTypesQuery } from './cube-schema'
+ * 
+ * const options: CubeSchemaTypesQuery = {
+ *   fields: { vendas: { total: true } },
+ *   where: { vendas: { status: { equals: 'APROVADA' } } }
+ * }
+ * await cube.query('/cubejs-api/graphql', options)
+ * ```
+ */
+export function generateCubeTypes(meta: CubeMeta, options: CubeTypeGeneratorOptions = {}): string {
+  const { schemaName = 'CubeSchemaTypes', importFrom = '@wmmz/fn-api-client', camelCase = true } = options
+  const toName = (name: string) => (camelCase ? toCamelCase(name) : name)
+  const typeName = (name: string) => {
+    const camel = toCamelCase(name).replace(/[^\w$]/g, '_')
+    return `${camel.charAt(0).toUpperCase()}${camel.slice(1)}Members`
+  }
+
+  let output = '// Gerado por generateCubeTypes a partir do /meta do Cube. Não edite manualmente.\n'
+  output += `import type { TypedCubeQueryOptions } from '${importFrom}'\n`
+
+  const cubes = meta.cubes || []
+  for (const cube of cubes) {
+    output += `\n${docComment(cube.title || cube.name)}export interface ${typeName(cube.name)} {\n`
+    const members: [CubeMetaMember, string][] = [
+      ...(cube.measures || []).map((member): [CubeMetaMember, string] => [member, 'medida']),
+      ...(cube.dimensions || []).map((member): [CubeMetaMember, string] => [member, 'dimensão']),
+    ]
+    for (const [member, category] of members) {
+      output += docComment(`${member.title || member.name} (${category})`, '  ')
+      output += `  ${propertyName(toName(shortName(member)))}: '${memberKind(member) || 'string'}'\n`
+    }
+    output += '}\n'
+  }
+
+  output += `\nexport interface ${schemaName} {\n`
+  for (const cube of cubes) {
+    output += `  ${propertyName(toName(cube.name))}: ${typeName(cube.name)}\n`
+  }
+  output += '}\n'
+  output += `\nexport type ${schemaName}Query = TypedCubeQueryOptions<${schemaName}>\n`
+  return output
+}
@@ -0,0 +1,350 @@
+import axios, { AxiosError } from 'axios'
+import { ApiError, RequestConfig } from '../types/types'
+import { GraphQLErrorItem } from '../types/graphql'
+
+/**
+ * Código do `ApiError` produzido quando uma requisição é cancelada,
+ * seja por um `AbortSignal` informado pelo chamador ou por `cancelAll()`.
+ */
+export const CANCELLED_ERROR_CODE = 'ERR_CANCELED'
+
+/**
+ * Opções comuns aos erros da biblioteca.
+ */
+export interface ApiErrorOptions {
+  /** Código de status HTTP (padrão: 0, quando não houve resposta) */
+  status?: number
+  /** Código interno do erro */
+  code?: string
+  /** Detalhes adicionais, normalmente o corpo da resposta */
+  details?: unknown
+  /** Configuração da requisição que falhou */
+  config?: RequestConfig
+  /** Headers da resposta */
+  headers?: Record<string, string>
+  /** Erro original */
+  cause?: unknown
+}
+
+/**
+ * Classe base de todos os erros produzidos pelos clientes.
+ * Mantém o formato de `ApiError` (`message`, `status`, `code`, `details`, `attempts`),
+ * de modo que o código existente que lê esses campos continua funcionando,
+ * e permite distinguir os tipos de erro com `instanceof` ou com os type guards.
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await api.get('/usuarios/me')
+ * } catch (error) {
+ *   if (isUnauthorizedError(error)) {
+ *     router.push('/login')
+ *   } else if (isTimeoutError(error) || isNetworkError(error)) {
+ *     toast('Sem conexão. Tente novamente.')
+ *   } else if (isApiRequestError(error)) {
+ *     console.error(error.status, error.message, error.config?.url)
+ *   }
+ * }
+ * ```
+ */
+export class ApiRequestError extends Error implements ApiError {
+  status: number
+  code?: string
+  details?: unknown
+  attempts?: number
+  config?: RequestConfig
+  headers?: Record<string, string>
+  cause?: unknown
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message)
+    // Mantém `message` enumerável e `name`/`cause` ocultos, preservando o formato
+    // dos objetos de erro anteriores em spread e JSON.stringify
+    Object.defineProperty(this, 'message', { value: message, enumerable: true, writable: true, configurable: true })
+    Object.defineProperty(this, 'name', { value: new.target.name, writable: true, configurable: true })
+    Object.defineProperty(this, 'cause', { value: options.cause, writable: true, configurable: true })
+    this.status = options.status ?? 0
+    this.code = options.code
+    this.details = options.details
+    this.config = options.config
+    this.headers = options.headers
+  }
+}
+
+/**
+ * Falha de conexão: o servidor não respondeu (DNS, conexão recusada, rede indisponível).
+ * O status é sempre 0.
+ */
+export class NetworkError extends ApiRequestError {}
+
+/**
+ * O tempo limite da requisição foi excedido antes da resposta.
+ * O status é sempre 0.
+ */
+export class TimeoutError extends ApiRequestError {}
+
+/**
+ * A requisição foi cancelada por um `AbortSignal` ou por `cancelAll()`.
+ * O status é sempre 0 e o motivo do cancelamento fica em `details`.
+ */
+export class CancelledError extends ApiRequestError {
+  constructor(reason?: unknown, options: ApiErrorOptions = {}) {
+    super('Requisição cancelada', { ...options, status: 0, code: CANCELLED_ERROR_CODE, details: reason })
+  }
+}
+
+/**
+ * O servidor respondeu com um status de erro (4xx ou 5xx).
+ * Os status mais comuns possuem subclasses próprias.
+ */
+export class HttpError extends ApiRequestError {
+  constructor(message: string, status: number, options: ApiErrorOptions = {}) {
+    super(message, { ...options, status })
+  }
+}
+
+/** Resposta 401: credenciais ausentes ou inválidas */
+export class UnauthorizedError extends HttpError {}
+
+/** Resposta 403: acesso negado ao recurso */
+export class ForbiddenError extends HttpError {}
+
+/** Resposta 404: recurso não encontrado */
+export class NotFoundError extends HttpError {}
+
+/** Resposta 409: conflito com o estado atual do recurso */
+export class ConflictError extends HttpError {}
+
+/** Resposta 422: dados rejeitados pela validação do servidor */
+export class UnprocessableEntityError extends HttpError {}
+
+/** Resposta 429: limite de requisições excedido (veja o header `retry-after`) */
+export class TooManyRequestsError extends HttpError {}
+
+/**
+ * A operação GraphQL retornou erros no array `errors` da resposta.
+ */
+export class GraphQLRequestError extends ApiRequestError {
+  /** Erros retornados pelo servidor GraphQL */
+  errors: GraphQLErrorItem[]
+  /** Dados parciais retornados junto com os erros (modo `strict`) */
+  partialData?: unknown
+
+  constructor(message: string, errors: GraphQLErrorItem[], options: ApiErrorOptions = {}, partialData?: unknown) {
+    super(message, options)
+    this.errors = errors
+    this.partialData = partialData
+  }
+}
+
+/**
+ * O corpo da resposta não pôde ser interpretado (JSON inválido ou formato inesperado).
+ */
+export class ParseError extends ApiRequestError {}
+
+/**
+ * Subclasses de `HttpError` por status.
+ * @internal
+ */
+const HTTP_ERRORS: Record<number, typeof HttpError> = {
+  401: UnauthorizedError,
+  403: ForbiddenError,
+  404: NotFoundError,
+  409: ConflictError,
+  422: UnprocessableEntityError,
+  429: TooManyRequestsError,
+}
+
+/**
+ * Códigos do Axios/Node que indicam tempo limite excedido.
+ * @internal
+ */
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT']
+
+/**
+ * Cria o erro HTTP adequado ao status.
+ * @param message Mensagem do erro
+ * @param status Status HTTP da resposta
+ * @param options Demais dados do erro
+ * @returns Instância da subclasse correspondente ao status, ou `HttpError`
+ */
+export function createHttpError(message: string, status: number, options: ApiErrorOptions = {}): HttpError {
+  const ErrorClass = HTTP_ERRORS[status] || HttpError
+  return new ErrorClass(message, status, options)
+}
+
+/**
+ * Converte os headers do Axios em um objeto simples, com os nomes em minúsculas.
+ * @internal
+ */
+export function normalizeHeaders(headers: unknown): Record<string, string> | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined
+  }
+
+  const raw = (headers as { toJSON?: () => object }).toJSON?.() ?? headers
+  const normalized: Record<string, string> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    if (value !== undefined && value !== null) {
+      normalized[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value)
+    }
+  }
+  return normalized
+}
+
+/**
+ * Converte qualquer erro de uma requisição no erro tipado correspondente.
+ * Erros que já são `ApiRequestError` são devolvidos sem alteração.
+ * 
+ * @param error Erro original (normalmente um `AxiosError`)
+ * @param config Configuração da requisição que falhou (opcional)
+ * @returns Erro tipado
+ * @internal
+ */
+export function toApiError(error: unknown, config?: RequestConfig): ApiRequestError {
+  if (error instanceof ApiRequestError) {
+    return error
+  }
+
+  if (axios.isCancel(error)) {
+    return new CancelledError(undefined, { config, cause: error })
+  }
+
+  if (!axios.isAxiosError(error)) {
+    const message = error instanceof Error ? error.message : 'Ocorreu um erro na requisição'
+    return error instanceof SyntaxError
+      ? new ParseError('Resposta inválida do servidor', { config, details: message, cause: error })
+      : new ApiRequestError(message, { config, details: error, cause: error })
+  }
+
+  const axiosError = error as AxiosError
+  const response = axiosError.response
+  const options: ApiErrorOptions = {
+    code: axiosError.code,
+    details: response?.data,
+    config,
+    headers: normalizeHeaders(response?.headers),
+    cause: error,
+  }
+
+  if (response && response.status >= 300) {
+    const message = (response.data as { message?: string } | null)?.message || 'Ocorreu um erro na requisição'
+    return createHttpError(message, response.status, options)
+  }
+
+  // Falha ao interpretar o corpo de uma resposta bem-sucedida
+  if (response || axiosError.code === AxiosError.ERR_BAD_RESPONSE) {
+    return new ParseError('Resposta inválida do servidor', { ...options, status: response?.status })
+  }
+
+  if (TIMEOUT_CODES.includes(axiosError.code || '')) {
+    return new TimeoutError('Tempo limite da requisição excedido', options)
+  }
+
+  return new NetworkError('Não foi possível conectar ao servidor', options)
+}
+
+/**
+ * Verifica se um erro foi produzido pelos clientes da biblioteca.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ * @returns `true` se o erro for um `ApiRequestError` (ou subclasse)
+ */
+export function isApiRequestError(error: unknown): error is ApiRequestError {
+  return error instanceof ApiRequestError
+}
+
+/**
+ * Verifica se a requisição falhou por problema de conexão.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError
+}
+
+/**
+ * Verifica se a requisição excedeu o tempo limite.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError
+}
+
+/**
+ * Verifica se o servidor respondeu com um status de erro.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ * @param status Status específico a ser verificado (opcional)
+ * 
+ * @example
+ * ```typescript
+ * if (isHttpError(error) && error.status >= 500) {
+ *   reportarFalhaDoServidor(error)
+ * }
+ * ```
+ */
+export function isHttpError(error: unknown, status?: number): error is HttpError {
+  return error instanceof HttpError && (status === undefined || error.status === status)
+}
+
+/**
+ * Verifica se o servidor respondeu 401.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isUnauthorizedError(error: unknown): error is UnauthorizedError {
+  return error instanceof UnauthorizedError
+}
+
+/**
+ * Verifica se o servidor respondeu 403.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isForbiddenError(error: unknown): error is ForbiddenError {
+  return error instanceof ForbiddenError
+}
+
+/**
+ * Verifica se o servidor respondeu 404.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isNotFoundError(error: unknown): error is NotFoundError {
+  return error instanceof NotFoundError
+}
+
+/**
+ * Verifica se o servidor respondeu 409.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isConflictError(error: unknown): error is ConflictError {
+  return error instanceof ConflictError
+}
+
+/**
+ * Verifica se o servidor respondeu 422.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isUnprocessableEntityError(error: unknown): error is UnprocessableEntityError {
+  return error instanceof UnprocessableEntityError
+}
+
+/**
+ * Verifica se o servidor respondeu 429.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isTooManyRequestsError(error: unknown): error is TooManyRequestsError {
+  return error instanceof TooManyRequestsError
+}
+
+/**
+ * Verifica se a operação GraphQL retornou erros.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isGraphQLRequestError(error: unknown): error is GraphQLRequestError {
+  return error instanceof GraphQLRequestError
+}
+
+/**
+ * Verifica se a resposta do servidor não pôde ser interpretada.
+ * @param error Erro recebido no `onError` ou na rejeição da promise
+ */
+export function isParseError(error: unknown): error is ParseError {
+  return error instanceof ParseError
+}
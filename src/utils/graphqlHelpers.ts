@@ -1,4 +1,316 @@
-import { CubeQueryFields, CubeQueryWhere, CubeQueryOptions } from '../types/graphql'
+import { CubeMemberKind, CubeMemberKindResolver } from '../types/cube'
+import {
+  CubeEnumValue,
+  CubeMemberWhere,
+  CubeOrderDirection,
+  CubeQueryTimeDimension,
+  CubeTimeDimension,
+  CubeQueryFields,
+  CubeQueryFilter,
+  CubeSelection,
+  CubeQueryWhere,
+  CubeQueryOptions,
+  GraphQLDocumentInfo,
+  GraphQLErrorItem,
+  GraphQLOperationType,
+} from '../types/graphql'
+import { ApiRequestError } from './errors'
+
+/**
+ * Código do erro produzido quando as opções de uma consulta Cube não podem ser convertidas em GraphQL.
+ */
+export const CUBE_QUERY_INVALID = 'CUBE_QUERY_INVALID'
+
+/**
+ * Converte um valor de filtro na representação usada na query (literal ou referência a variável).
+ * Nos filtros, recebe também o operador e o nome completo do membro (`vendas.total`).
+ * @internal
+ */
+type ValueEncoder = (value: unknown, operator?: keyof CubeQueryFilter, member?: string) => string
+
+/**
+ * Nomes válidos em GraphQL: letras, dígitos e `_`, sem começar por dígito.
+ * @internal
+ */
+const IDENTIFIER_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/
+
+/**
+ * Granularidades aceitas pelas dimensões de tempo.
+ * @internal
+ */
+const TIME_GRANULARITIES = ['second', 'minute', 'hour', 'day', 'week', 'month', 'quarter', 'year']
+
+/**
+ * Tipo GraphQL das variáveis de `equals`, `notEquals`, `in` e `notIn` para cada tipo de membro.
+ * @internal
+ */
+const KIND_SCALAR_TYPES: Record<CubeMemberKind, string> = {
+  number: 'Float',
+  string: 'String',
+  time: 'String',
+  boolean: 'Boolean',
+}
+
+/**
+ * Valores de enum criados por `cubeEnum`.
+ * @internal
+ */
+const cubeEnumValues = new WeakSet<object>()
+
+/**
+ * Cria o erro de uma consulta Cube inválida.
+ * @internal
+ */
+function invalidCubeQuery(message: string, details?: unknown): ApiRequestError {
+  return new ApiRequestError(message, { code: CUBE_QUERY_INVALID, details })
+}
+
+/**
+ * Garante que um nome de cube, entidade, campo ou operador é um identificador GraphQL válido.
+ * @internal
+ */
+function assertIdentifier(name: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw invalidCubeQuery(`Identificador GraphQL inválido: "${name}"`, { name })
+  }
+  return name
+}
+
+/**
+ * Garante que `limit`/`offset` é um inteiro não negativo.
+ * @internal
+ */
+function assertCount(name: string, value: number): number {
+  if (!Number.isInteger(value) || value < 0) {
+    throw invalidCubeQuery(`"${name}" deve ser um inteiro não negativo`, { [name]: value })
+  }
+  return value
+}
+
+/**
+ * Marca um valor de filtro como valor de enum do schema GraphQL, emitido sem aspas
+ * (`equals: APROVADA` em vez de `equals: "APROVADA"`). Como o tipo do enum não é conhecido,
+ * o valor fica no documento em vez de virar uma variável; por isso o nome é validado como identificador.
+ * 
+ * @param value Nome do valor do enum
+ * @returns Valor de filtro aceito por `equals`, `notEquals`, `in` e `notIn`
+ * @throws `ApiRequestError` (código `CUBE_QUERY_INVALID`) se o nome não for um valor de enum válido
+ * 
+ * @example
+ * ```typescript
+ * buildCubeOperation({
+ *   where: { pedidos: { situacao: { in: [cubeEnum('ABERTO'), cubeEnum('PAGO')] } } },
+ *   fields: { pedidos: { total: true } }
+ * })
+ * // query CubeQuery { cube(where: {pedidos: {situacao: {in: [ABERTO, PAGO]}}}) { pedidos { total } } }
+ * ```
+ */
+export function cubeEnum(value: string): CubeEnumValue {
+  if (typeof value !== 'string' || !IDENTIFIER_PATTERN.test(value) || ['true', 'false', 'null'].includes(value)) {
+    throw invalidCubeQuery(`Valor de enum inválido: "${String(value)}"`, { value })
+  }
+  const enumValue = Object.freeze({ enum: value })
+  cubeEnumValues.add(enumValue)
+  return enumValue
+}
+
+/**
+ * Indica se o valor foi criado por `cubeEnum`.
+ * @internal
+ */
+function isCubeEnum(value: unknown): value is CubeEnumValue {
+  return typeof value === 'object' && value !== null && cubeEnumValues.has(value)
+}
+
+/**
+ * Converte um valor JavaScript em um literal GraphQL.
+ * Strings são escapadas, datas viram strings ISO 8601, valores de `cubeEnum` são emitidos sem aspas
+ * e números não finitos são rejeitados, de modo que nenhum valor consegue alterar a estrutura da query.
+ * 
+ * @param value String, número, booleano, `null`, `Date`, valor de enum, array ou objeto simples
+ * @returns Literal GraphQL
+ * @throws `ApiRequestError` (código `CUBE_QUERY_INVALID`) para valores que não podem ser representados
+ * 
+ * @example
+ * ```typescript
+ * toGraphQLLiteral(['APROVADA', 'CONCLUIDA']) // '["APROVADA", "CONCLUIDA"]'
+ * toGraphQLLiteral('a" } } query { x') // '"a\\" } } query { x"'
+ * toGraphQLLiteral(new Date('2024-01-01')) // '"2024-01-01T00:00:00.000Z"'
+ * ```
+ */
+export function toGraphQLLiteral(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(toISODate(value))
+  }
+  if (isCubeEnum(value)) {
+    return value.enum
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toGraphQLLiteral).join(', ')}]`
+  }
+
+  switch (typeof value) {
+    case 'string':
+      // As strings JSON são strings GraphQL válidas, com aspas e caracteres de controle escapados
+      return JSON.stringify(value)
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw invalidCubeQuery(`Número inválido em filtro: ${value}`, { value })
+      }
+      return String(value)
+    case 'boolean':
+      return String(value)
+  }
+
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const fields = Object.entries(value)
+      .filter(([, fieldValue]) => fieldValue !== undefined)
+      .map(([key, fieldValue]) => `${assertIdentifier(key)}: ${toGraphQLLiteral(fieldValue)}`)
+    return `{${fields.join(', ')}}`
+  }
+
+  throw invalidCubeQuery(`Valor de filtro não suportado: ${String(value)}`, { value })
+}
+
+/**
+ * Converte uma data em string ISO 8601, rejeitando datas inválidas.
+ * @internal
+ */
+function toISODate(value: Date): string {
+  if (Number.isNaN(value.getTime())) {
+    throw invalidCubeQuery('Data inválida em filtro', { value })
+  }
+  return value.toISOString()
+}
+
+/**
+ * Tipo GraphQL escalar de um valor, usado quando o tipo do membro não é conhecido.
+ * @internal
+ */
+function valueScalarType(value: unknown): string {
+  if (typeof value === 'string' || value instanceof Date) {
+    return 'String'
+  }
+  if (typeof value === 'number') {
+    return 'Float'
+  }
+  if (typeof value === 'boolean') {
+    return 'Boolean'
+  }
+  throw invalidCubeQuery(`Valor de filtro não suportado: ${String(value)}`, { value })
+}
+
+/**
+ * Tipo escalar dos valores comparados com o membro: o do tipo do membro, quando conhecido,
+ * ou o dos próprios valores, que devem ter todos o mesmo tipo.
+ * @internal
+ */
+function memberScalarType(value: unknown, kind?: CubeMemberKind): string {
+  if (kind) {
+    return KIND_SCALAR_TYPES[kind]
+  }
+  const items = Array.isArray(value) ? value : [value]
+  const types = Array.from(new Set(items.filter((item) => item !== null).map(valueScalarType)))
+  if (types.length > 1) {
+    throw invalidCubeQuery('Os valores de uma lista de filtro devem ter o mesmo tipo', { value })
+  }
+  return types[0] || 'String'
+}
+
+/**
+ * Infere o tipo GraphQL da variável que recebe um valor, como no schema do Cube:
+ * operadores de texto e de data recebem `String`, os de comparação `Float` e `set` recebe `Boolean`;
+ * `equals`, `notEquals`, `in` e `notIn` recebem o tipo do membro (`StringFilter`, `FloatFilter`...).
+ * Fora dos filtros (ex.: `timezone`), o tipo vem do próprio valor.
+ * @internal
+ */
+function variableType(value: unknown, operator?: keyof CubeQueryFilter, kind?: CubeMemberKind): string {
+  switch (operator && CUBE_FILTER_OPERATORS[operator]) {
+    case 'text':
+    case 'date':
+      return 'String'
+    case 'dateRange':
+      return '[String]'
+    case 'number':
+      return 'Float'
+    case 'boolean':
+      return 'Boolean'
+    case 'list':
+      return `[${memberScalarType(value, kind)}]`
+    default:
+      return memberScalarType(value, kind)
+  }
+}
+
+/**
+ * Converte um valor de filtro no valor enviado em `variables`, no tipo declarado da variável.
+ * Valores de outro tipo são convertidos quando não há perda (ex.: `123` em um membro `string` vira `'123'`).
+ * @internal
+ */
+function variableValue(value: unknown, type: string, member?: string): unknown {
+  if (type.startsWith('[')) {
+    return (value as unknown[]).map((item) => variableValue(item, type.slice(1, -1), member))
+  }
+  if (value === null) {
+    return null
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw invalidCubeQuery(`Número inválido em filtro: ${value}`, { value })
+  }
+
+  const text = value instanceof Date ? toISODate(value) : value
+  if (type === 'String' && ['string', 'number', 'boolean'].includes(typeof text)) {
+    return String(text)
+  }
+  if (type === 'Float' && (typeof text === 'number' || (typeof text === 'string' && text.trim() !== ''))) {
+    const number = Number(text)
+    if (Number.isFinite(number)) {
+      return number
+    }
+  }
+  if (type === 'Boolean' && (typeof text === 'boolean' || text === 'true' || text === 'false')) {
+    return text === true || text === 'true'
+  }
+  throw invalidCubeQuery(
+    `O valor ${JSON.stringify(text)}${member ? ` de "${member}"` : ''} não é compatível com o tipo ${type}`,
+    { member, value, type }
+  )
+}
+
+/**
+ * Cria um codificador que extrai cada valor de filtro para uma variável GraphQL tipada.
+ * `null` e valores de enum continuam literais, pois não há tipo a declarar.
+ * @param memberKind Tipo de cada membro, para declarar as variáveis de `equals`/`in` (opcional)
+ * @internal
+ */
+function createVariableEncoder(memberKind?: CubeMemberKindResolver) {
+  const variables: Record<string, unknown> = {}
+  const definitions: string[] = []
+
+  const encode: ValueEncoder = (value, operator, member) => {
+    if (value === null) {
+      return 'null'
+    }
+    const items = Array.isArray(value) ? value.filter((item) => item !== null) : [value]
+    if (items.some(isCubeEnum)) {
+      if (!items.every(isCubeEnum)) {
+        throw invalidCubeQuery('Os valores de uma lista de filtro devem ter o mesmo tipo', { value })
+      }
+      return toGraphQLLiteral(value)
+    }
+
+    const name = `v${definitions.length}`
+    const type = variableType(value, operator, member ? memberKind?.(member) : undefined)
+    definitions.push(`$${name}: ${type}`)
+    variables[name] = variableValue(value, type, member)
+    return `$${name}`
+  }
+
+  return { encode, variables, definitions }
+}
 
 /**
  * Constrói uma string de campos para a query GraphQL.
@@ -36,18 +348,34 @@ import { CubeQueryFields, CubeQueryWhere, CubeQueryOptions } from '../types/grap
  * ```
  */
 export function buildFields(fields: CubeQueryFields = {}): string {
-  return Object.entries(fields)
-    .map(([entity, entityFields]) => {
-      const selectedFields = Object.entries(entityFields || {})
-        .filter(([, selected]) => selected)
-        .map(([field]) => field)
-        .join('\n      ')
-
-      return selectedFields
-        ? `    ${entity} {\n      ${selectedFields}\n    }`
-        : ''
+  return buildEntityBlocks(fieldMembers(fields))
+}
+
+/**
+ * Lista os campos selecionados de cada entidade.
+ * @internal
+ */
+function fieldMembers(fields: CubeQueryFields = {}): Record<string, string[]> {
+  const members: Record<string, string[]> = {}
+  for (const [entity, entityFields] of Object.entries(fields)) {
+    members[entity] = Object.entries(entityFields || {})
+      .filter(([, selected]) => selected)
+      .map(([field]) => assertIdentifier(field))
+  }
+  return members
+}
+
+/**
+ * Monta os blocos de seleção das entidades, omitindo as que não têm campos.
+ * @internal
+ */
+function buildEntityBlocks(members: Record<string, string[]>, args: Record<string, string> = {}): string {
+  return Object.entries(members)
+    .filter(([, entityMembers]) => entityMembers.length > 0)
+    .map(([entity, entityMembers]) => {
+      const entityArgs = args[entity] ? `(${args[entity]})` : ''
+      return `    ${assertIdentifier(entity)}${entityArgs} {\n      ${entityMembers.join('\n      ')}\n    }`
     })
-    .filter(Boolean)
     .join('\n')
 }
 
@@ -56,14 +384,20 @@ export function buildFields(fields: CubeQueryFields = {}): string {
  * Transforma um objeto de filtros em uma string formatada
  * para ser usada como cláusula WHERE em uma query GraphQL do Cube.
  * 
+ * Os valores são codificados como literais GraphQL seguros e os nomes validados como identificadores.
+ * Grupos `AND`/`OR` são emitidos na sintaxe do Cube e grupos `NOT`, que o Cube não possui,
+ * são convertidos pelas leis de De Morgan, negando os operadores (`equals` → `notEquals`, `gt` → `lte`...).
+ * 
  * @param where Objeto com os filtros a serem aplicados
+ * @param encode Codificação dos valores (padrão: `toGraphQLLiteral`)
  * @returns String formatada com os filtros no formato GraphQL
+ * @throws `ApiRequestError` (código `CUBE_QUERY_INVALID`) para nomes ou valores inválidos
  * 
  * @example
  * ```typescript
  * const where = {
  *   vendas: {
- *     total: { greaterThan: 1000, lessThan: 5000 },
+ *     total: { gt: 1000, lt: 5000 },
  *     status: { in: ['APROVADA', 'CONCLUIDA'] }
  *   },
  *   cliente: {
@@ -75,37 +409,438 @@ export function buildFields(fields: CubeQueryFields = {}): string {
  * // Resultado:
  * // where: {
  * //   vendas: {
- * //     total: { greaterThan: 1000, lessThan: 5000 },
+ * //     total: { gt: 1000, lt: 5000 },
  * //     status: { in: ["APROVADA", "CONCLUIDA"] }
  * //   },
  * //   cliente: {
  * //     tipo: { equals: "PJ" }
  * //   }
  * // }
+ * 
+ * buildWhereClause({
+ *   OR: [
+ *     { vendas: { status: { equals: 'APROVADA' } } },
+ *     { NOT: { cliente: { tipo: { in: ['PF', 'MEI'] } } } }
+ *   ]
+ * })
+ * // where: {OR: [{vendas: {status: {equals: "APROVADA"}}}, {cliente: {tipo: {notIn: ["PF", "MEI"]}}}]}
+ * ```
+ */
+export function buildWhereClause(where: CubeQueryWhere = {}, encode: ValueEncoder = toGraphQLLiteral): string {
+  const conditions = buildLogicalWhere(where, ENTITY_LEVEL, encode)
+  return conditions === '{}' ? '' : `where: ${conditions}`
+}
+
+/**
+ * Nó da árvore de filtros percorrida pelos construtores de `where`: um grupo `AND`/`OR`/`NOT`
+ * ou um mapa de filtros, verificado em tempo de execução por `asFilterTree`.
+ * @internal
+ */
+type FilterTree = Record<string, unknown>
+
+/**
+ * Garante que um nó da árvore de filtros é um objeto.
+ * @internal
+ */
+function asFilterTree(value: unknown, name: string): FilterTree {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw invalidCubeQuery(`Os filtros de "${name}" devem ser um objeto`, { [name]: value })
+  }
+  return value as FilterTree
+}
+
+/**
+ * Nível da árvore de filtros: o `where` da consulta (entidade → campo → filtro)
+ * ou o `where` de um cube (membro → filtro).
+ * @internal
+ */
+interface FilterLevel {
+  /** Monta o conteúdo de um mapa de filtros, sem as chaves externas */
+  render(filters: FilterTree, encode: ValueEncoder): string
+  /** Nega um mapa de filtros, retornando as condições negadas (a serem combinadas com OR) */
+  negate(filters: FilterTree): FilterTree[]
+}
+
+/**
+ * Operador que nega cada operador de filtro, usado para converter grupos `NOT`.
+ * @internal
+ */
+const NEGATED_OPERATORS: Record<string, string> = {
+  equals: 'notEquals',
+  notEquals: 'equals',
+  in: 'notIn',
+  notIn: 'in',
+  contains: 'notContains',
+  notContains: 'contains',
+  startsWith: 'notStartsWith',
+  notStartsWith: 'startsWith',
+  endsWith: 'notEndsWith',
+  notEndsWith: 'endsWith',
+  gt: 'lte',
+  lte: 'gt',
+  gte: 'lt',
+  lt: 'gte',
+  inDateRange: 'notInDateRange',
+  notInDateRange: 'inDateRange',
+  beforeDate: 'afterOrOnDate',
+  afterOrOnDate: 'beforeDate',
+  afterDate: 'beforeOrOnDate',
+  beforeOrOnDate: 'afterDate',
+}
+
+/**
+ * Nega cada operador de um filtro, produzindo uma condição por operador.
+ * @internal
+ */
+function negateFilter(filter: CubeQueryFilter | undefined, member: string): CubeQueryFilter[] {
+  return Object.entries(validateCubeFilter(filter, member)).map(([operator, value]) =>
+    operator === 'set' ? { set: !value } : ({ [NEGATED_OPERATORS[operator]]: value } as CubeQueryFilter)
+  )
+}
+
+/**
+ * Filtros do `where` da consulta, por entidade e campo.
+ * @internal
+ */
+const ENTITY_LEVEL: FilterLevel = {
+  render: (filters, encode) =>
+    Object.entries(filters)
+      .map(([entity, entityFilters]) => {
+        const fields = Object.entries(entityFilters ? asFilterTree(entityFilters, entity) : {})
+          .filter(([, conditions]) => conditions !== undefined)
+          .map(([field, conditions]) => {
+            const filter = buildFilter(conditions as CubeQueryFilter, `${entity}.${field}`, encode)
+            return `${assertIdentifier(field)}: ${filter}`
+          })
+          .join(', ')
+        return fields ? `${assertIdentifier(entity)}: {${fields}}` : ''
+      })
+      .filter(Boolean)
+      .join(', '),
+  negate: (filters) =>
+    Object.entries(filters).flatMap(([entity, entityFilters]) =>
+      Object.entries(entityFilters ? asFilterTree(entityFilters, entity) : {}).flatMap(([field, conditions]) =>
+        negateFilter(conditions as CubeQueryFilter, `${entity}.${field}`).map((negated) => ({ [entity]: { [field]: negated } }))
+      )
+    ),
+}
+
+/**
+ * Filtros do `where` de um cube, por membro.
+ * @internal
+ */
+function memberLevel(cube: string): FilterLevel {
+  return {
+    render: (filters, encode) =>
+      Object.entries(filters)
+        .filter(([, conditions]) => conditions !== undefined)
+        .map(
+          ([member, conditions]) =>
+            `${assertIdentifier(member)}: ${buildFilter(conditions as CubeQueryFilter, `${cube}.${member}`, encode)}`
+        )
+        .join(', '),
+    negate: (filters) =>
+      Object.entries(filters).flatMap(([member, conditions]) =>
+        negateFilter(conditions as CubeQueryFilter, `${cube}.${member}`).map((negated) => ({ [member]: negated }))
+      ),
+  }
+}
+
+/**
+ * Monta uma árvore de filtros com grupos `AND`, `OR` e `NOT`.
+ * @internal
+ */
+function buildLogicalWhere(tree: unknown, level: FilterLevel, encode: ValueEncoder): string {
+  const where = asFilterTree(tree, 'where')
+  const keys = Object.keys(where).filter((key) => where[key] !== undefined)
+  const group = keys.find((key) => key === 'AND' || key === 'OR' || key === 'NOT')
+  if (!group) {
+    return `{${level.render(where, encode)}}`
+  }
+  if (keys.length > 1) {
+    throw invalidCubeQuery(`O grupo ${group} deve ser a única chave do objeto de filtros`, { keys })
+  }
+
+  if (group === 'NOT') {
+    return buildLogicalWhere(negateWhere(where.NOT, level), level, encode)
+  }
+  if (!Array.isArray(where[group])) {
+    throw invalidCubeQuery(`O grupo ${group} deve ser uma lista de filtros`, { [group]: where[group] })
+  }
+  const conditions = where[group].map((condition) => buildLogicalWhere(condition, level, encode))
+  return `{${group}: [${conditions.join(', ')}]}`
+}
+
+/**
+ * Nega uma árvore de filtros pelas leis de De Morgan.
+ * @internal
+ */
+function negateWhere(tree: unknown, level: FilterLevel): FilterTree {
+  const where = asFilterTree(tree, 'NOT')
+  if (Array.isArray(where.AND)) {
+    return { OR: where.AND.map((condition: unknown) => negateWhere(condition, level)) }
+  }
+  if (Array.isArray(where.OR)) {
+    return { AND: where.OR.map((condition: unknown) => negateWhere(condition, level)) }
+  }
+  if (where.NOT) {
+    return asFilterTree(where.NOT, 'NOT')
+  }
+
+  const negated = level.negate(where)
+  if (negated.length === 0) {
+    throw invalidCubeQuery('NOT aplicado a um filtro vazio')
+  }
+  return negated.length === 1 ? negated[0] : { OR: negated }
+}
+
+/**
+ * Constrói o objeto de operadores de um filtro, já validado e normalizado.
+ * @internal
+ */
+function buildFilter(conditions: CubeQueryFilter | undefined, member: string, encode: ValueEncoder): string {
+  const filterStr = Object.entries(validateCubeFilter(conditions, member))
+    .map(([operator, value]) => `${operator}: ${encode(value, operator as keyof CubeQueryFilter, member)}`)
+    .join(', ')
+  return `{${filterStr}}`
+}
+
+/**
+ * Tipo de valor esperado por cada operador de filtro do Cube.
+ * @internal
+ */
+type OperatorValueKind = 'value' | 'list' | 'text' | 'number' | 'date' | 'dateRange' | 'boolean'
+
+/**
+ * Operadores de filtro do Cube e o tipo de valor de cada um.
+ * @internal
+ */
+const CUBE_FILTER_OPERATORS: Record<keyof CubeQueryFilter, OperatorValueKind> = {
+  equals: 'value',
+  notEquals: 'value',
+  in: 'list',
+  notIn: 'list',
+  contains: 'text',
+  notContains: 'text',
+  startsWith: 'text',
+  notStartsWith: 'text',
+  endsWith: 'text',
+  notEndsWith: 'text',
+  gt: 'number',
+  gte: 'number',
+  lt: 'number',
+  lte: 'number',
+  inDateRange: 'dateRange',
+  notInDateRange: 'dateRange',
+  beforeDate: 'date',
+  beforeOrOnDate: 'date',
+  afterDate: 'date',
+  afterOrOnDate: 'date',
+  set: 'boolean',
+  notSet: 'boolean',
+}
+
+/**
+ * Descrição de cada tipo de valor, usada nas mensagens de erro.
+ * @internal
+ */
+const VALUE_KIND_DESCRIPTIONS: Record<OperatorValueKind, string> = {
+  value: 'uma string, número, booleano, data, enum (cubeEnum) ou null',
+  list: 'uma lista de valores',
+  text: 'uma string',
+  number: 'um número',
+  date: 'uma data (string ou Date)',
+  dateRange: "um intervalo [início, fim] ou uma expressão como 'last 7 days'",
+  boolean: 'um booleano',
+}
+
+/**
+ * Verifica se um valor corresponde ao tipo esperado pelo operador.
+ * @internal
+ */
+function matchesValueKind(kind: OperatorValueKind, value: unknown): boolean {
+  const isScalar = (item: unknown) =>
+    item === null || item instanceof Date || isCubeEnum(item) || ['string', 'number', 'boolean'].includes(typeof item)
+  const isDate = (item: unknown) => typeof item === 'string' || item instanceof Date
+
+  switch (kind) {
+    case 'value':
+      return isScalar(value)
+    case 'list':
+      return Array.isArray(value) && value.every(isScalar)
+    case 'text':
+      return typeof value === 'string'
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'date':
+      return isDate(value)
+    case 'dateRange':
+      return typeof value === 'string' || (Array.isArray(value) && value.length === 2 && value.every(isDate))
+    case 'boolean':
+      return typeof value === 'boolean'
+  }
+}
+
+/**
+ * Valida os operadores e valores de um filtro do Cube e o normaliza para o formato do schema GraphQL:
+ * expressões de intervalo (`'last 7 days'`) viram listas e `notSet` vira `set: false`.
+ * É aplicado pelo `buildCubeQuery`/`buildCubeOperation` a todos os filtros, inclusive em JavaScript,
+ * onde a tipagem de `CubeQueryFilter` não protege contra operadores digitados errado.
+ * 
+ * @param filter Filtro a ser validado
+ * @param member Nome do membro filtrado, usado nas mensagens de erro (opcional)
+ * @returns Filtro normalizado, sem operadores `undefined`
+ * @throws `ApiRequestError` (código `CUBE_QUERY_INVALID`) para operadores desconhecidos ou valores do tipo errado
+ * 
+ * @example
+ * ```typescript
+ * validateCubeFilter({ inDateRange: 'last 7 days', notSet: false }, 'vendas.data')
+ * // { inDateRange: ['last 7 days'], set: true }
+ * 
+ * validateCubeFilter({ greaterThen: 5 } as CubeQueryFilter, 'vendas.total')
+ * // ApiRequestError: Operador de filtro desconhecido "greaterThen" em "vendas.total"...
  * ```
  */
-export function buildWhereClause(where: CubeQueryWhere = {}): string {
-  const conditions = Object.entries(where)
-    .map(([entity, entityFilters]) => {
-      const filters = Object.entries(entityFilters || {})
-        .map(([field, conditions]) => {
-          const filterStr = Object.entries(conditions || {})
-            .map(([operator, value]) => {
-              if (Array.isArray(value)) {
-                return `${operator}: [${value.join(', ')}]`
-              }
-              return `${operator}: ${JSON.stringify(value)}`
-            })
-            .join(', ')
-          return `${field}: {${filterStr}}`
-        })
-        .join(', ')
-      return filters ? `${entity}: {${filters}}` : ''
+export function validateCubeFilter(filter: CubeQueryFilter | undefined, member = 'filtro'): CubeQueryFilter {
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    throw invalidCubeQuery(`O filtro de "${member}" deve ser um objeto de operadores`, { member, filter })
+  }
+
+  const normalized: Record<string, unknown> = {}
+  for (const [operator, value] of Object.entries(filter)) {
+    if (value === undefined) {
+      continue
+    }
+
+    const kind = Object.prototype.hasOwnProperty.call(CUBE_FILTER_OPERATORS, operator)
+      ? CUBE_FILTER_OPERATORS[operator as keyof CubeQueryFilter]
+      : undefined
+    if (!kind) {
+      throw invalidCubeQuery(
+        `Operador de filtro desconhecido "${operator}" em "${member}". Operadores válidos: ${Object.keys(CUBE_FILTER_OPERATORS).join(', ')}`,
+        { member, operator }
+      )
+    }
+    if (!matchesValueKind(kind, value)) {
+      throw invalidCubeQuery(
+        `O operador "${operator}" em "${member}" espera ${VALUE_KIND_DESCRIPTIONS[kind]}`,
+        { member, operator, value }
+      )
+    }
+
+    if (operator === 'notSet') {
+      if (filter.set !== undefined && filter.set === value) {
+        throw invalidCubeQuery(`"set" e "notSet" se contradizem em "${member}"`, { member })
+      }
+      normalized.set = !value
+    } else {
+      normalized[operator] = kind === 'dateRange' && !Array.isArray(value) ? [value] : value
+    }
+  }
+  return normalized as CubeQueryFilter
+}
+
+/**
+ * Combina os filtros de um cube com os intervalos de datas das dimensões de tempo.
+ * @internal
+ */
+function withDateRanges<W extends object>(
+  where: W | undefined,
+  timeDimensions: CubeTimeDimension[] = [],
+  toFilter: (dimension: CubeTimeDimension, filter: CubeQueryFilter) => W,
+): W | undefined {
+  const dateFilters = timeDimensions
+    .filter((timeDimension) => timeDimension.dateRange)
+    .map((timeDimension) => toFilter(timeDimension, { inDateRange: timeDimension.dateRange }))
+
+  const filters = where ? [where, ...dateFilters] : dateFilters
+  return filters.length > 1 ? ({ AND: filters } as unknown as W) : filters[0]
+}
+
+/**
+ * Constrói a ordenação por membro, aceitando apenas as direções conhecidas.
+ * @internal
+ */
+function buildOrderBy(orderBy: Record<string, CubeOrderDirection> = {}): string {
+  return Object.entries(orderBy)
+    .map(([member, direction]) => {
+      // `asc`/`desc` são enums e vão sem aspas, por isso só os valores conhecidos são aceitos
+      if (direction !== 'asc' && direction !== 'desc') {
+        throw invalidCubeQuery(`Direção de ordenação inválida para "${member}": ${direction}`, { member, direction })
+      }
+      return `${assertIdentifier(member)}: ${direction}`
     })
-    .filter(Boolean)
     .join(', ')
+}
 
-  return conditions ? `where: {${conditions}}` : ''
+/**
+ * Constrói a seleção de uma dimensão de tempo com a granularidade como subcampo.
+ * @internal
+ */
+function buildTimeDimension({ dimension, granularity }: CubeTimeDimension): string {
+  if (granularity !== undefined && !TIME_GRANULARITIES.includes(granularity)) {
+    throw invalidCubeQuery(`Granularidade inválida para "${dimension}": ${granularity}`, { dimension, granularity })
+  }
+  return `${assertIdentifier(dimension)} {\n        ${granularity || 'value'}\n      }`
+}
+
+/**
+ * Constrói a seleção dos cubes no formato do schema GraphQL do Cube.
+ * Cada cube recebe seus próprios argumentos `where` e `orderBy`; as medidas e dimensões são
+ * selecionadas como campos e as dimensões de tempo com a granularidade como subcampo.
+ * O `dateRange` das dimensões de tempo vira um filtro `inDateRange` combinado ao `where` do cube.
+ * 
+ * @param cubes Seleções por nome do cube
+ * @param encode Codificação dos valores de filtro (padrão: `toGraphQLLiteral`)
+ * @returns String formatada com os cubes no formato GraphQL
+ * @throws `ApiRequestError` (código `CUBE_QUERY_INVALID`) para nomes, direções, granularidades ou valores inválidos
+ * 
+ * @example
+ * ```typescript
+ * const result = buildCubeSelections({
+ *   vendas: {
+ *     measures: ['total'],
+ *     dimensions: ['status'],
+ *     timeDimensions: [{ dimension: 'criadoEm', granularity: 'month' }],
+ *     orderBy: { total: 'desc' }
+ *   }
+ * })
+ * // Resultado:
+ * //     vendas(orderBy: {total: desc}) {
+ * //       total
+ * //       status
+ * //       criadoEm {
+ * //         month
+ * //       }
+ * //     }
+ * ```
+ */
+export function buildCubeSelections(
+  cubes: Record<string, CubeSelection> = {},
+  encode: ValueEncoder = toGraphQLLiteral,
+): string {
+  const members: Record<string, string[]> = {}
+  const args: Record<string, string> = {}
+
+  for (const [cube, selection] of Object.entries(cubes)) {
+    const where = withDateRanges<CubeMemberWhere>(
+      selection.where,
+      selection.timeDimensions,
+      ({ dimension }, filter) => ({ [dimension]: filter })
+    )
+    const orderBy = buildOrderBy(selection.orderBy)
+    args[cube] = [where && `where: ${buildLogicalWhere(where, memberLevel(cube), encode)}`, orderBy && `orderBy: {${orderBy}}`]
+      .filter(Boolean)
+      .join(', ')
+
+    members[cube] = [
+      ...(selection.measures || []).map(assertIdentifier),
+      ...(selection.dimensions || []).map(assertIdentifier),
+      ...(selection.timeDimensions || []).map(buildTimeDimension),
+    ]
+  }
+
+  return buildEntityBlocks(members, args)
 }
 
 /**
@@ -120,7 +855,14 @@ export function buildWhereClause(where: CubeQueryWhere = {}): string {
  * @param options.fields Campos a serem retornados
  * @param options.defaultEntity Entidade padrão para consulta
  * @param options.defaultFields Campos padrão a serem retornados
- * @returns String da query GraphQL formatada
+ * @param options.cubes Cubes com medidas, dimensões, dimensões de tempo, filtros e ordenação
+ * @param options.orderBy Ordenação por entidade e campo
+ * @param options.timeDimensions Dimensões de tempo das entidades de `fields` (granularidade, `dateRange`, `compareDateRange`)
+ * @param options.timezone Fuso horário das dimensões de tempo
+ * @param options.renewQuery Ignora o cache do Cube
+ * @param options.ungrouped Retorna as linhas sem agregação
+ * @returns String da query GraphQL formatada, com os valores dos filtros como literais
+ * @throws `ApiRequestError` (código `CUBE_QUERY_INVALID`) para nomes ou valores inválidos
  * 
  * @example
  * ```typescript
@@ -129,7 +871,7 @@ export function buildWhereClause(where: CubeQueryWhere = {}): string {
  *   offset: 0,
  *   where: {
  *     vendas: {
- *       total: { greaterThan: 1000 },
+ *       total: { gt: 1000 },
  *       status: { in: ['APROVADA', 'CONCLUIDA'] }
  *     }
  *   },
@@ -151,7 +893,7 @@ export function buildWhereClause(where: CubeQueryWhere = {}): string {
  * //     offset: 0
  * //     where: {
  * //       vendas: {
- * //         total: { greaterThan: 1000 },
+ * //         total: { gt: 1000 },
  * //         status: { in: ["APROVADA", "CONCLUIDA"] }
  * //       }
  * //     }
@@ -166,25 +908,373 @@ export function buildWhereClause(where: CubeQueryWhere = {}): string {
  * ```
  */
 export function buildCubeQuery(options: CubeQueryOptions = {}): string {
-  const { limit, offset, where, fields, defaultEntity, defaultFields } = options
-  const whereClause = buildWhereClause(where)
-  const selectedFields = buildFields(fields)
+  return renderCubeQuery(options, toGraphQLLiteral)
+}
+
+/**
+ * Constrói a operação GraphQL do Cube com os valores dos filtros em variáveis tipadas.
+ * Nenhum valor informado pelo usuário é interpolado no documento: cada valor vira uma variável
+ * (`$v0: String`, `$v1: [Float]`...) enviada em `variables`, e os nomes são validados como identificadores.
+ * Apenas os valores de `cubeEnum`, já validados, são emitidos no documento, sem aspas.
+ * É a forma usada pelo `CubeGraphQLClient`.
+ * 
+ * O tipo de cada variável segue o operador, como no schema do Cube (`contains` → `String`,
+ * `gt` → `Float`, `set` → `Boolean`). Em `equals`, `notEquals`, `in` e `notIn`, ele vem do tipo do membro
+ * informado por `memberKind` (ex.: `equals: 123` em um membro `string` declara `String` e envia `'123'`);
+ * sem `memberKind`, vem do próprio valor.
+ * 
+ * @param options Opções da query (as mesmas de `buildCubeQuery`)
+ * @param memberKind Tipo de cada membro, pelo nome completo (opcional; o `CubeGraphQLClient` usa o `schema`, quando configurado)
+ * @returns Documento e variáveis da operação
+ * @throws `ApiRequestError` (código `CUBE_QUERY_INVALID`) para nomes ou valores inválidos
+ * 
+ * @example
+ * ```typescript
+ * const { query, variables } = buildCubeOperation({
+ *   where: { vendas: { status: { in: ['APROVADA', 'CONCLUIDA'] } } },
+ *   fields: { vendas: { total: true } }
+ * })
+ * // query CubeQuery($v0: [String]) { cube(where: {vendas: {status: {in: $v0}}}) { vendas { total } } }
+ * // variables: { v0: ['APROVADA', 'CONCLUIDA'] }
+ * 
+ * await client.query(query, variables)
+ * ```
+ */
+export function buildCubeOperation(
+  options: CubeQueryOptions = {},
+  memberKind?: CubeMemberKindResolver,
+): { query: string; variables: Record<string, unknown> } {
+  const { encode, variables, definitions } = createVariableEncoder(memberKind)
+  const query = renderCubeQuery(options, encode, definitions)
+  return { query, variables }
+}
+
+/**
+ * Monta o documento da consulta Cube com a codificação de valores informada.
+ * As definições de variáveis são lidas depois de montar o corpo, quando já foram todas registradas.
+ * @internal
+ */
+function renderCubeQuery(options: CubeQueryOptions, encode: ValueEncoder, definitions: string[] = []): string {
+  const comparisons = expandCompareDateRanges(options)
+  const body = comparisons
+    ? comparisons.map((comparison, index) => renderCubeField(comparison, encode, `compare${index}`)).join('\n')
+    : renderCubeField(options, encode)
+
+  return `
+    query CubeQuery${definitions.length ? `(${definitions.join(', ')})` : ''} {
+${body}
+    }
+  `.trim()
+}
 
-  const limitClause = limit ? `limit: ${limit}` : ''
-  const offsetClause = offset ? `offset: ${offset}` : ''
-  const params = [limitClause, offsetClause, whereClause]
+/**
+ * Monta o campo raiz `cube` com seus argumentos e seleções.
+ * @internal
+ */
+function renderCubeField(options: CubeQueryOptions, encode: ValueEncoder, alias?: string): string {
+  const { limit, offset, fields, defaultEntity, defaultFields, cubes, timeDimensions = [] } = options
+  const { timezone, renewQuery, ungrouped } = options
+
+  const where = withDateRanges<CubeQueryWhere>(options.where, timeDimensions, (timeDimension, filter) => ({
+    [(timeDimension as CubeQueryTimeDimension).entity]: { [timeDimension.dimension]: filter },
+  }))
+  const orderBy = Object.entries(options.orderBy || {})
+    .map(([entity, members]) => `${assertIdentifier(entity)}: {${buildOrderBy(members)}}`)
+    .join(', ')
+
+  if (timezone !== undefined && typeof timezone !== 'string') {
+    throw invalidCubeQuery('"timezone" deve ser uma string', { timezone })
+  }
+  for (const [name, value] of Object.entries({ renewQuery, ungrouped })) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw invalidCubeQuery(`"${name}" deve ser um booleano`, { [name]: value })
+    }
+  }
+
+  const params = [
+    limit ? `limit: ${assertCount('limit', limit)}` : '',
+    offset ? `offset: ${assertCount('offset', offset)}` : '',
+    buildWhereClause(where, encode),
+    orderBy && `orderBy: {${orderBy}}`,
+    timezone !== undefined ? `timezone: ${encode(timezone)}` : '',
+    renewQuery !== undefined ? `renewQuery: ${encode(renewQuery)}` : '',
+    ungrouped !== undefined ? `ungrouped: ${encode(ungrouped)}` : '',
+  ]
     .filter(Boolean)
     .join('\n        ')
 
+  const members = fieldMembers(fields)
+  for (const timeDimension of timeDimensions) {
+    const entity = assertIdentifier(timeDimension.entity)
+    members[entity] = [...(members[entity] || []), buildTimeDimension(timeDimension)]
+  }
+  const selectedFields = [buildEntityBlocks(members), buildCubeSelections(cubes, encode)].filter(Boolean).join('\n')
+
   const defaultFieldsString = defaultFields
-    ? `    ${defaultEntity} {\n      ${defaultFields.join('\n      ')}\n    }`
+    ? `    ${assertIdentifier(defaultEntity || '')} {\n      ${defaultFields.map(assertIdentifier).join('\n      ')}\n    }`
     : ''
 
   return `
-    query CubeQuery {
-      cube${params ? `(\n        ${params}\n      )` : ''} {
+      ${alias ? `${assertIdentifier(alias)}: ` : ''}cube${params ? `(\n        ${params}\n      )` : ''} {
 ${selectedFields || defaultFieldsString}
+      }`.slice(1)
+}
+
+/**
+ * Desdobra a consulta em uma variante por intervalo de `compareDateRange`,
+ * substituindo o `dateRange` da dimensão de tempo comparada.
+ * @returns Variantes da consulta, ou `undefined` se não houver comparação
+ * @internal
+ */
+function expandCompareDateRanges(options: CubeQueryOptions): CubeQueryOptions[] | undefined {
+  const cubes = options.cubes || {}
+  const comparing = [
+    ...(options.timeDimensions || []),
+    ...Object.values(cubes).flatMap((selection) => selection.timeDimensions || []),
+  ].filter((timeDimension) => timeDimension.compareDateRange)
+
+  if (comparing.length === 0) {
+    return undefined
+  }
+  if (comparing.length > 1) {
+    throw invalidCubeQuery('Apenas uma dimensão de tempo por consulta pode usar "compareDateRange"')
+  }
+
+  const target = comparing[0]
+  if (!Array.isArray(target.compareDateRange) || target.compareDateRange.length === 0) {
+    throw invalidCubeQuery(`"compareDateRange" de "${target.dimension}" deve ser uma lista de intervalos`, {
+      compareDateRange: target.compareDateRange,
+    })
+  }
+
+  return target.compareDateRange.map((dateRange) => {
+    const replace = <D extends CubeTimeDimension>(timeDimensions?: D[]) =>
+      timeDimensions?.map((timeDimension) =>
+        timeDimension === target ? { ...timeDimension, dateRange, compareDateRange: undefined } : timeDimension
+      )
+
+    return {
+      ...options,
+      timeDimensions: replace(options.timeDimensions),
+      cubes: options.cubes && Object.fromEntries(
+        Object.entries(cubes).map(([cube, selection]) => [
+          cube,
+          { ...selection, timeDimensions: replace(selection.timeDimensions) },
+        ])
+      ),
+    }
+  })
+}
+
+/**
+ * Interpreta o array `errors` de uma resposta GraphQL.
+ * Entradas sem `message` recebem uma mensagem genérica e campos fora da especificação
+ * são descartados, exceto `extensions`.
+ * 
+ * @param value Valor do campo `errors` da resposta
+ * @returns Erros normalizados, ou `undefined` se não houver erros
+ * 
+ * @example
+ * ```typescript
+ * parseGraphQLErrors([{ message: 'Não autorizado', path: ['usuario'], extensions: { code: 'FORBIDDEN' } }])
+ * // [{ message: 'Não autorizado', path: ['usuario'], extensions: { code: 'FORBIDDEN' } }]
+ * ```
+ */
+export function parseGraphQLErrors(value: unknown): GraphQLErrorItem[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined
+  }
+
+  return value.map((item) => {
+    const error = (item && typeof item === 'object' ? item : {}) as Partial<GraphQLErrorItem>
+    const parsed: GraphQLErrorItem = {
+      message: typeof error.message === 'string' ? error.message : 'Erro desconhecido na operação GraphQL',
+    }
+    if (Array.isArray(error.locations)) {
+      parsed.locations = error.locations
+    }
+    if (Array.isArray(error.path)) {
+      parsed.path = error.path
+    }
+    if (error.extensions && typeof error.extensions === 'object') {
+      parsed.extensions = error.extensions
+    }
+    return parsed
+  })
+}
+
+/**
+ * Definição de nível superior de um documento GraphQL, com sua posição no texto original.
+ * @internal
+ */
+interface DocumentDefinition {
+  header: string
+  /** Texto da definição com comentários e strings mascarados */
+  body: string
+  start: number
+  end: number
+}
+
+/**
+ * Separa as definições de nível superior (operações e fragmentos) de um documento.
+ * Comentários e strings são mascarados antes da análise para que chaves e palavras-chave
+ * dentro deles sejam ignoradas.
+ * @internal
+ */
+function splitDefinitions(document: string): DocumentDefinition[] {
+  const masked = document.replace(/"""[\s\S]*?"""|"(?:\\.|[^"\\\n])*"|#[^\n\r]*/g, (match) =>
+    ' '.repeat(match.length)
+  )
+  const definitions: DocumentDefinition[] = []
+  let depth = 0
+  let parens = 0
+  let start = 0
+  let header = ''
+
+  for (let index = 0; index < masked.length; index++) {
+    const char = masked[index]
+    if (depth === 0 && char === '(') parens++
+    if (depth === 0 && char === ')') parens--
+
+    if (char === '{' && parens === 0) {
+      depth++
+    } else if (char === '}' && parens === 0) {
+      depth--
+      if (depth === 0) {
+        definitions.push({ header: header.trim(), body: masked.slice(start, index + 1), start, end: index + 1 })
+        start = index + 1
+        header = ''
       }
+    } else if (depth === 0) {
+      header += char
     }
-  `.trim()
-} 
\ No newline at end of file
+  }
+
+  return definitions
+}
+
+/**
+ * Analisa um documento GraphQL e lista suas operações, fragmentos e spreads de fragmentos.
+ * É uma análise leve, sem validar o documento contra o schema.
+ * 
+ * @param document Documento GraphQL
+ * @returns Operações, fragmentos definidos e fragmentos referenciados
+ * 
+ * @example
+ * ```typescript
+ * analyzeDocument(`
+ *   query ListarPautas { pautas { ...CamposPauta } }
+ *   fragment CamposPauta on Pauta { id titulo }
+ * `)
+ * // {
+ * //   operations: [{ type: 'query', name: 'ListarPautas' }],
+ * //   fragments: ['CamposPauta'],
+ * //   spreads: ['CamposPauta']
+ * // }
+ * ```
+ */
+export function analyzeDocument(document: string): GraphQLDocumentInfo {
+  const info: GraphQLDocumentInfo = { operations: [], fragments: [], spreads: [] }
+
+  for (const definition of splitDefinitions(document)) {
+    const fragment = definition.header.match(/^fragment\s+([_A-Za-z]\w*)/)
+    const operation = definition.header.match(/^(query|mutation|subscription)\b\s*([_A-Za-z]\w*)?/)
+
+    if (fragment) {
+      info.fragments.push(fragment[1])
+    } else if (operation) {
+      info.operations.push({ type: operation[1] as GraphQLOperationType, name: operation[2] })
+    } else if (!definition.header) {
+      info.operations.push({ type: 'query' })
+    }
+
+    for (const [, name] of definition.body.matchAll(/\.\.\.\s*(?!on\b)([_A-Za-z]\w*)/g)) {
+      if (!info.spreads.includes(name)) {
+        info.spreads.push(name)
+      }
+    }
+  }
+
+  return info
+}
+
+/**
+ * Verifica, antes do envio, se a operação escolhida e os fragmentos usados existem no documento.
+ * 
+ * @param document Documento GraphQL
+ * @param operationName Nome da operação a ser executada (obrigatório se houver várias)
+ * @returns Lista de problemas encontrados (vazia se o documento puder ser enviado)
+ * 
+ * @example
+ * ```typescript
+ * validateDocument('query A { a } query B { b }')
+ * // ['O documento possui mais de uma operação; informe operationName']
+ * ```
+ */
+export function validateDocument(document: string, operationName?: string): string[] {
+  const { operations, fragments, spreads } = analyzeDocument(document)
+  const problems: string[] = []
+
+  if (operations.length === 0) {
+    problems.push('O documento não possui operações')
+  } else if (operationName) {
+    if (!operations.some((operation) => operation.name === operationName)) {
+      problems.push(`Operação "${operationName}" não encontrada no documento`)
+    }
+  } else if (operations.length > 1) {
+    problems.push('O documento possui mais de uma operação; informe operationName')
+  }
+
+  for (const spread of spreads) {
+    if (!fragments.includes(spread)) {
+      problems.push(`Fragmento "${spread}" não definido no documento`)
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Template tag para compor documentos GraphQL com fragmentos reutilizáveis.
+ * Os valores interpolados (normalmente outros documentos criados com `gql`) são
+ * concatenados e fragmentos repetidos são mantidos uma única vez.
+ * 
+ * @returns Documento GraphQL como string, pronto para `query`/`mutate`
+ * 
+ * @example
+ * ```typescript
+ * const CAMPOS_PAUTA = gql`
+ *   fragment CamposPauta on Pauta { id titulo status }
+ * `
+ * 
+ * const PAINEL = gql`
+ *   query ListarPautas { pautas { ...CamposPauta } }
+ *   query BuscarPauta($id: ID!) { pauta(id: $id) { ...CamposPauta votos } }
+ *   ${CAMPOS_PAUTA}
+ * `
+ * 
+ * await client.query(PAINEL, { id: '1' }, { operationName: 'BuscarPauta' })
+ * ```
+ */
+export function gql(strings: TemplateStringsArray, ...values: unknown[]): string {
+  const document = strings.reduce(
+    (result, part, index) => result + part + (index < values.length ? String(values[index]) : ''),
+    ''
+  )
+
+  const seenFragments = new Set<string>()
+  return splitDefinitions(document)
+    .filter(({ header }) => {
+      const fragment = header.match(/^fragment\s+([_A-Za-z]\w*)/)
+      if (!fragment) {
+        return true
+      }
+      if (seenFragments.has(fragment[1])) {
+        return false
+      }
+      seenFragments.add(fragment[1])
+      return true
+    })
+    .map(({ start, end }) => document.slice(start, end).trim())
+    .join('\n\n')
+}
@@ -0,0 +1,69 @@
+import { parseGraphQLErrors } from './graphqlHelpers'
+
+/**
+ * Código do erro retornado quando o servidor não conhece o hash enviado.
+ */
+export const PERSISTED_QUERY_NOT_FOUND = 'PERSISTED_QUERY_NOT_FOUND'
+
+/**
+ * Código do erro retornado quando o servidor não suporta persisted queries.
+ */
+export const PERSISTED_QUERY_NOT_SUPPORTED = 'PERSISTED_QUERY_NOT_SUPPORTED'
+
+/**
+ * Mensagens usadas por servidores que não preenchem `extensions.code`.
+ * @internal
+ */
+const PERSISTED_QUERY_MESSAGES: Record<string, string> = {
+  PersistedQueryNotFound: PERSISTED_QUERY_NOT_FOUND,
+  PersistedQueryNotSupported: PERSISTED_QUERY_NOT_SUPPORTED,
+}
+
+/**
+ * Normaliza os espaços de um documento para a busca no manifesto.
+ * @internal
+ */
+export function normalizeDocument(document: string): string {
+  return document.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Calcula o hash SHA-256 (hexadecimal) de um documento com a Web Crypto API.
+ * 
+ * @param document Documento GraphQL
+ * @returns Hash em hexadecimal, ou `undefined` se a Web Crypto API não estiver disponível
+ * @internal
+ */
+export async function sha256(document: string): Promise<string | undefined> {
+  const subtle = (globalThis as { crypto?: Crypto }).crypto?.subtle
+  if (!subtle || typeof TextEncoder === 'undefined') {
+    return undefined
+  }
+
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(document))
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Identifica as respostas de erro do protocolo de persisted queries.
+ * 
+ * @param body Corpo da resposta GraphQL
+ * @returns `PERSISTED_QUERY_NOT_FOUND`, `PERSISTED_QUERY_NOT_SUPPORTED` ou `undefined`
+ * @internal
+ */
+export function getPersistedQueryError(body: unknown): string | undefined {
+  const errors = parseGraphQLErrors((body as { errors?: unknown } | null | undefined)?.errors) || []
+
+  for (const error of errors) {
+    const code = error.extensions?.code
+    if (code === PERSISTED_QUERY_NOT_FOUND || code === PERSISTED_QUERY_NOT_SUPPORTED) {
+      return code
+    }
+    if (PERSISTED_QUERY_MESSAGES[error.message]) {
+      return PERSISTED_QUERY_MESSAGES[error.message]
+    }
+  }
+  return undefined
+}
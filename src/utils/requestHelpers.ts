@@ -0,0 +1,239 @@
+import { ApiError, ApiResponse, RequestCallbacks } from '../types/types'
+import { isCancelledError } from './cancellation'
+
+/**
+ * Verifica se um objeto é um conjunto de callbacks de requisição.
+ * Usado pelos métodos que aceitam parâmetros ou callbacks na mesma posição.
+ * 
+ * @param value Objeto a ser verificado
+ * @returns `true` se o objeto possuir `onSuccess`, `onError` ou `onCancel`
+ * @internal
+ */
+export function isRequestCallbacks<T>(value: unknown): value is RequestCallbacks<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    ('onSuccess' in value || 'onError' in value || 'onCancel' in value)
+  )
+}
+
+/**
+ * Verifica se um valor é uma `ApiResponse`.
+ * Usado para identificar quando um interceptador de requisição encerra a requisição
+ * com uma resposta sintética em vez de retornar a configuração.
+ * 
+ * @param value Valor retornado pelo interceptador
+ * @returns `true` se o valor possuir `data`, `status` e `message`
+ * @internal
+ */
+export function isApiResponse(value: unknown): value is ApiResponse<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'data' in value &&
+    'status' in value &&
+    'message' in value
+  )
+}
+
+/**
+ * Verifica se um valor já é um erro padronizado (`ApiError`).
+ * Usado para preservar erros produzidos pelo pipeline, inclusive os objetos simples
+ * retornados por interceptadores de erro.
+ * 
+ * @param value Valor capturado
+ * @returns `true` se o valor possuir `message` e `status` e não for uma `ApiResponse`
+ * @internal
+ */
+export function isApiError(value: unknown): value is ApiError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ApiError).message === 'string' &&
+    typeof (value as ApiError).status === 'number' &&
+    !('data' in value)
+  )
+}
+
+/**
+ * Entrega o resultado de uma requisição no estilo escolhido pelo chamador.
+ * Sem callbacks, a promise é devolvida como está: resolve com a `ApiResponse`
+ * e rejeita com o `ApiError`. Com callbacks, o resultado é encaminhado para
+ * `onSuccess`/`onError` (ou `onCancel`, em cancelamentos) e a promise resolve sem valor.
+ * 
+ * @param promise Promise da requisição em andamento
+ * @param callbacks Callbacks de sucesso e erro (opcional)
+ * @returns A resposta padronizada ou `void` quando há callbacks
+ * @internal
+ */
+export async function settle<T>(
+  promise: Promise<ApiResponse<T>>,
+  callbacks?: RequestCallbacks<T>,
+): Promise<ApiResponse<T> | void> {
+  if (!callbacks) {
+    return promise
+  }
+
+  let response: ApiResponse<T>
+  try {
+    response = await promise
+  } catch (error) {
+    if (isCancelledError(error) && callbacks.onCancel) {
+      callbacks.onCancel(error)
+    } else {
+      callbacks.onError?.(error as ApiError)
+    }
+    return
+  }
+
+  callbacks.onSuccess?.(response)
+}
+
+/**
+ * Separa callbacks e opções de requisição informados na mesma posição.
+ * Usado pelos métodos GraphQL, que aceitam `callbacks` seguidos de `options`
+ * ou apenas `options` quando chamados no estilo de promise.
+ * 
+ * @param callbacksOrOptions Callbacks ou opções da requisição
+ * @param options Opções da requisição quando o argumento anterior são callbacks
+ * @returns Tupla com os callbacks (se houver) e as opções
+ * @internal
+ */
+export function splitCallbacks<T, O>(
+  callbacksOrOptions?: RequestCallbacks<T> | O,
+  options?: O,
+): [RequestCallbacks<T> | undefined, O | undefined] {
+  if (isRequestCallbacks<T>(callbacksOrOptions)) {
+    return [callbacksOrOptions, options]
+  }
+  return [undefined, callbacksOrOptions as O | undefined]
+}
+
+/**
+ * Propaga o cancelamento de um `AbortSignal` externo para um `AbortController` interno.
+ * 
+ * @param controller Controller interno da requisição
+ * @param signal Signal informado pelo chamador (opcional)
+ * @returns Função que remove o vínculo entre os dois
+ * @internal
+ */
+export function linkAbortSignal(controller: AbortController, signal?: AbortSignal): () => void {
+  if (!signal) {
+    return () => undefined
+  }
+
+  if (signal.aborted) {
+    controller.abort(signal.reason)
+    return () => undefined
+  }
+
+  const onAbort = () => controller.abort(signal.reason)
+  signal.addEventListener('abort', onAbort, { once: true })
+  return () => signal.removeEventListener('abort', onAbort)
+}
+
+/**
+ * Normaliza o caminho de uma URL, removendo a barra final.
+ * @internal
+ */
+function normalizePath(url: string): string {
+  return url.length > 1 ? url.replace(/\/+$/, '') : url
+}
+
+/**
+ * Monta a chave que identifica uma requisição a partir da URL e dos parâmetros de query.
+ * Os parâmetros são ordenados e os valores `undefined` descartados, de forma que
+ * `{ page: 1, status: 'ativo' }` e `{ status: 'ativo', page: 1 }` geram a mesma chave.
+ * 
+ * @param url Caminho da requisição
+ * @param params Parâmetros de query string (opcional)
+ * @returns Chave no formato `/caminho?a=1&b=2`
+ * 
+ * @example
+ * ```typescript
+ * buildRequestKey('/agendas/', { status: 'ativo', page: 1, q: undefined })
+ * // '/agendas?page=1&status=ativo'
+ * ```
+ */
+export function buildRequestKey(url = '', params?: Record<string, unknown>): string {
+  const [path, search] = url.split('?')
+  const entries = new URLSearchParams(search)
+  const query: [string, string][] = Array.from(entries.entries())
+
+  for (const [key, value] of Object.entries(params || {})) {
+    if (value !== undefined) {
+      query.push([key, String(value)])
+    }
+  }
+
+  const normalizedQuery = query
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&')
+
+  return normalizedQuery ? `${normalizePath(path)}?${normalizedQuery}` : normalizePath(path)
+}
+
+/**
+ * Serializa um valor em JSON com as chaves dos objetos ordenadas,
+ * de forma que objetos equivalentes gerem sempre o mesmo texto.
+ * 
+ * @param value Valor a ser serializado
+ * @returns JSON com chaves ordenadas
+ * @internal
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, current: unknown) => {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) {
+      return current
+    }
+    return Object.keys(current)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = (current as Record<string, unknown>)[key]
+        return sorted
+      }, {})
+  })
+}
+
+/**
+ * Cria uma cópia profunda dos dados de uma resposta, para que chamadores que
+ * compartilham a mesma requisição não alterem os dados uns dos outros.
+ * Usa `structuredClone` quando disponível e JSON como alternativa.
+ * 
+ * @param value Dados da resposta
+ * @returns Cópia independente dos dados
+ * @internal
+ */
+export function cloneData<T>(value: T): T {
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if (typeof structuredClone === 'function') {
+    return structuredClone(value)
+  }
+  return JSON.parse(JSON.stringify(value)) as T
+}
+
+/**
+ * Extrai a URL da próxima página de um header `Link` (RFC 8288).
+ * 
+ * @param header Valor do header `Link` (opcional)
+ * @returns URL com `rel="next"`, ou `undefined` se não houver próxima página
+ * @internal
+ * 
+ * @example
+ * ```typescript
+ * getNextLink('<https://api.exemplo.com/itens?page=3>; rel="next", <https://api.exemplo.com/itens?page=9>; rel="last"')
+ * // 'https://api.exemplo.com/itens?page=3'
+ * ```
+ */
+export function getNextLink(header?: string): string | undefined {
+  for (const [, url, attributes] of (header || '').matchAll(/<([^>]*)>([^<]*)/g)) {
+    const rel = /;\s*rel\s*=\s*"?([^";,]+)"?/i.exec(attributes)?.[1]
+    if (rel?.toLowerCase().split(/\s+/).includes('next')) {
+      return url
+    }
+  }
+  return undefined
+}
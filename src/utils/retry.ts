@@ -0,0 +1,183 @@
+import axios, { CanceledError } from 'axios'
+import { RetryPolicy } from '../types/types'
+
+/**
+ * Valores padrão da política de retentativa.
+ * Aplicados quando a política do cliente ou da requisição não informa um campo.
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  retryOnStatus: [502, 503, 504],
+  retryOnCodes: ['ERR_NETWORK', 'ECONNABORTED', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT'],
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  respectRetryAfter: true,
+}
+
+/**
+ * Combina a política do cliente com a política da requisição.
+ * 
+ * @param clientPolicy Política configurada no cliente
+ * @param requestPolicy Política informada na requisição
+ * @returns Política completa ou `undefined` quando as retentativas estão desativadas
+ * 
+ * @example
+ * ```typescript
+ * resolveRetryPolicy({ maxAttempts: 5 }, { baseDelay: 1000 })
+ * // { ...DEFAULT_RETRY_POLICY, maxAttempts: 5, baseDelay: 1000 }
+ * 
+ * resolveRetryPolicy({ maxAttempts: 5 }, false)
+ * // undefined
+ * ```
+ */
+export function resolveRetryPolicy(
+  clientPolicy?: RetryPolicy | false,
+  requestPolicy?: RetryPolicy | false,
+): Required<RetryPolicy> | undefined {
+  if (requestPolicy === false || (!clientPolicy && !requestPolicy)) {
+    return undefined
+  }
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(clientPolicy || {}),
+    ...(requestPolicy || {}),
+  }
+}
+
+/**
+ * Verifica se um erro permite uma nova tentativa segundo a política.
+ * Requisições canceladas e métodos não listados em `methods` nunca são repetidos.
+ * 
+ * @param error Erro lançado pela requisição
+ * @param method Método HTTP da requisição
+ * @param policy Política de retentativa
+ * @returns `true` se a requisição pode ser repetida
+ */
+export function isRetryableError(
+  error: unknown,
+  method: string,
+  policy: Required<RetryPolicy>,
+): boolean {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return false
+  }
+
+  const methods = policy.methods.map((allowed) => allowed.toUpperCase())
+  if (!methods.includes(method.toUpperCase())) {
+    return false
+  }
+
+  if (error.response) {
+    return policy.retryOnStatus.includes(error.response.status)
+  }
+
+  return !!error.code && policy.retryOnCodes.includes(error.code)
+}
+
+/**
+ * Lê o header `Retry-After` (segundos ou data HTTP) e converte para milissegundos.
+ * @param value Valor do header
+ * @returns Atraso em milissegundos ou `undefined` se o header estiver vazio ou for inválido
+ * @internal
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined
+  }
+
+  const text = String(value).trim()
+  if (text === '') {
+    return undefined
+  }
+
+  const seconds = Number(text)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(text)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Calcula o atraso antes da próxima tentativa.
+ * Usa o header `Retry-After` quando disponível; caso contrário aplica
+ * backoff exponencial (`baseDelay * 2^(tentativa - 1)`) com jitter completo.
+ * O resultado é sempre limitado a `maxDelay`.
+ * 
+ * @param error Erro da tentativa anterior
+ * @param attempt Número da tentativa que falhou (começando em 1)
+ * @param policy Política de retentativa
+ * @returns Atraso em milissegundos
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: Required<RetryPolicy>,
+): number {
+  if (policy.respectRetryAfter && axios.isAxiosError(error)) {
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after'])
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, policy.maxDelay)
+    }
+  }
+
+  const delay = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay)
+  return policy.jitter ? Math.random() * delay : delay
+}
+
+/**
+ * Aguarda o atraso entre tentativas, rejeitando imediatamente se o signal for abortado.
+ * @param delay Atraso em milissegundos
+ * @param signal Signal de cancelamento (opcional)
+ * @internal
+ */
+export function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new CanceledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Executa uma operação repetindo-a conforme a política de retentativa.
+ * 
+ * @param operation Função que executa uma tentativa; recebe o número da tentativa
+ * @param method Método HTTP da requisição
+ * @param policy Política de retentativa (sem política, a operação é executada uma única vez)
+ * @param signal Signal que interrompe a espera entre tentativas (opcional)
+ * @returns Resultado da primeira tentativa bem-sucedida
+ * @throws O erro da última tentativa, ou `CanceledError` se cancelado durante a espera
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  method: string,
+  policy?: Required<RetryPolicy>,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      if (!policy || attempt >= policy.maxAttempts || !isRetryableError(error, method, policy)) {
+        throw error
+      }
+      await wait(getRetryDelay(error, attempt, policy), signal)
+    }
+  }
+}
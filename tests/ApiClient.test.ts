@@ -0,0 +1,34 @@
+import { ApiClient } from '../src/services/ApiClient'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+describe('ApiClient', () => {
+  let server: TestServer
+  let api: ApiClient
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => sendJson(response, 200, { recebido: request.body }))
+    api = new ApiClient({ baseURL: server.baseURL })
+  })
+
+  afterAll(() => server.close())
+
+  afterEach(() => api.clearInterceptors())
+
+  it.each([
+    ['0', 0],
+    ['false', false],
+  ])('envia o corpo %s definido por um interceptador', async (expected, data) => {
+    api.addRequestInterceptor((config) => ({ ...config, data }))
+
+    const response = await api.request<{ recebido: string }>({ url: '/eco', method: 'POST', data: { id: 1 } })
+
+    expect(response.data.recebido).toBe(expected)
+  })
+
+  it('envia corpos falsy pelos métodos de conveniência', async () => {
+    const response = await api.patch<{ recebido: string }>('/eco', 0)
+
+    expect(response.data.recebido).toBe('0')
+    expect(server.requests[server.requests.length - 1].method).toBe('PATCH')
+  })
+})
@@ -0,0 +1,153 @@
+import { AuthConfig, AuthTokens, TokenProvider } from '../src/types/types'
+import { ApiClient } from '../src/services/ApiClient'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+/**
+ * Provedor de tokens em memória.
+ */
+class MemoryTokenProvider implements TokenProvider {
+  cleared = 0
+
+  constructor(public tokens: AuthTokens | null) {}
+
+  getAccessToken() {
+    return this.tokens?.accessToken
+  }
+
+  getRefreshToken() {
+    return this.tokens?.refreshToken
+  }
+
+  setTokens(tokens: AuthTokens) {
+    this.tokens = tokens
+  }
+
+  clearTokens() {
+    this.cleared++
+    this.tokens = null
+  }
+}
+
+/**
+ * Promise resolvida manualmente pelo teste.
+ */
+function deferred<T = void>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((done) => (resolve = done))
+  return { promise, resolve }
+}
+
+describe('ApiClient com auth', () => {
+  let server: TestServer
+  let tokenProvider: MemoryTokenProvider
+
+  // Apenas o token 'novo' é aceito; '/refresh' não exige token
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      if (request.url === '/refresh') {
+        sendJson(response, 200, { accessToken: 'novo', refreshToken: 'r2' })
+      } else if (request.headers.authorization === 'Bearer novo') {
+        sendJson(response, 200, { url: request.url })
+      } else {
+        sendJson(response, 401, { message: 'Token expirado' })
+      }
+    })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+    tokenProvider = new MemoryTokenProvider({ accessToken: 'antigo', refreshToken: 'r1' })
+  })
+
+  afterAll(() => server.close())
+
+  const createClient = (auth: Partial<AuthConfig>) =>
+    new ApiClient({
+      baseURL: server.baseURL,
+      auth: {
+        tokenProvider,
+        refreshTokens: async () => ({ accessToken: 'novo', refreshToken: 'r2' }),
+        ...auth,
+      },
+    })
+
+  const authorizations = (url: string) =>
+    server.requests.filter((request) => request.url === url).map((request) => request.headers.authorization)
+
+  it('renova o token uma única vez para 401 simultâneos e repete cada requisição', async () => {
+    const refreshTokens = jest.fn(async () => ({ accessToken: 'novo', refreshToken: 'r2' }))
+    const api = createClient({ refreshTokens })
+
+    const responses = await Promise.all(['/a', '/b', '/c'].map((url) => api.get<{ url: string }>(url)))
+
+    expect(responses.map((response) => response.data.url)).toEqual(['/a', '/b', '/c'])
+    expect(refreshTokens).toHaveBeenCalledTimes(1)
+    expect(refreshTokens).toHaveBeenCalledWith('r1')
+    expect(authorizations('/a')).toEqual(['Bearer antigo', 'Bearer novo'])
+    expect(tokenProvider.tokens).toEqual({ accessToken: 'novo', refreshToken: 'r2' })
+  })
+
+  it('enfileira as requisições iniciadas durante a renovação até o novo token', async () => {
+    const started = deferred()
+    const release = deferred()
+    const api = createClient({
+      refreshTokens: async () => {
+        started.resolve()
+        await release.promise
+        return { accessToken: 'novo', refreshToken: 'r2' }
+      },
+    })
+
+    const first = api.get('/a')
+    await started.promise
+    const queued = api.get('/fila')
+    release.resolve()
+
+    await expect(Promise.all([first, queued])).resolves.toHaveLength(2)
+    expect(authorizations('/fila')).toEqual(['Bearer novo'])
+  })
+
+  it('remove os tokens e chama onAuthFailure uma vez quando a renovação falha', async () => {
+    const onAuthFailure = jest.fn()
+    const failure = new Error('Refresh token inválido')
+    const api = createClient({
+      refreshTokens: async () => {
+        throw failure
+      },
+      onAuthFailure,
+    })
+
+    const results = await Promise.allSettled([api.get('/a'), api.get('/b')])
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected'])
+    expect(results[0]).toMatchObject({ reason: { status: 401 } })
+    expect(onAuthFailure).toHaveBeenCalledTimes(1)
+    expect(onAuthFailure).toHaveBeenCalledWith(failure)
+    expect(tokenProvider.cleared).toBe(1)
+    expect(tokenProvider.tokens).toBeNull()
+  })
+
+  it('renova pelo mesmo cliente com skipAuth', async () => {
+    const api: ApiClient = createClient({
+      refreshTokens: async (refreshToken) =>
+        (await api.request<AuthTokens>({ url: '/refresh', method: 'POST', data: { refreshToken }, skipAuth: true })).data,
+    })
+
+    await expect(api.get('/a')).resolves.toMatchObject({ status: 200 })
+    expect(authorizations('/refresh')).toEqual([undefined])
+  })
+
+  it('não trava quando o refresh usa o mesmo cliente sem skipAuth', async () => {
+    const onAuthFailure = jest.fn()
+    const api: ApiClient = createClient({
+      refreshTimeout: 50,
+      refreshTokens: async (refreshToken) => (await api.post<AuthTokens>('/refresh', { refreshToken })).data,
+      onAuthFailure,
+    })
+
+    await expect(api.get('/a')).rejects.toMatchObject({ status: 401 })
+    expect(onAuthFailure).toHaveBeenCalledTimes(1)
+    expect(onAuthFailure.mock.calls[0][0]).toMatchObject({ message: expect.stringContaining('50ms') })
+    expect(tokenProvider.tokens).toBeNull()
+  })
+})
@@ -0,0 +1,86 @@
+import { CacheEntry, StorageLike } from '../src/types/types'
+import { StorageCacheStore } from '../src/services/CacheStore'
+import { ResponseCache } from '../src/services/ResponseCache'
+
+/**
+ * Storage assíncrono em memória; cada operação termina após um atraso diferente,
+ * para que leituras e gravações de chamadas simultâneas se intercalem.
+ */
+class DelayedStorage implements StorageLike {
+  items = new Map<string, string>()
+  writes: string[] = []
+  private calls = 0
+
+  private delay(): Promise<void> {
+    const ms = [5, 1, 3, 0, 4][this.calls++ % 5]
+    return new Promise((resolve) => setTimeout(resolve, ms))
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    await this.delay()
+    return this.items.get(key) ?? null
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.delay()
+    this.writes.push(key)
+    this.items.set(key, value)
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.delay()
+    this.items.delete(key)
+  }
+}
+
+const entry = (data: unknown): CacheEntry => ({
+  response: { data, status: 200, message: 'OK' },
+  storedAt: 0,
+  expiresAt: Infinity,
+  staleUntil: Infinity,
+})
+
+const INDEX_KEY = 'fn-api-cache:__keys'
+
+describe('StorageCacheStore', () => {
+  it('registra no índice todas as chaves gravadas simultaneamente', async () => {
+    const store = new StorageCacheStore(new DelayedStorage())
+    const keys = ['/ok', '/ok?b=1', '/ok?c=2', '/outro', '/ok/1']
+
+    await Promise.all(keys.map((key) => store.set(key, entry(key))))
+
+    expect((await store.keys()).sort()).toEqual([...keys].sort())
+  })
+
+  it('grava o índice uma única vez em deleteMany', async () => {
+    const storage = new DelayedStorage()
+    const store = new StorageCacheStore(storage)
+    await Promise.all(['/a', '/b', '/c'].map((key) => store.set(key, entry(key))))
+    storage.writes = []
+
+    await store.deleteMany(['/a', '/b'])
+
+    expect(storage.writes).toEqual([INDEX_KEY])
+    expect(await store.keys()).toEqual(['/c'])
+    expect(await store.get('/a')).toBeUndefined()
+  })
+
+  it('invalida todas as entradas do prefixo, mesmo durante gravações simultâneas', async () => {
+    const storage = new DelayedStorage()
+    const store = new StorageCacheStore(storage)
+    const cache = new ResponseCache({ store })
+    await Promise.all(['/ok', '/ok?b=1', '/ok/1'].map((key) => store.set(key, entry(key))))
+
+    await Promise.all([
+      cache.invalidate('/ok'),
+      store.set('/outro', entry('/outro')),
+      store.set('/mais', entry('/mais')),
+    ])
+
+    expect((await store.keys()).sort()).toEqual(['/mais', '/outro'])
+    expect(await store.get('/ok')).toBeUndefined()
+    expect(await store.get('/ok?b=1')).toBeUndefined()
+    expect(await store.get('/ok/1')).toBeUndefined()
+    expect(JSON.parse(storage.items.get(INDEX_KEY)!).sort()).toEqual(['/mais', '/outro'])
+  })
+})
@@ -0,0 +1,157 @@
+import { CubeQueryOptions } from '../src/types/graphql'
+import { ApiError } from '../src/types/types'
+import { CubeGraphQLClient } from '../src/services/CubeGraphQLClient'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+/**
+ * Remove a indentação de um documento GraphQL para comparações.
+ */
+const compact = (document: string) => document.replace(/\s+/g, ' ').trim()
+
+describe('CubeGraphQLClient', () => {
+  let server: TestServer
+  let reply: { status: number; body: unknown }
+
+  beforeAll(async () => {
+    server = await startTestServer((_request, response) => sendJson(response, reply.status, reply.body))
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+    reply = { status: 200, body: { data: { cube: [{ vendas: { total: 10 } }] } } }
+  })
+
+  afterAll(() => server.close())
+
+  const createClient = () => new CubeGraphQLClient({ baseURL: server.baseURL })
+  const lastBody = () => JSON.parse(server.requests[server.requests.length - 1].body)
+
+  it('envia uma única requisição ao endpoint informado e retorna as linhas de cube', async () => {
+    const response = await createClient().query('/cubejs-api/graphql', { cubes: { vendas: { measures: ['total'] } } })
+
+    expect(response.data).toEqual([{ vendas: { total: 10 } }])
+    expect(server.requests).toHaveLength(1)
+    expect(server.requests[0]).toMatchObject({ method: 'POST', url: '/cubejs-api/graphql' })
+  })
+
+  it('monta a consulta no formato do schema GraphQL do Cube', async () => {
+    await createClient().query('/cubejs-api/graphql', {
+      limit: 10,
+      cubes: {
+        vendas: {
+          measures: ['total', 'quantidade'],
+          dimensions: ['status'],
+          timeDimensions: [{ dimension: 'criadoEm', granularity: 'month' }],
+          orderBy: { total: 'desc' },
+        },
+      },
+    })
+
+    const query = compact(lastBody().query)
+    expect(query).toContain('cube( limit: 10 )')
+    expect(query).toContain('vendas(orderBy: {total: desc}) { total quantidade status criadoEm { month } }')
+  })
+
+  it('envia o dateRange das dimensões de tempo como filtro inDateRange', async () => {
+    await createClient().query('/cubejs-api/graphql', {
+      cubes: {
+        vendas: {
+          measures: ['total'],
+          timeDimensions: [{ dimension: 'criadoEm', dateRange: ['2024-01-01', '2024-12-31'] }],
+        },
+      },
+    })
+
+    expect(compact(lastBody().query)).toMatch(/vendas\(where: \{criadoEm: \{inDateRange: [^}]+\}\}\)/)
+  })
+
+  it('entrega falhas ao onError em vez de lançar', async () => {
+    reply = { status: 500, body: { message: 'Falha no Cube' } }
+    const onSuccess = jest.fn()
+    const error = await new Promise<ApiError>((resolve) => {
+      createClient().query('/cubejs-api/graphql', { cubes: { vendas: { measures: ['total'] } } }, { onSuccess, onError: resolve })
+    })
+
+    expect(error).toMatchObject({ status: 500, message: 'Falha no Cube' })
+    expect(onSuccess).not.toHaveBeenCalled()
+    expect(server.requests).toHaveLength(1)
+  })
+
+  describe('ordenação, dimensões de tempo e opções da consulta', () => {
+    it('envia orderBy, timeDimensions, timezone, renewQuery e ungrouped', async () => {
+      await createClient().query('/cubejs-api/graphql', {
+        fields: { vendas: { total: true, status: true } },
+        orderBy: { vendas: { total: 'desc' } },
+        timeDimensions: [{ entity: 'vendas', dimension: 'criadoEm', granularity: 'month', dateRange: 'last year' }],
+        timezone: 'America/Sao_Paulo',
+        renewQuery: true,
+        ungrouped: false,
+      })
+
+      const { query, variables } = lastBody()
+      expect(compact(query)).toContain(
+        'cube( where: {vendas: {criadoEm: {inDateRange: $v0}}} orderBy: {vendas: {total: desc}} ' +
+          'timezone: $v1 renewQuery: $v2 ungrouped: $v3 ) { vendas { total status criadoEm { month } } }'
+      )
+      expect(variables).toEqual({ v0: ['last year'], v1: 'America/Sao_Paulo', v2: true, v3: false })
+    })
+
+    it('consulta cada intervalo de compareDateRange e retorna os resultados na ordem dos intervalos', async () => {
+      reply = {
+        status: 200,
+        body: { data: { compare1: [{ vendas: { total: 5 } }], compare0: [{ vendas: { total: 10 } }] } },
+      }
+
+      const response = await createClient().query('/cubejs-api/graphql', {
+        cubes: {
+          vendas: {
+            measures: ['total'],
+            timeDimensions: [
+              { dimension: 'criadoEm', granularity: 'day', compareDateRange: [['2024-01-01', '2024-01-31'], 'last month'] },
+            ],
+          },
+        },
+      })
+
+      const { query, variables } = lastBody()
+      expect(compact(query)).toContain(
+        'compare0: cube { vendas(where: {criadoEm: {inDateRange: $v0}}) { total criadoEm { day } } } ' +
+          'compare1: cube { vendas(where: {criadoEm: {inDateRange: $v1}}) { total criadoEm { day } } }'
+      )
+      expect(variables).toEqual({ v0: ['2024-01-01', '2024-01-31'], v1: ['last month'] })
+      expect(response.data).toEqual([[{ vendas: { total: 10 } }], [{ vendas: { total: 5 } }]])
+      expect(server.requests).toHaveLength(1)
+    })
+
+    it.each([
+      [{ orderBy: { vendas: { total: 'up' } } }, 'Direção de ordenação inválida para "total": up'],
+      [
+        { timeDimensions: [{ entity: 'vendas', dimension: 'criadoEm', granularity: 'decade' }] },
+        'Granularidade inválida para "criadoEm": decade',
+      ],
+      [{ timezone: 3 }, '"timezone" deve ser uma string'],
+      [{ renewQuery: 'sim' }, '"renewQuery" deve ser um booleano'],
+      [
+        {
+          timeDimensions: [
+            { entity: 'vendas', dimension: 'criadoEm', compareDateRange: ['last month'] },
+            { entity: 'vendas', dimension: 'pagoEm', compareDateRange: ['last month'] },
+          ],
+        },
+        'Apenas uma dimensão de tempo por consulta pode usar "compareDateRange"',
+      ],
+      [
+        { timeDimensions: [{ entity: 'vendas', dimension: 'criadoEm', compareDateRange: 'last month' }] },
+        '"compareDateRange" de "criadoEm" deve ser uma lista de intervalos',
+      ],
+    ])('rejeita opções inválidas sem acessar a rede (%#)', async (options, message) => {
+      const invalid = { fields: { vendas: { total: true } }, ...options } as unknown as CubeQueryOptions
+
+      await expect(createClient().query('/cubejs-api/graphql', invalid)).rejects.toMatchObject({
+        code: 'CUBE_QUERY_INVALID',
+        message,
+      })
+      expect(server.requests).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,170 @@
+import { ApiClient } from '../src/services/ApiClient'
+import { CubeRestClient } from '../src/services/CubeRestClient'
+import { CancelledError, HttpError, ParseError, TimeoutError } from '../src/utils/errors'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+describe('CubeRestClient', () => {
+  const QUERY = { measures: ['vendas.total'], dimensions: ['vendas.status'] }
+  const annotation = {
+    measures: { 'vendas.total': { title: 'Total', type: 'number' } },
+    dimensions: {},
+    segments: {},
+    timeDimensions: {},
+  }
+  let server: TestServer
+  let pendingWaits: number
+  let replies: Record<string, { status: number; body: unknown }>
+
+  // Responde "Continue wait" enquanto houver esperas pendentes e depois a resposta configurada para o caminho
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const path = request.url.split('?')[0].replace('/cubejs-api/v1', '')
+      if (pendingWaits > 0 && path !== '/meta') {
+        pendingWaits--
+        sendJson(response, 200, { error: 'Continue wait' })
+        return
+      }
+      const reply = replies[path] || { status: 404, body: { error: `Caminho ${path} inexistente` } }
+      sendJson(response, reply.status, reply.body)
+    })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+    pendingWaits = 0
+    replies = {
+      '/load': {
+        status: 200,
+        body: {
+          queryType: 'regularQuery',
+          results: [{ query: QUERY, data: [{ 'vendas.total': '10', 'vendas.status': 'PAGO' }], annotation }],
+          slowQuery: false,
+        },
+      },
+      '/sql': { status: 200, body: { sql: { sql: ['SELECT 1', []] } } },
+      '/dry-run': { status: 200, body: { queryType: 'regularQuery', normalizedQueries: [QUERY], pivotQuery: QUERY } },
+      '/meta': { status: 200, body: { cubes: [] } },
+    }
+  })
+
+  afterAll(() => server.close())
+
+  const createClient = (continueWait = { interval: 5, timeout: 1000 }) =>
+    new CubeRestClient({ baseURL: `${server.baseURL}/cubejs-api/v1`, continueWait })
+
+  it('envia a consulta a /load e normaliza o resultado', async () => {
+    const response = await createClient().load(QUERY)
+
+    expect(response.data).toMatchObject({
+      queryType: 'regularQuery',
+      data: [{ 'vendas.total': '10', 'vendas.status': 'PAGO' }],
+      annotation,
+      slowQuery: false,
+    })
+    expect(response.data.results).toHaveLength(1)
+    expect(server.requests[0]).toMatchObject({ method: 'POST', url: '/cubejs-api/v1/load' })
+    expect(JSON.parse(server.requests[0].body)).toEqual({ query: QUERY, queryType: 'multi' })
+  })
+
+  it('aceita o corpo de uma única consulta, sem results', async () => {
+    replies['/load'] = { status: 200, body: { query: QUERY, data: [{ 'vendas.total': '5' }], annotation } }
+
+    const response = await createClient().load(QUERY)
+
+    expect(response.data).toMatchObject({ queryType: 'regularQuery', data: [{ 'vendas.total': '5' }] })
+    expect(response.data.results).toHaveLength(1)
+  })
+
+  it('rejeita com ParseError quando o corpo não traz resultados', async () => {
+    replies['/load'] = { status: 200, body: { results: [] } }
+
+    await expect(createClient().load(QUERY)).rejects.toBeInstanceOf(ParseError)
+  })
+
+  it('envia a consulta na query string com method GET', async () => {
+    await createClient().load(QUERY, { method: 'GET' })
+
+    const url = new URL(server.requests[0].url, server.baseURL)
+    expect(server.requests[0].method).toBe('GET')
+    expect(JSON.parse(url.searchParams.get('query') || '')).toEqual(QUERY)
+    expect(url.searchParams.get('queryType')).toBe('multi')
+  })
+
+  it('consulta /sql, /dry-run e /meta', async () => {
+    const client = createClient()
+
+    await expect(client.sql(QUERY)).resolves.toMatchObject({ data: { sql: { sql: ['SELECT 1', []] } } })
+    await expect(client.dryRun(QUERY)).resolves.toMatchObject({ data: { normalizedQueries: [QUERY] } })
+    await expect(client.meta()).resolves.toMatchObject({ data: { cubes: [] } })
+    expect(server.requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'POST /cubejs-api/v1/sql',
+      'POST /cubejs-api/v1/dry-run',
+      'GET /cubejs-api/v1/meta',
+    ])
+  })
+
+  it('repete a requisição enquanto o Cube responde "Continue wait"', async () => {
+    pendingWaits = 2
+
+    const response = await createClient().load(QUERY)
+
+    expect(response.data.data).toHaveLength(1)
+    expect(server.requests).toHaveLength(3)
+  })
+
+  it('rejeita com TimeoutError quando o resultado não fica pronto no tempo limite', async () => {
+    pendingWaits = 100
+
+    const error = await createClient({ interval: 10, timeout: 35 }).load(QUERY).catch((rejected) => rejected)
+
+    expect(error).toBeInstanceOf(TimeoutError)
+    expect(error).toMatchObject({ code: 'CUBE_CONTINUE_WAIT_TIMEOUT', details: { error: 'Continue wait' } })
+    expect(server.requests.length).toBeLessThan(5)
+  })
+
+  it('interrompe a espera com cancelAll', async () => {
+    pendingWaits = 100
+    const client = createClient({ interval: 20, timeout: 1000 })
+
+    const request = client.load(QUERY)
+    setTimeout(() => client.cancelAll('saiu'), 30)
+
+    const error = await request.catch((rejected) => rejected)
+    expect(error).toBeInstanceOf(CancelledError)
+    expect(error.details).toBe('saiu')
+  })
+
+  it('usa a mensagem de erro do Cube', async () => {
+    replies['/load'] = { status: 400, body: { error: "'vendas.lucro' not found for path 'vendas.lucro'" } }
+    const onError = jest.fn()
+
+    await createClient().load(QUERY, { onSuccess: jest.fn(), onError })
+
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(HttpError)
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      status: 400,
+      message: "'vendas.lucro' not found for path 'vendas.lucro'",
+    })
+  })
+
+  it('não usa nem invalida o cache de um ApiClient compartilhado', async () => {
+    replies[''] = { status: 200, body: { versao: '1' } }
+    const api = new ApiClient({ baseURL: server.baseURL, cache: { ttl: 60000 } })
+    const cube = new CubeRestClient({ baseURL: '/cubejs-api/v1', client: api })
+
+    await api.get('/cubejs-api/v1')
+    await cube.meta()
+    await cube.load(QUERY)
+    await cube.load(QUERY)
+    await cube.meta()
+    await api.get('/cubejs-api/v1')
+
+    expect(server.requests.map((request) => request.url)).toEqual([
+      '/cubejs-api/v1',
+      '/cubejs-api/v1/meta',
+      '/cubejs-api/v1/load',
+      '/cubejs-api/v1/load',
+    ])
+  })
+})
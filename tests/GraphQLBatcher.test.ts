@@ -0,0 +1,153 @@
+import { CanceledError } from 'axios'
+import { ApiResponse } from '../src/types/types'
+import { BatchSender, GraphQLBatcher } from '../src/services/GraphQLBatcher'
+import { GraphQLClient } from '../src/services/GraphQLClient'
+import { GraphQLRequestError, ParseError } from '../src/utils/errors'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+describe('GraphQLBatcher', () => {
+  /**
+   * Envio falso: responde cada operação com o seu próprio corpo, após um pequeno atraso.
+   */
+  const createSender = (signals: AbortSignal[] = []) =>
+    jest.fn<Promise<ApiResponse<unknown>>, Parameters<BatchSender>>(async (bodies, signal) => {
+      signals.push(signal)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      const results = bodies.map((body) => ({ data: body }))
+      return { data: bodies.length === 1 ? results[0] : results, status: 200, message: 'OK' }
+    })
+
+  it('envia as operações da mesma janela em um único lote', async () => {
+    const send = createSender()
+    const batcher = new GraphQLBatcher({ window: 5 }, send)
+
+    const responses = await Promise.all([1, 2, 3].map((id) => batcher.enqueue({ query: `q${id}` })))
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(send.mock.calls[0][0]).toEqual([{ query: 'q1' }, { query: 'q2' }, { query: 'q3' }])
+    expect(responses.map((response) => response.data)).toEqual([
+      { data: { query: 'q1' } },
+      { data: { query: 'q2' } },
+      { data: { query: 'q3' } },
+    ])
+  })
+
+  it('divide os lotes em maxBatchSize e entrega a operação isolada sem o array', async () => {
+    const send = createSender()
+    const batcher = new GraphQLBatcher({ window: 5, maxBatchSize: 2 }, send)
+
+    const responses = await Promise.all([1, 2, 3].map((id) => batcher.enqueue({ query: `q${id}` })))
+
+    expect(send.mock.calls.map(([bodies]) => bodies.length)).toEqual([2, 1])
+    expect(responses[2].data).toEqual({ data: { query: 'q3' } })
+  })
+
+  it('rejeita todas as operações quando a resposta não corresponde ao lote', async () => {
+    const batcher = new GraphQLBatcher({ window: 5 }, async () => ({ data: [{}], status: 200, message: 'OK' }))
+
+    const results = await Promise.allSettled([batcher.enqueue({ query: 'a' }), batcher.enqueue({ query: 'b' })])
+
+    for (const result of results) {
+      expect(result).toMatchObject({ status: 'rejected', reason: { code: 'GRAPHQL_BATCH_MISMATCH' } })
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(ParseError)
+    }
+  })
+
+  it('cancela apenas a operação abortada e mantém o lote', async () => {
+    const signals: AbortSignal[] = []
+    const batcher = new GraphQLBatcher({ window: 5 }, createSender(signals))
+    const controller = new AbortController()
+
+    const cancelled = batcher.enqueue({ query: 'a' }, controller.signal)
+    const remaining = batcher.enqueue({ query: 'b' }, new AbortController().signal)
+    setTimeout(() => controller.abort(), 7)
+
+    await expect(cancelled).rejects.toBeInstanceOf(CanceledError)
+    await expect(remaining).resolves.toMatchObject({ data: { data: { query: 'b' } } })
+    expect(signals[0].aborted).toBe(false)
+  })
+
+  it('aborta o envio quando todas as operações do lote são canceladas', async () => {
+    const signals: AbortSignal[] = []
+    const batcher = new GraphQLBatcher({ window: 5 }, createSender(signals))
+    const controllers = [new AbortController(), new AbortController()]
+
+    const calls = controllers.map((controller, index) => batcher.enqueue({ query: `q${index}` }, controller.signal))
+    setTimeout(() => controllers.forEach((controller) => controller.abort()), 7)
+
+    await expect(Promise.all(calls)).rejects.toBeInstanceOf(CanceledError)
+    expect(signals[0].aborted).toBe(true)
+  })
+
+  it('descarta operações canceladas antes do envio', async () => {
+    const send = createSender()
+    const batcher = new GraphQLBatcher({ window: 5 }, send)
+    const controller = new AbortController()
+
+    const cancelled = batcher.enqueue({ query: 'a' }, controller.signal)
+    const remaining = batcher.enqueue({ query: 'b' })
+    controller.abort()
+
+    await expect(cancelled).rejects.toBeInstanceOf(CanceledError)
+    await remaining
+    expect(send.mock.calls[0][0]).toEqual([{ query: 'b' }])
+  })
+})
+
+describe('GraphQLClient com batch', () => {
+  let server: TestServer
+
+  // Responde cada operação do lote; a operação 'falha' retorna apenas erros
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const body = JSON.parse(request.body)
+      const reply = (operation: { query: string }) =>
+        operation.query.includes('falha')
+          ? { data: null, errors: [{ message: 'Falhou' }] }
+          : { data: { query: operation.query } }
+      sendJson(response, 200, Array.isArray(body) ? body.map(reply) : reply(body))
+    })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+  })
+
+  afterAll(() => server.close())
+
+  const createClient = () =>
+    new GraphQLClient({ baseURL: `${server.baseURL}/graphql`, batch: { window: 5, maxBatchSize: 2 } })
+
+  it('envia 3 queries em 2 requisições e entrega a cada chamador o seu resultado', async () => {
+    const client = createClient()
+
+    const responses = await Promise.all(
+      ['query { a }', 'query { b }', 'query { c }'].map((query) => client.query<{ query: string }>(query))
+    )
+
+    expect(responses.map((response) => response.data.query)).toEqual(['query { a }', 'query { b }', 'query { c }'])
+    expect(server.requests.map((request) => Array.isArray(JSON.parse(request.body)))).toEqual([true, false])
+  })
+
+  it('rejeita apenas a operação do lote que retornou erros', async () => {
+    const client = createClient()
+
+    const [ok, failed] = await Promise.allSettled([client.query('query { ok }'), client.query('query { falha }')])
+
+    expect(ok).toMatchObject({ status: 'fulfilled', value: { data: { query: 'query { ok }' } } })
+    expect(failed).toMatchObject({ status: 'rejected', reason: { message: 'Falhou' } })
+    expect((failed as PromiseRejectedResult).reason).toBeInstanceOf(GraphQLRequestError)
+    expect(server.requests).toHaveLength(1)
+  })
+
+  it('envia fora do lote as operações com batch: false', async () => {
+    const client = createClient()
+
+    await Promise.all([client.query('query { a }'), client.query('query { b }', {}, { batch: false })])
+
+    expect(server.requests.map((request) => JSON.parse(request.body))).toEqual([
+      { query: 'query { b }', variables: {} },
+      { query: 'query { a }', variables: {} },
+    ])
+  })
+})
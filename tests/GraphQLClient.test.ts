@@ -0,0 +1,205 @@
+import { ApiClient } from '../src/services/ApiClient'
+import { GraphQLClient } from '../src/services/GraphQLClient'
+import { GraphQLRequestError, ParseError } from '../src/utils/errors'
+import { analyzeDocument, gql, validateDocument } from '../src/utils/graphqlHelpers'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+describe('GraphQLClient', () => {
+  let server: TestServer
+  let reply: { status: number; body: unknown }
+
+  beforeAll(async () => {
+    server = await startTestServer((_request, response) => {
+      if (typeof reply.body === 'string') {
+        response.writeHead(reply.status, { 'Content-Type': 'text/plain' })
+        response.end(reply.body)
+        return
+      }
+      sendJson(response, reply.status, reply.body)
+    })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+  })
+
+  afterAll(() => server.close())
+
+  const lastBody = () => JSON.parse(server.requests[server.requests.length - 1].body)
+
+  describe('erros GraphQL', () => {
+    const createClient = (errorMode?: 'strict' | 'lenient') =>
+      new GraphQLClient({ baseURL: `${server.baseURL}/graphql`, errorMode })
+    const partial = {
+      data: { usuario: { id: 1, avatar: null } },
+      errors: [{ message: 'Avatar indisponível', path: ['usuario', 'avatar'], extensions: { code: 'AVATAR' } }],
+    }
+
+    it('entrega os dados sem erros', async () => {
+      reply = { status: 200, body: { data: { usuario: { id: 1 } } } }
+
+      const response = await createClient().query<{ usuario: { id: number } }>('query { usuario { id } }')
+
+      expect(response.data.usuario.id).toBe(1)
+      expect(response.errors).toBeUndefined()
+      expect(lastBody()).toEqual({ query: 'query { usuario { id } }', variables: {} })
+    })
+
+    it('entrega dados parciais com os erros no modo lenient', async () => {
+      reply = { status: 200, body: partial }
+
+      const response = await createClient().query('query { usuario { id avatar } }')
+
+      expect(response.data).toEqual(partial.data)
+      expect(response.errors).toEqual(partial.errors)
+    })
+
+    it('rejeita dados parciais no modo strict, com os dados em partialData', async () => {
+      reply = { status: 200, body: partial }
+
+      const error: GraphQLRequestError = await createClient('strict')
+        .query('query { usuario { id avatar } }')
+        .then(() => Promise.reject(new Error('A operação deveria ter falhado')), (rejected) => rejected)
+
+      expect(error).toBeInstanceOf(GraphQLRequestError)
+      expect(error).toMatchObject({ message: 'Avatar indisponível', code: 'AVATAR', status: 200 })
+      expect(error.errors).toEqual(partial.errors)
+      expect(error.partialData).toEqual(partial.data)
+    })
+
+    it('aceita o modo por operação', async () => {
+      reply = { status: 200, body: partial }
+
+      await expect(
+        createClient('strict').query('query { usuario { id avatar } }', {}, { errorMode: 'lenient' })
+      ).resolves.toMatchObject({ errors: partial.errors })
+      await expect(
+        createClient().query('query { usuario { id avatar } }', {}, { errorMode: 'strict' })
+      ).rejects.toBeInstanceOf(GraphQLRequestError)
+    })
+
+    it('rejeita erros sem dados mesmo no modo lenient', async () => {
+      reply = { status: 200, body: { data: null, errors: [{ message: 'Não autorizado' }] } }
+
+      await expect(createClient().mutate('mutation { sair }')).rejects.toMatchObject({
+        message: 'Não autorizado',
+        code: 'GRAPHQL_ERROR',
+        partialData: undefined,
+      })
+    })
+
+    it('converte respostas de erro HTTP com o array errors em GraphQLRequestError', async () => {
+      reply = { status: 400, body: { errors: [{ message: 'Campo "x" inexistente', extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } }] } }
+
+      const error = await createClient().query('query { x }').catch((rejected) => rejected)
+
+      expect(error).toBeInstanceOf(GraphQLRequestError)
+      expect(error).toMatchObject({ status: 400, code: 'GRAPHQL_VALIDATION_FAILED' })
+    })
+
+    it('rejeita com ParseError quando o corpo não é um objeto', async () => {
+      reply = { status: 200, body: 'ok' }
+
+      await expect(createClient().query('query { x }')).rejects.toBeInstanceOf(ParseError)
+    })
+  })
+
+  describe('pipeline do ApiClient', () => {
+    beforeEach(() => {
+      reply = { status: 200, body: { data: { ok: true } } }
+    })
+
+    it('usa os interceptadores e a URL base de um ApiClient compartilhado', async () => {
+      const api = new ApiClient({ baseURL: server.baseURL })
+      const graphql = new GraphQLClient({ baseURL: '/graphql', client: api })
+      const seen: unknown[] = []
+      api.addRequestInterceptor((config) => {
+        seen.push(config.data)
+        return { ...config, headers: { ...config.headers, 'X-Trace': 'abc' } }
+      })
+
+      await graphql.query('query { ok }')
+
+      expect(seen).toEqual([{ query: 'query { ok }', variables: {} }])
+      expect(server.requests[0].url).toBe('/graphql')
+      expect(server.requests[0].headers['x-trace']).toBe('abc')
+    })
+
+    it('registra interceptadores no próprio pipeline sem client', async () => {
+      const graphql = new GraphQLClient({ baseURL: `${server.baseURL}/graphql` })
+      const interceptor = jest.fn((response) => response)
+      graphql.addResponseInterceptor(interceptor)
+
+      await graphql.query('query { ok }')
+
+      expect(interceptor).toHaveBeenCalledTimes(1)
+      expect(interceptor.mock.calls[0][0]).toMatchObject({ status: 200, data: { data: { ok: true } } })
+    })
+
+    it('não invalida o cache de respostas do ApiClient', async () => {
+      const api = new ApiClient({ baseURL: server.baseURL, cache: { ttl: 60000 } })
+      const graphql = new GraphQLClient({ baseURL: '/api/graphql', client: api })
+
+      await api.get('/api', { pagina: 1 })
+      await graphql.query('query { ok }')
+      await graphql.mutate('mutation { salvar }')
+      await api.get('/api', { pagina: 1 })
+
+      expect(server.requests.map((request) => request.method)).toEqual(['GET', 'POST', 'POST'])
+    })
+  })
+
+  describe('documentos com várias operações e fragmentos', () => {
+    const CAMPOS_PAUTA = gql`
+      fragment CamposPauta on Pauta { id titulo }
+    `
+    const PAUTAS = gql`
+      query ListarPautas { pautas { ...CamposPauta } }
+      query BuscarPauta($id: ID!) { pauta(id: $id) { ...CamposPauta votos } }
+      ${CAMPOS_PAUTA}
+      ${CAMPOS_PAUTA}
+    `
+
+    beforeEach(() => {
+      reply = { status: 200, body: { data: { pauta: { id: '42' } } } }
+    })
+
+    it('mantém cada fragmento interpolado uma única vez', () => {
+      expect(analyzeDocument(PAUTAS)).toEqual({
+        operations: [
+          { type: 'query', name: 'ListarPautas' },
+          { type: 'query', name: 'BuscarPauta' },
+        ],
+        fragments: ['CamposPauta'],
+        spreads: ['CamposPauta'],
+      })
+    })
+
+    it('aponta operações ausentes, ambíguas e fragmentos não definidos', () => {
+      expect(validateDocument(PAUTAS, 'BuscarPauta')).toEqual([])
+      expect(validateDocument(PAUTAS)).toEqual(['O documento possui mais de uma operação; informe operationName'])
+      expect(validateDocument(PAUTAS, 'Remover')).toEqual(['Operação "Remover" não encontrada no documento'])
+      expect(validateDocument('query { pautas { ...Outro } }')).toEqual(['Fragmento "Outro" não definido no documento'])
+      expect(validateDocument('fragment A on Pauta { id }')).toEqual(['O documento não possui operações'])
+    })
+
+    it('envia operationName junto com o documento', async () => {
+      const graphql = new GraphQLClient({ baseURL: `${server.baseURL}/graphql` })
+
+      await graphql.query(PAUTAS, { id: '42' }, { operationName: 'BuscarPauta' })
+
+      expect(lastBody()).toEqual({ query: PAUTAS, variables: { id: '42' }, operationName: 'BuscarPauta' })
+    })
+
+    it('rejeita documentos inválidos sem acessar a rede', async () => {
+      const graphql = new GraphQLClient({ baseURL: `${server.baseURL}/graphql` })
+
+      await expect(graphql.query(PAUTAS, { id: '42' })).rejects.toMatchObject({
+        code: 'GRAPHQL_DOCUMENT_INVALID',
+        message: 'O documento possui mais de uma operação; informe operationName',
+      })
+      await expect(graphql.query(PAUTAS, {}, { operationName: 'Remover' })).rejects.toBeInstanceOf(GraphQLRequestError)
+      expect(server.requests).toHaveLength(0)
+    })
+  })
+})
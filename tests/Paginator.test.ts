@@ -0,0 +1,224 @@
+import { ApiClient } from '../src/services/ApiClient'
+import { CubeGraphQLClient } from '../src/services/CubeGraphQLClient'
+import { CubeRestClient } from '../src/services/CubeRestClient'
+import { PageLoader, Paginator } from '../src/services/Paginator'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+interface Item {
+  id: number
+}
+
+const ITEMS: Item[] = Array.from({ length: 25 }, (_, index) => ({ id: index + 1 }))
+
+describe('Paginator', () => {
+  const createLoader = (hasMore: (index: number) => boolean) =>
+    jest.fn<ReturnType<PageLoader<number, string>>, Parameters<PageLoader<number, string>>>(async (index) => ({
+      items: [index],
+      response: `r${index}`,
+      hasMore: hasMore(index),
+    }))
+
+  it('interrompe as buscas ao sair do for await', async () => {
+    const load = createLoader(() => true)
+    const seen: number[] = []
+
+    for await (const page of new Paginator(load, { concurrency: 2 })) {
+      seen.push(...page.items)
+      if (page.index === 1) {
+        break
+      }
+    }
+
+    expect(seen).toEqual([0, 1])
+    expect(load).toHaveBeenCalledTimes(3)
+    expect(load.mock.calls[2][1].aborted).toBe(true)
+  })
+
+  it('entrega a página anterior ao carregador sequencial', async () => {
+    const load = createLoader((index) => index < 2)
+
+    await expect(new Paginator(load, { sequential: true, concurrency: 5 }).collectAll()).resolves.toEqual([0, 1, 2])
+    expect(load.mock.calls.map(([, , previous]) => previous?.response)).toEqual([undefined, 'r0', 'r1'])
+  })
+})
+
+describe('ApiClient.paginate', () => {
+  let server: TestServer
+  let inFlight: number
+  let maxInFlight: number
+
+  // Lista paginada por deslocamento, página, cursor ou header Link, conforme o caminho
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const url = new URL(request.url, server.baseURL)
+      const query = (name: string, fallback: number) => Number(url.searchParams.get(name) ?? fallback)
+      let offset = 0
+      let limit = 10
+      if (url.pathname === '/offset' || url.pathname === '/paralelo') {
+        offset = query('offset', 0)
+        limit = query('limit', 10)
+      } else if (url.pathname === '/paginas') {
+        limit = query('pageSize', 10)
+        offset = (query('page', 1) - 1) * limit
+      } else if (url.pathname === '/cursor' || url.pathname === '/link') {
+        offset = query('apos', 0)
+      }
+
+      const items = ITEMS.slice(offset, offset + limit)
+      const next = offset + limit < ITEMS.length ? offset + limit : undefined
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      setTimeout(() => {
+        inFlight--
+        if (url.pathname === '/cursor') {
+          sendJson(response, 200, { items, proximo: next ?? null })
+        } else if (url.pathname === '/link') {
+          const link = next === undefined ? '' : `<${server.baseURL}/link?apos=${next}>; rel="next"`
+          sendJson(response, 200, items, link ? { Link: link } : {})
+        } else {
+          sendJson(response, 200, url.pathname === '/objeto' ? { items } : items)
+        }
+      }, 10)
+    })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+    inFlight = 0
+    maxInFlight = 0
+  })
+
+  afterAll(() => server.close())
+
+  const createClient = () => new ApiClient({ baseURL: server.baseURL })
+  // Páginas buscadas à frente por um teste anterior podem chegar depois dele
+  const requestedUrls = (path: string) =>
+    server.requests.map((request) => request.url).filter((url) => url.split('?')[0] === path)
+
+  it('percorre as páginas por deslocamento mantendo os parâmetros', async () => {
+    const pages: number[][] = []
+
+    for await (const page of createClient().paginate<Item>('/offset', {
+      strategy: { type: 'offset', limit: 10 },
+      params: { status: 'ativo' },
+    })) {
+      pages.push(page.items.map((item) => item.id))
+    }
+
+    expect(pages.map((page) => page.length)).toEqual([10, 10, 5])
+    expect(requestedUrls('/offset')).toEqual([
+      '/offset?status=ativo&offset=0&limit=10',
+      '/offset?status=ativo&offset=10&limit=10',
+      '/offset?status=ativo&offset=20&limit=10',
+    ])
+  })
+
+  it('busca páginas em paralelo até concurrency, na ordem das páginas', async () => {
+    const items = await createClient()
+      .paginate<Item>('/paralelo', { strategy: { type: 'offset', limit: 5, concurrency: 3 } })
+      .collectAll()
+
+    expect(items).toEqual(ITEMS)
+    expect(maxInFlight).toBe(3)
+  })
+
+  it('percorre as páginas numeradas', async () => {
+    const items = await createClient()
+      .paginate<Item>('/paginas', { strategy: { type: 'page', pageSize: 10 } })
+      .collectAll()
+
+    expect(items).toEqual(ITEMS)
+    expect(requestedUrls('/paginas')).toEqual([
+      '/paginas?page=1&pageSize=10',
+      '/paginas?page=2&pageSize=10',
+      '/paginas?page=3&pageSize=10',
+    ])
+  })
+
+  it('segue o cursor da resposta e extrai os itens com getItems', async () => {
+    const items = await createClient()
+      .paginate<Item, { items: Item[]; proximo: number | null }>('/cursor', {
+        strategy: { type: 'cursor', cursorParam: 'apos', getCursor: (response) => response.data.proximo },
+        getItems: (response) => response.data.items,
+      })
+      .collectAll()
+
+    expect(items).toEqual(ITEMS)
+    expect(requestedUrls('/cursor')).toEqual(['/cursor', '/cursor?apos=10', '/cursor?apos=20'])
+  })
+
+  it('segue o header Link', async () => {
+    const items = await createClient().paginate<Item>('/link', { strategy: { type: 'link' } }).collectAll()
+
+    expect(items).toEqual(ITEMS)
+    expect(requestedUrls('/link')).toEqual(['/link', '/link?apos=10', '/link?apos=20'])
+  })
+
+  it('para ao atingir maxItems sem buscar as páginas seguintes', async () => {
+    const items = await createClient()
+      .paginate<Item>('/offset', { strategy: { type: 'offset', limit: 10 }, maxItems: 15 })
+      .collectAll()
+
+    expect(items.map((item) => item.id)).toEqual(ITEMS.slice(0, 15).map((item) => item.id))
+    expect(requestedUrls('/offset')).toHaveLength(2)
+  })
+
+  it('rejeita com ParseError quando a página não é uma lista e não há getItems', async () => {
+    await expect(createClient().paginate('/objeto', { strategy: { type: 'page' } }).collectAll()).rejects.toMatchObject({ name: 'ParseError', code: 'PAGINATION_ITEMS_NOT_FOUND' })
+  })
+})
+
+describe('paginação do Cube', () => {
+  let server: TestServer
+
+  // Responde o trecho das linhas indicado por limit/offset da consulta GraphQL ou REST
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const body = JSON.parse(request.body)
+      if (body.query && typeof body.query === 'string') {
+        const limit = Number(/limit: (\d+)/.exec(body.query)?.[1])
+        const offset = Number(/offset: (\d+)/.exec(body.query)?.[1] ?? 0)
+        sendJson(response, 200, { data: { cube: ITEMS.slice(offset, offset + limit).map((item) => ({ vendas: item })) } })
+        return
+      }
+      const { limit, offset = 0 } = body.query
+      const data = ITEMS.slice(offset, offset + limit).map((item) => ({ 'vendas.id': item.id }))
+      sendJson(response, 200, { queryType: 'regularQuery', results: [{ query: body.query, data, annotation: {} }] })
+    })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+  })
+
+  afterAll(() => server.close())
+
+  it('pagina as consultas GraphQL com limit e offset', async () => {
+    const cube = new CubeGraphQLClient({ baseURL: server.baseURL })
+
+    const rows = await cube
+      .paginate<{ vendas: Item }>('/cubejs-api/graphql', { offset: 5, fields: { vendas: { id: true } } }, { pageSize: 10 })
+      .collectAll()
+
+    expect(rows.map((row) => row.vendas.id)).toEqual(ITEMS.slice(5).map((item) => item.id))
+    expect(server.requests.map((request) => /offset: (\d+)/.exec(JSON.parse(request.body).query)?.[1])).toEqual([
+      '5',
+      '15',
+      '25',
+    ])
+  })
+
+  it('pagina as consultas REST com limit e offset, em paralelo e até maxItems', async () => {
+    const cube = new CubeRestClient({ baseURL: server.baseURL })
+
+    const rows = await cube
+      .paginate({ measures: ['vendas.id'] }, { pageSize: 10, concurrency: 2, maxItems: 12 })
+      .collectAll()
+
+    expect(rows).toEqual(ITEMS.slice(0, 12).map((item) => ({ 'vendas.id': item.id })))
+    // A página com offset 20, buscada à frente, é cancelada ao atingir maxItems
+    const offsets = server.requests.map((request) => JSON.parse(request.body).query.offset)
+    expect(offsets).toEqual(expect.arrayContaining([0, 10]))
+    expect(offsets.length).toBeLessThanOrEqual(3)
+  })
+})
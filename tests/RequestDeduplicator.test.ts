@@ -0,0 +1,126 @@
+import { CanceledError } from 'axios'
+import { ApiClient } from '../src/services/ApiClient'
+import { GraphQLClient } from '../src/services/GraphQLClient'
+import { RequestDeduplicator } from '../src/services/RequestDeduplicator'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+describe('RequestDeduplicator', () => {
+  const delayed = <R>(value: R, signals: AbortSignal[] = []) =>
+    jest.fn((signal: AbortSignal) => {
+      signals.push(signal)
+      return new Promise<R>((resolve) => setTimeout(() => resolve(value), 10))
+    })
+
+  it('compartilha a operação entre chamadas simultâneas com a mesma chave', async () => {
+    const deduplicator = new RequestDeduplicator()
+    const operation = delayed('ok')
+
+    const results = await Promise.all([
+      deduplicator.run('a', operation),
+      deduplicator.run('a', operation),
+      deduplicator.run('b', operation),
+    ])
+
+    expect(results).toEqual(['ok', 'ok', 'ok'])
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('executa novamente após a conclusão da operação anterior', async () => {
+    const deduplicator = new RequestDeduplicator()
+    const operation = delayed('ok')
+
+    await deduplicator.run('a', operation)
+    await deduplicator.run('a', operation)
+
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('cancela apenas o chamador que abortou enquanto houver outros', async () => {
+    const deduplicator = new RequestDeduplicator()
+    const signals: AbortSignal[] = []
+    const operation = delayed('ok', signals)
+    const controller = new AbortController()
+
+    const cancelled = deduplicator.run('a', operation, controller.signal)
+    const remaining = deduplicator.run('a', operation, new AbortController().signal)
+    controller.abort()
+
+    await expect(cancelled).rejects.toBeInstanceOf(CanceledError)
+    await expect(remaining).resolves.toBe('ok')
+    expect(signals[0].aborted).toBe(false)
+  })
+
+  it('aborta a operação quando todos os chamadores cancelam', async () => {
+    const deduplicator = new RequestDeduplicator()
+    const signals: AbortSignal[] = []
+    const first = new AbortController()
+    const second = new AbortController()
+
+    const calls = [
+      deduplicator.run('a', delayed('ok', signals), first.signal),
+      deduplicator.run('a', delayed('ok', signals), second.signal),
+    ]
+    first.abort()
+    second.abort('saiu')
+
+    await expect(Promise.all(calls)).rejects.toBeInstanceOf(CanceledError)
+    expect(signals).toHaveLength(1)
+    expect(signals[0].aborted).toBe(true)
+    expect(signals[0].reason).toBe('saiu')
+  })
+})
+
+describe('deduplicação nos clientes', () => {
+  let server: TestServer
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const body = request.url.startsWith('/graphql') ? { data: { itens: [1] } } : { itens: [1] }
+      setTimeout(() => sendJson(response, 200, body), 20)
+    })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+  })
+
+  afterAll(() => server.close())
+
+  it('envia uma única requisição para GETs idênticos e simultâneos, com uma cópia para cada chamador', async () => {
+    const api = new ApiClient({ baseURL: server.baseURL })
+
+    const [first, second] = await Promise.all([
+      api.get<{ itens: number[] }>('/itens', { pagina: 1 }),
+      api.get<{ itens: number[] }>('/itens', { pagina: 1 }),
+    ])
+    first.data.itens.push(2)
+
+    expect(server.requests).toHaveLength(1)
+    expect(second.data.itens).toEqual([1])
+  })
+
+  it('não compartilha parâmetros diferentes, mutações nem requisições com dedupe: false', async () => {
+    const api = new ApiClient({ baseURL: server.baseURL, dedupe: false })
+    const shared = new ApiClient({ baseURL: server.baseURL })
+
+    await Promise.all([
+      api.get('/itens'),
+      api.get('/itens'),
+      shared.get('/itens', { pagina: 1 }),
+      shared.get('/itens', { pagina: 2 }),
+      shared.post('/itens', { id: 1 }),
+      shared.post('/itens', { id: 1 }),
+    ])
+
+    expect(server.requests).toHaveLength(6)
+  })
+
+  it('compartilha queries GraphQL idênticas e simultâneas', async () => {
+    const graphql = new GraphQLClient({ baseURL: `${server.baseURL}/graphql` })
+    const query = 'query { itens }'
+
+    await Promise.all([graphql.query(query), graphql.query(query), graphql.query(query, { pagina: 2 })])
+
+    expect(server.requests).toHaveLength(2)
+  })
+})
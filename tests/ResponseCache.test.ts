@@ -0,0 +1,62 @@
+import { AxiosResponse } from 'axios'
+import { ApiResponse } from '../src/types/types'
+import { ResponseCache } from '../src/services/ResponseCache'
+
+describe('ResponseCache', () => {
+  const options = { key: '/agendas', ttl: 60000, staleWhileRevalidate: 0 }
+  const rawResponse = { status: 200, headers: {} } as AxiosResponse
+
+  it('guarda uma cópia da resposta, protegida de alterações do chamador', async () => {
+    const cache = new ResponseCache(true)
+    const response: ApiResponse<{ nomes: string[] }> = { data: { nomes: ['a'] }, status: 200, message: 'OK' }
+
+    const returned = await cache.save(options, rawResponse, response)
+    returned.data.nomes.push('b')
+    response.data.nomes.push('c')
+
+    const cached = await cache.lookup(options.key)
+    expect(cached?.entry.response.data).toEqual({ nomes: ['a'] })
+  })
+
+  describe('invalidateResource', () => {
+    const keys = ['/users', '/agendas', '/agendas?page=1', '/agendas/1', '/agendas/1/votos', '/agendas/2', '/votos/1']
+
+    const createCache = async () => {
+      const cache = new ResponseCache(true)
+      for (const key of keys) {
+        await cache.save({ ...options, key }, rawResponse, { data: key, status: 200, message: 'OK' })
+      }
+      return cache
+    }
+
+    const cachedKeys = async (cache: ResponseCache) => {
+      const found = await Promise.all(keys.map(async (key) => ((await cache.lookup(key)) ? key : undefined)))
+      return found.filter(Boolean)
+    }
+
+    it('remove o recurso, seus sub-recursos e as listagens da coleção', async () => {
+      const cache = await createCache()
+
+      await cache.invalidateResource({ url: '/agendas/1', method: 'PUT' })
+
+      expect(await cachedKeys(cache)).toEqual(['/users', '/agendas/2', '/votos/1'])
+    })
+
+    it('não remove nada quando a mutação não tem URL', async () => {
+      const cache = await createCache()
+
+      await cache.invalidateResource({ url: '', method: 'POST' })
+      await cache.invalidateResource({ method: 'POST' })
+
+      expect(await cachedKeys(cache)).toEqual(keys)
+    })
+
+    it('respeita invalidate: false na requisição', async () => {
+      const cache = await createCache()
+
+      await cache.invalidateResource({ url: '/agendas/1', method: 'PUT', invalidate: false })
+
+      expect(await cachedKeys(cache)).toEqual(keys)
+    })
+  })
+})
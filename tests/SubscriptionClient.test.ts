@@ -0,0 +1,123 @@
+import { GraphQLResponse, WebSocketLike } from '../src/types/graphql'
+import { GRAPHQL_WS_PROTOCOL, SubscriptionClient } from '../src/services/SubscriptionClient'
+
+/**
+ * WebSocket falso: guarda as mensagens enviadas pelo cliente e permite
+ * simular a abertura da conexão e as mensagens do servidor.
+ */
+class FakeWebSocket implements WebSocketLike {
+  static instances: FakeWebSocket[] = []
+
+  readonly url: string
+  readonly protocol: string
+  sent: { type: string; id?: string; payload?: unknown }[] = []
+  closed?: { code?: number; reason?: string }
+  onopen: WebSocketLike['onopen'] = null
+  onmessage: WebSocketLike['onmessage'] = null
+  onclose: WebSocketLike['onclose'] = null
+  onerror: WebSocketLike['onerror'] = null
+
+  constructor(url: string, protocols?: string | string[]) {
+    this.url = url
+    this.protocol = String(protocols)
+    FakeWebSocket.instances.push(this)
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closed = { code, reason }
+  }
+
+  /** Simula a abertura da conexão e aguarda o `connection_init` */
+  async open(): Promise<void> {
+    this.onopen?.({})
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  /** Simula uma mensagem do servidor */
+  receive(message: { type: string; id?: string; payload?: unknown }): void {
+    this.onmessage?.({ data: JSON.stringify(message) })
+  }
+}
+
+const createClient = () =>
+  new SubscriptionClient({
+    url: 'ws://localhost/graphql',
+    webSocketImpl: FakeWebSocket,
+    connectionParams: { Authorization: 'Bearer token' },
+  })
+
+const lastSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1]
+
+describe('SubscriptionClient', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = []
+  })
+
+  it('percorre connection_init → subscribe → next → complete e fecha a conexão', async () => {
+    const events: GraphQLResponse<unknown>[] = []
+    const onComplete = jest.fn()
+    const client = createClient()
+
+    client.subscribe(
+      { query: 'subscription { votos { sim } }', variables: { pautaId: '42' } },
+      { onNext: (response) => events.push(response), onComplete }
+    )
+
+    const socket = lastSocket()
+    expect(socket.url).toBe('ws://localhost/graphql')
+    expect(socket.protocol).toBe(GRAPHQL_WS_PROTOCOL)
+
+    await socket.open()
+    expect(socket.sent).toEqual([{ type: 'connection_init', payload: { Authorization: 'Bearer token' } }])
+
+    socket.receive({ type: 'connection_ack' })
+    expect(socket.sent[1]).toEqual({
+      id: '1',
+      type: 'subscribe',
+      payload: { query: 'subscription { votos { sim } }', variables: { pautaId: '42' } },
+    })
+
+    socket.receive({ type: 'next', id: '1', payload: { data: { votos: { sim: 3 } } } })
+    expect(events).toEqual([{ data: { votos: { sim: 3 } }, status: 200, message: 'Evento recebido' }])
+
+    socket.receive({ type: 'complete', id: '1' })
+    expect(onComplete).toHaveBeenCalledTimes(1)
+    expect(socket.closed).toEqual({ code: 1000, reason: 'Normal Closure' })
+  })
+
+  it('mantém a conexão enquanto houver subscriptions e a fecha após o erro da última', async () => {
+    const onError = jest.fn()
+    const client = createClient()
+    client.subscribe({ query: 'subscription { a }' }, {})
+    client.subscribe({ query: 'subscription { b }' }, { onError })
+
+    const socket = lastSocket()
+    await socket.open()
+    socket.receive({ type: 'connection_ack' })
+
+    socket.receive({ type: 'complete', id: '1' })
+    expect(socket.closed).toBeUndefined()
+
+    socket.receive({ type: 'error', id: '2', payload: [{ message: 'Pauta não encontrada' }] })
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Pauta não encontrada' }))
+    expect(socket.closed).toEqual({ code: 1000, reason: 'Normal Closure' })
+    expect(FakeWebSocket.instances).toHaveLength(1)
+  })
+
+  it('envia complete e fecha a conexão quando a última subscription é encerrada pelo cliente', async () => {
+    const client = createClient()
+    const unsubscribe = client.subscribe({ query: 'subscription { a }' }, {})
+
+    const socket = lastSocket()
+    await socket.open()
+    socket.receive({ type: 'connection_ack' })
+    unsubscribe()
+
+    expect(socket.sent[socket.sent.length - 1]).toEqual({ id: '1', type: 'complete' })
+    expect(socket.closed).toEqual({ code: 1000, reason: 'Normal Closure' })
+  })
+})
@@ -0,0 +1,156 @@
+import { CubeRow, CubeTimeBucketOptions } from '../src/types/cube'
+import {
+  computeCubeTotals,
+  CUBE_TIME_BUCKETS_LIMIT,
+  fillCubeTimeBuckets,
+  flattenCubeRows,
+  parseCubeNumbers,
+  pivotCubeRows,
+} from '../src/utils/cubeResults'
+
+describe('flattenCubeRows', () => {
+  it('achata as entidades e as granularidades em chaves entidade.campo', () => {
+    const rows = flattenCubeRows([
+      { vendas: { total: '1500.50', status: 'APROVADA', cupom: null, criadoEm: { month: '2024-01-01T00:00:00.000' } } },
+    ])
+
+    expect(rows).toEqual([
+      {
+        'vendas.total': '1500.50',
+        'vendas.status': 'APROVADA',
+        'vendas.cupom': null,
+        'vendas.criadoEm.month': '2024-01-01T00:00:00.000',
+      },
+    ])
+  })
+
+  it('retorna uma lista vazia para respostas que não são listas', () => {
+    expect(flattenCubeRows(null)).toEqual([])
+    expect(flattenCubeRows({ vendas: {} })).toEqual([])
+  })
+})
+
+describe('parseCubeNumbers', () => {
+  it('converte apenas as colunas informadas', () => {
+    const rows = [{ 'vendas.total': '1500.50', 'vendas.ano': '2024', 'cliente.id': '42', 'cliente.cep': '01310100' }]
+
+    expect(parseCubeNumbers(rows, ['vendas.total'])).toEqual([
+      { 'vendas.total': 1500.5, 'vendas.ano': '2024', 'cliente.id': '42', 'cliente.cep': '01310100' },
+    ])
+  })
+
+  it('mantém valores nulos e textos que não são números', () => {
+    const rows = [{ 'vendas.total': null, 'vendas.media': 'n/d', 'vendas.quantidade': 3 }]
+
+    expect(parseCubeNumbers(rows, ['vendas.total', 'vendas.media', 'vendas.quantidade'])).toEqual(rows)
+  })
+})
+
+describe('computeCubeTotals', () => {
+  const rows = [
+    { 'vendas.status': 'APROVADA', 'vendas.total': '1500.5', 'vendas.quantidade': 2 },
+    { 'vendas.status': 'PENDENTE', 'vendas.total': null, 'vendas.quantidade': 3 },
+    { 'vendas.status': 'APROVADA', 'vendas.total': 500, 'vendas.quantidade': 'n/d' },
+  ]
+
+  it('soma as colunas informadas ignorando valores nulos ou não numéricos', () => {
+    expect(computeCubeTotals(rows, ['vendas.total', 'vendas.quantidade'])).toEqual({
+      'vendas.total': 2000.5,
+      'vendas.quantidade': 5,
+    })
+  })
+
+  it('sem colunas, soma apenas as que têm somente valores numéricos', () => {
+    expect(computeCubeTotals(rows)).toEqual({ 'vendas.total': 2000.5 })
+  })
+})
+
+describe('pivotCubeRows', () => {
+  const rows: CubeRow[] = [
+    { mes: '2024-01', status: 'APROVADA', total: 100, quantidade: 1 },
+    { mes: '2024-01', status: 'APROVADA', total: 50, quantidade: 2 },
+    { mes: '2024-02', status: 'PENDENTE', total: '30', quantidade: 1 },
+    { mes: '2024-03', total: 0 },
+  ]
+
+  it('cria uma série por grupo, somando as linhas repetidas e completando com fill', () => {
+    expect(pivotCubeRows(rows, { x: 'mes', by: 'status', measures: 'total', fill: 0 })).toEqual({
+      categories: ['2024-01', '2024-02', '2024-03'],
+      series: [
+        { key: 'APROVADA', group: 'APROVADA', measure: 'total', data: [150, 0, 0] },
+        { key: 'PENDENTE', group: 'PENDENTE', measure: 'total', data: [0, 30, 0] },
+      ],
+    })
+  })
+
+  it('cria uma série por medida sem agrupamento, com null nas categorias sem valor', () => {
+    const { series } = pivotCubeRows(rows, { x: 'mes', measures: ['total', 'quantidade'] })
+
+    expect(series).toEqual([
+      { key: 'total', measure: 'total', data: [150, 30, 0] },
+      { key: 'quantidade', measure: 'quantidade', data: [3, 1, null] },
+    ])
+  })
+
+  it('combina grupo e medida na chave quando há várias medidas', () => {
+    const { series } = pivotCubeRows(rows.slice(0, 2), { x: 'mes', by: 'status', measures: ['total', 'quantidade'] })
+
+    expect(series.map((item) => item.key)).toEqual(['APROVADA,total', 'APROVADA,quantidade'])
+  })
+})
+
+describe('fillCubeTimeBuckets', () => {
+  const dimension = 'vendas.criadoEm.month'
+
+  it('ordena as linhas e completa os meses sem dados dentro do dateRange', () => {
+    const rows = [
+      { [dimension]: '2024-03-01T00:00:00.000', 'vendas.total': 900 },
+      { [dimension]: null, 'vendas.total': 10 },
+      { [dimension]: '2024-01-01T00:00:00.000', 'vendas.total': 1500 },
+    ]
+
+    const filled = fillCubeTimeBuckets(rows, {
+      dimension,
+      granularity: 'month',
+      dateRange: ['2024-01-01', '2024-04-30'],
+      values: { 'vendas.total': 0 },
+    })
+
+    expect(filled).toEqual([
+      { [dimension]: '2024-01-01T00:00:00.000', 'vendas.total': 1500 },
+      { [dimension]: '2024-02-01T00:00:00.000', 'vendas.total': 0 },
+      { [dimension]: '2024-03-01T00:00:00.000', 'vendas.total': 900 },
+      { [dimension]: '2024-04-01T00:00:00.000', 'vendas.total': 0 },
+      { [dimension]: null, 'vendas.total': 10 },
+    ])
+  })
+
+  it('mantém as linhas fora do dateRange e inicia as semanas na segunda-feira', () => {
+    const rows = [{ semana: '2024-01-10T00:00:00.000' }, { semana: '2024-01-24T00:00:00.000' }]
+
+    const filled = fillCubeTimeBuckets(rows, {
+      dimension: 'semana',
+      granularity: 'week',
+      dateRange: ['2024-01-17', '2024-01-17'],
+    })
+
+    expect(filled.map((row) => row.semana)).toEqual([
+      '2024-01-10T00:00:00.000',
+      '2024-01-15T00:00:00.000',
+      '2024-01-24T00:00:00.000',
+    ])
+  })
+
+  it('rejeita preenchimentos com mais intervalos que maxBuckets', () => {
+    const rows = [{ segundo: '2024-01-01T00:00:00.000' }]
+    const options: CubeTimeBucketOptions = { dimension: 'segundo', granularity: 'second', dateRange: ['2024-01-01', '2024-12-31'] }
+
+    expect(() => fillCubeTimeBuckets(rows, options)).toThrow(
+      expect.objectContaining({
+        code: CUBE_TIME_BUCKETS_LIMIT,
+        message: 'O preenchimento excede o limite de 10000 intervalos de "second"',
+      })
+    )
+    expect(fillCubeTimeBuckets(rows, { ...options, granularity: 'hour', maxBuckets: 9000 })).toHaveLength(8761)
+  })
+})
@@ -0,0 +1,149 @@
+import { AddressInfo } from 'net'
+import { createServer } from 'http'
+import { ApiClient } from '../src/services/ApiClient'
+import { isCancelledError } from '../src/utils/cancellation'
+import {
+  ApiRequestError,
+  CancelledError,
+  ConflictError,
+  ForbiddenError,
+  HttpError,
+  isApiRequestError,
+  isHttpError,
+  isNetworkError,
+  isNotFoundError,
+  isParseError,
+  isTimeoutError,
+  isUnauthorizedError,
+  NetworkError,
+  NotFoundError,
+  ParseError,
+  TimeoutError,
+  TooManyRequestsError,
+  toApiError,
+  UnauthorizedError,
+  UnprocessableEntityError,
+} from '../src/utils/errors'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+/**
+ * Executa a requisição e retorna o erro com que ela rejeitou.
+ */
+async function rejection(promise: Promise<unknown>): Promise<ApiRequestError> {
+  try {
+    await promise
+  } catch (error) {
+    return error as ApiRequestError
+  }
+  throw new Error('A requisição deveria ter falhado')
+}
+
+describe('erros tipados', () => {
+  let server: TestServer
+  let api: ApiClient
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const status = Number(request.url.split('/')[2])
+      if (request.url === '/lento') {
+        setTimeout(() => sendJson(response, 200, {}), 200)
+      } else {
+        sendJson(response, status, { message: `Falha ${status}` }, { 'Retry-After': '5' })
+      }
+    })
+    api = new ApiClient({ baseURL: server.baseURL })
+  })
+
+  afterAll(() => server.close())
+
+  it.each([
+    [401, UnauthorizedError],
+    [403, ForbiddenError],
+    [404, NotFoundError],
+    [409, ConflictError],
+    [422, UnprocessableEntityError],
+    [429, TooManyRequestsError],
+    [500, HttpError],
+  ])('converte o status %d na classe correspondente', async (status, ErrorClass) => {
+    const error = await rejection(api.get(`/status/${status}`))
+
+    expect(error).toBeInstanceOf(ErrorClass)
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toMatchObject({ status, message: `Falha ${status}`, details: { message: `Falha ${status}` } })
+    expect(error.headers?.['retry-after']).toBe('5')
+    expect(error.config?.url).toBe(`/status/${status}`)
+  })
+
+  it('mantém o formato de ApiError em spread e JSON', async () => {
+    const error = await rejection(api.get('/status/404'))
+
+    expect({ ...error }).toMatchObject({ message: 'Falha 404', status: 404 })
+    expect(JSON.parse(JSON.stringify(error))).toMatchObject({ message: 'Falha 404', status: 404 })
+    expect(error.name).toBe('NotFoundError')
+  })
+
+  it('distingue os erros com os type guards', async () => {
+    const notFound = await rejection(api.get('/status/404'))
+    const unauthorized = await rejection(api.get('/status/401'))
+
+    expect(isNotFoundError(notFound)).toBe(true)
+    expect(isHttpError(notFound, 404)).toBe(true)
+    expect(isHttpError(notFound, 500)).toBe(false)
+    expect(isUnauthorizedError(notFound)).toBe(false)
+    expect(isUnauthorizedError(unauthorized)).toBe(true)
+    expect(isApiRequestError(unauthorized)).toBe(true)
+    expect(isApiRequestError(new Error('outro'))).toBe(false)
+  })
+
+  it('produz TimeoutError quando o tempo limite é excedido', async () => {
+    const error = await rejection(api.request({ url: '/lento', timeout: 20 }))
+
+    expect(error).toBeInstanceOf(TimeoutError)
+    expect(isTimeoutError(error)).toBe(true)
+    expect(error.status).toBe(0)
+  })
+
+  it('produz NetworkError quando o servidor não responde', async () => {
+    const closed = createServer()
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', () => resolve()))
+    const { port } = closed.address() as AddressInfo
+    await new Promise((resolve) => closed.close(resolve))
+
+    const error = await rejection(new ApiClient({ baseURL: `http://127.0.0.1:${port}` }).get('/'))
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(isNetworkError(error)).toBe(true)
+    expect(error.status).toBe(0)
+  })
+
+  it('produz CancelledError quando a requisição é cancelada', async () => {
+    const controller = new AbortController()
+    const request = api.request({ url: '/lento', signal: controller.signal })
+    controller.abort('saiu')
+
+    const error = await rejection(request)
+
+    expect(error).toBeInstanceOf(CancelledError)
+    expect(isCancelledError(error)).toBe(true)
+    expect(error.details).toBe('saiu')
+  })
+})
+
+describe('toApiError', () => {
+  it('devolve erros tipados sem alteração', () => {
+    const error = new NotFoundError('Não encontrado', 404)
+
+    expect(toApiError(error)).toBe(error)
+  })
+
+  it('converte SyntaxError em ParseError e outros erros em ApiRequestError', () => {
+    const parseError = toApiError(new SyntaxError('Unexpected token'))
+    const other = toApiError(new Error('Falhou'))
+
+    expect(parseError).toBeInstanceOf(ParseError)
+    expect(isParseError(parseError)).toBe(true)
+    expect(other).toBeInstanceOf(ApiRequestError)
+    expect(other.message).toBe('Falhou')
+  })
+})
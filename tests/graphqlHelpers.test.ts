@@ -0,0 +1,205 @@
+import { CubeMeta } from '../src/types/cube'
+import { CubeQueryFilter, CubeQueryWhere } from '../src/types/graphql'
+import { buildCubeOperation, buildCubeQuery, cubeEnum, validateCubeFilter } from '../src/utils/graphqlHelpers'
+import { getCubeMemberKind } from '../src/utils/cubeSchema'
+
+const member = (name: string, type: string) => ({ name, title: name, shortTitle: name, type })
+const meta: CubeMeta = {
+  cubes: [
+    {
+      name: 'vendas',
+      title: 'Vendas',
+      measures: [member('vendas.total', 'sum')],
+      dimensions: [
+        member('vendas.codigo', 'string'),
+        member('vendas.ativo', 'boolean'),
+        member('vendas.criado_em', 'time'),
+      ],
+      segments: [],
+    },
+  ],
+}
+const memberKind = (member: string) => getCubeMemberKind(meta, member)
+const definitions = (query: string) => /CubeQuery\(([^)]*)\)/.exec(query)?.[1]
+
+describe('buildCubeOperation', () => {
+  it('declara o tipo das variáveis pelo operador e pelo tipo do membro', () => {
+    const { query, variables } = buildCubeOperation(
+      {
+        where: {
+          vendas: {
+            codigo: { equals: 123, in: [true, false] },
+            total: { gt: 5 },
+            ativo: { set: true },
+          },
+        },
+        fields: { vendas: { total: true } },
+      },
+      memberKind
+    )
+
+    expect(definitions(query)).toBe('$v0: String, $v1: [String], $v2: Float, $v3: Boolean')
+    expect(variables).toEqual({ v0: '123', v1: ['true', 'false'], v2: 5, v3: true })
+  })
+
+  it('usa o tipo do membro nos filtros de cada cube', () => {
+    const { query, variables } = buildCubeOperation(
+      { cubes: { vendas: { measures: ['total'], where: { criadoEm: { inDateRange: 'last 7 days' }, total: { equals: '10' } } } } },
+      memberKind
+    )
+
+    expect(definitions(query)).toBe('$v0: [String], $v1: Float')
+    expect(variables).toEqual({ v0: ['last 7 days'], v1: 10 })
+  })
+
+  it('rejeita valores incompatíveis com o tipo do membro', () => {
+    expect(() => buildCubeOperation({ where: { vendas: { total: { equals: 'abc' } } } }, memberKind)).toThrow(
+      'O valor "abc" de "vendas.total" não é compatível com o tipo Float'
+    )
+  })
+
+  it('infere o tipo pelo valor sem o tipo do membro', () => {
+    const { query } = buildCubeOperation({ where: { vendas: { codigo: { equals: 123 }, status: { in: ['A'] } } } })
+
+    expect(definitions(query)).toBe('$v0: Float, $v1: [String]')
+  })
+})
+
+describe('cubeEnum', () => {
+  it('emite os valores de enum sem aspas e fora das variáveis', () => {
+    const { query, variables } = buildCubeOperation({
+      where: { vendas: { status: { in: [cubeEnum('ABERTO'), cubeEnum('PAGO')], notEquals: cubeEnum('CANCELADO') } } },
+      fields: { vendas: { total: true } },
+    })
+
+    expect(query).toContain('status: {in: [ABERTO, PAGO], notEquals: CANCELADO}')
+    expect(variables).toEqual({})
+    expect(buildCubeQuery({ where: { vendas: { status: { equals: cubeEnum('ABERTO') } } } })).toContain(
+      'status: {equals: ABERTO}'
+    )
+  })
+
+  it('rejeita nomes que não são valores de enum e listas com tipos misturados', () => {
+    expect(() => cubeEnum('ABERTO } query {')).toThrow('Valor de enum inválido')
+    expect(() => cubeEnum('true')).toThrow('Valor de enum inválido')
+    expect(() => buildCubeOperation({ where: { vendas: { status: { in: [cubeEnum('ABERTO'), 'PAGO'] } } } })).toThrow(
+      'Os valores de uma lista de filtro devem ter o mesmo tipo'
+    )
+  })
+})
+
+describe('grupos AND/OR/NOT', () => {
+  const fields = { vendas: { total: true } }
+  const where = (filters: CubeQueryWhere) => /where: (\{.*\})\n/.exec(buildCubeQuery({ where: filters, fields }))?.[1]
+
+  it('aninha grupos AND e OR entre cubes diferentes', () => {
+    expect(
+      where({
+        AND: [
+          { OR: [{ vendas: { status: { equals: 'APROVADA' } } }, { vendas: { total: { gt: 1000 } } }] },
+          { cliente: { tipo: { equals: 'PJ' } } },
+        ],
+      })
+    ).toBe(
+      '{AND: [{OR: [{vendas: {status: {equals: "APROVADA"}}}, {vendas: {total: {gt: 1000}}}]}, {cliente: {tipo: {equals: "PJ"}}}]}'
+    )
+  })
+
+  it('aplica NOT trocando o operador pelo seu oposto', () => {
+    expect(where({ NOT: { cliente: { tipo: { equals: 'PF' } } } })).toBe('{cliente: {tipo: {notEquals: "PF"}}}')
+    expect(where({ NOT: { vendas: { ativo: { set: false } } } })).toBe('{vendas: {ativo: {set: true}}}')
+  })
+
+  it('nega várias condições como um OR das negações', () => {
+    expect(where({ NOT: { vendas: { status: { in: ['A', 'B'] }, total: { gte: 10, lt: 20 } } } })).toBe(
+      '{OR: [{vendas: {status: {notIn: ["A", "B"]}}}, {vendas: {total: {lt: 10}}}, {vendas: {total: {gte: 20}}}]}'
+    )
+  })
+
+  it('aplica as leis de De Morgan aos grupos', () => {
+    expect(
+      where({
+        NOT: {
+          OR: [
+            { vendas: { status: { contains: 'teste' } } },
+            { vendas: { criadoEm: { inDateRange: ['2024-01-01', '2024-01-31'] } } },
+          ],
+        },
+      })
+    ).toBe(
+      '{AND: [{vendas: {status: {notContains: "teste"}}}, {vendas: {criadoEm: {notInDateRange: ["2024-01-01", "2024-01-31"]}}}]}'
+    )
+    expect(
+      where({
+        NOT: { AND: [{ vendas: { criadoEm: { beforeDate: '2024-01-01' } } }, { vendas: { ativo: { set: false } } }] },
+      })
+    ).toBe('{OR: [{vendas: {criadoEm: {afterOrOnDate: "2024-01-01"}}}, {vendas: {ativo: {set: true}}}]}')
+    expect(where({ NOT: { NOT: { vendas: { status: { equals: 'A' } } } } })).toBe('{vendas: {status: {equals: "A"}}}')
+  })
+
+  it('aceita grupos nos filtros de cada cube', () => {
+    const query = buildCubeQuery({
+      cubes: { vendas: { measures: ['total'], where: { NOT: { status: { equals: 'A' }, total: { gt: 1 } } } } },
+    })
+
+    expect(query).toContain('vendas(where: {OR: [{status: {notEquals: "A"}}, {total: {lte: 1}}]})')
+  })
+
+  it('rejeita grupos malformados e NOT vazio', () => {
+    expect(() => where({ AND: [], vendas: {} } as CubeQueryWhere)).toThrow('O grupo AND deve ser a única chave do objeto de filtros')
+    expect(() => where({ OR: {} } as CubeQueryWhere)).toThrow('O grupo OR deve ser uma lista de filtros')
+    expect(() => where({ NOT: {} } as CubeQueryWhere)).toThrow('NOT aplicado a um filtro vazio')
+    expect(() => where({ NOT: { vendas: {} } })).toThrow('NOT aplicado a um filtro vazio')
+  })
+})
+
+describe('validateCubeFilter', () => {
+  it('normaliza intervalos em expressão e notSet', () => {
+    expect(validateCubeFilter({ inDateRange: 'last 7 days', notSet: false, equals: undefined }, 'vendas.data')).toEqual({
+      inDateRange: ['last 7 days'],
+      set: true,
+    })
+  })
+
+  it('rejeita operadores desconhecidos, inclusive na tipagem', () => {
+    // @ts-expect-error operador inexistente
+    const filter: CubeQueryFilter = { greaterThan: 5 }
+
+    expect(() => validateCubeFilter(filter, 'vendas.total')).toThrow(
+      'Operador de filtro desconhecido "greaterThan" em "vendas.total"'
+    )
+    expect(() => buildCubeQuery({ where: { vendas: { total: filter } } })).toThrow(
+      expect.objectContaining({ code: 'CUBE_QUERY_INVALID', details: { member: 'vendas.total', operator: 'greaterThan' } })
+    )
+  })
+
+  it('rejeita valores do tipo errado para o operador', () => {
+    const invalid = (filter: Record<string, unknown>) => () => validateCubeFilter(filter as CubeQueryFilter, 'vendas.total')
+
+    expect(invalid({ gt: '5' })).toThrow('O operador "gt" em "vendas.total" espera um número')
+    expect(invalid({ in: 'A' })).toThrow('O operador "in" em "vendas.total" espera uma lista de valores')
+    expect(invalid({ contains: 1 })).toThrow('O operador "contains" em "vendas.total" espera uma string')
+    expect(invalid({ inDateRange: ['2024-01-01'] })).toThrow('espera um intervalo [início, fim]')
+    expect(invalid({ set: 'sim' })).toThrow('O operador "set" em "vendas.total" espera um booleano')
+    expect(() => validateCubeFilter(undefined, 'vendas.total')).toThrow(
+      'O filtro de "vendas.total" deve ser um objeto de operadores'
+    )
+  })
+
+  it('rejeita set e notSet contraditórios', () => {
+    expect(() => validateCubeFilter({ set: true, notSet: true }, 'vendas.cupom')).toThrow(
+      '"set" e "notSet" se contradizem em "vendas.cupom"'
+    )
+  })
+
+  it('valida os filtros dentro de NOT antes de negá-los', () => {
+    const fields = { vendas: { total: true } }
+
+    expect(buildCubeQuery({ where: { NOT: { vendas: { cupom: { notSet: true } } } }, fields })).toContain(
+      'where: {vendas: {cupom: {set: true}}}'
+    )
+    const where = { NOT: { vendas: { total: { gt: '5' } } } } as unknown as CubeQueryWhere
+
+    expect(() => buildCubeQuery({ where, fields })).toThrow('O operador "gt" em "vendas.total" espera um número')
+  })
+})
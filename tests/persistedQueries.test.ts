@@ -0,0 +1,152 @@
+import { createHash } from 'crypto'
+import { GraphQLClient } from '../src/services/GraphQLClient'
+import {
+  getPersistedQueryError,
+  PERSISTED_QUERY_NOT_FOUND,
+  PERSISTED_QUERY_NOT_SUPPORTED,
+} from '../src/utils/persistedQueries'
+import { RecordedRequest, sendJson, startTestServer, TestServer } from './support/testServer'
+
+const sha256 = (document: string) => createHash('sha256').update(document).digest('hex')
+
+/**
+ * Lê o corpo GraphQL de um POST ou os parâmetros de um GET.
+ */
+function readOperation(request: RecordedRequest): { query?: string; hash?: string } {
+  if (request.method === 'GET') {
+    const params = new URL(request.url, 'http://localhost').searchParams
+    return { hash: JSON.parse(params.get('extensions') || '{}').persistedQuery?.sha256Hash }
+  }
+  const body = JSON.parse(request.body)
+  return { query: body.query, hash: body.extensions?.persistedQuery?.sha256Hash }
+}
+
+describe('Automatic Persisted Queries', () => {
+  const QUERY = 'query Pautas { pautas { id } }'
+  const MUTATION = 'mutation Votar { votar }'
+  let server: TestServer
+  let registered: Map<string, string>
+  let mode: 'apq' | 'unsupported' | 'status400'
+
+  // Servidor APQ: registra o documento recebido com o hash e responde apenas hashes conhecidos
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const { query, hash } = readOperation(request)
+      if (hash && mode === 'unsupported') {
+        sendJson(response, 200, { errors: [{ message: 'PersistedQueryNotSupported' }] })
+      } else if (hash && !query && !registered.has(hash)) {
+        const status = mode === 'status400' ? 400 : 200
+        sendJson(response, status, {
+          errors: [{ message: 'PersistedQueryNotFound', extensions: { code: PERSISTED_QUERY_NOT_FOUND } }],
+        })
+      } else {
+        if (hash && query) {
+          registered.set(hash, query)
+        }
+        sendJson(response, 200, { data: { ok: true } })
+      }
+    })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+    registered = new Map()
+    mode = 'apq'
+  })
+
+  afterAll(() => server.close())
+
+  const sent = () => server.requests.map((request) => ({ method: request.method, ...readOperation(request) }))
+
+  it('envia apenas o hash e reenvia o documento quando o servidor não o conhece', async () => {
+    const client = new GraphQLClient({ baseURL: `${server.baseURL}/graphql`, persistedQueries: true })
+
+    await expect(client.query(QUERY)).resolves.toMatchObject({ data: { ok: true } })
+    await client.query(QUERY)
+
+    const hash = sha256(QUERY)
+    expect(sent()).toEqual([
+      { method: 'POST', query: undefined, hash },
+      { method: 'POST', query: QUERY, hash },
+      { method: 'POST', query: undefined, hash },
+    ])
+  })
+
+  it('reenvia o documento quando o hash desconhecido vem com status de erro HTTP', async () => {
+    mode = 'status400'
+    const client = new GraphQLClient({ baseURL: `${server.baseURL}/graphql`, persistedQueries: true })
+
+    await expect(client.query(QUERY)).resolves.toMatchObject({ data: { ok: true } })
+    expect(server.requests).toHaveLength(2)
+  })
+
+  it('usa GET para queries com hash e POST para mutations com useGETForHashedQueries', async () => {
+    const client = new GraphQLClient({
+      baseURL: `${server.baseURL}/graphql`,
+      persistedQueries: { useGETForHashedQueries: true },
+    })
+
+    await client.query(QUERY)
+    await client.query(QUERY)
+    await client.mutate(MUTATION)
+
+    expect(sent().map((request) => request.method)).toEqual(['GET', 'POST', 'GET', 'POST', 'POST'])
+  })
+
+  it('volta a enviar documentos completos quando o servidor não suporta APQ', async () => {
+    mode = 'unsupported'
+    const client = new GraphQLClient({ baseURL: `${server.baseURL}/graphql`, persistedQueries: true })
+
+    await client.query(QUERY)
+    await client.query(QUERY)
+
+    expect(sent()).toEqual([
+      { method: 'POST', query: undefined, hash: sha256(QUERY) },
+      { method: 'POST', query: QUERY, hash: undefined },
+      { method: 'POST', query: QUERY, hash: undefined },
+    ])
+  })
+
+  it('usa a função de hash informada e permite desativar APQ por operação', async () => {
+    const hash = jest.fn(() => 'abc')
+    const client = new GraphQLClient({ baseURL: `${server.baseURL}/graphql`, persistedQueries: { hash } })
+    registered.set('abc', QUERY)
+
+    await client.query(QUERY)
+    await client.query(QUERY)
+    await client.query(QUERY, {}, { persistedQuery: false })
+
+    expect(hash).toHaveBeenCalledTimes(1)
+    expect(sent()).toEqual([
+      { method: 'POST', query: undefined, hash: 'abc' },
+      { method: 'POST', query: undefined, hash: 'abc' },
+      { method: 'POST', query: QUERY, hash: undefined },
+    ])
+  })
+
+  it('com um manifesto, nunca envia o documento e rejeita operações não registradas', async () => {
+    const client = new GraphQLClient({
+      baseURL: `${server.baseURL}/graphql`,
+      persistedQueries: { manifest: { [`  ${QUERY}\n`]: 'registrado' } },
+    })
+    registered.set('registrado', QUERY)
+
+    await expect(client.query(QUERY)).resolves.toMatchObject({ data: { ok: true } })
+    await expect(client.mutate(MUTATION)).rejects.toMatchObject({ code: 'PERSISTED_QUERY_NOT_REGISTERED' })
+    expect(sent()).toEqual([{ method: 'POST', query: undefined, hash: 'registrado' }])
+  })
+})
+
+describe('getPersistedQueryError', () => {
+  it('reconhece os erros pelo código ou pela mensagem', () => {
+    expect(getPersistedQueryError({ errors: [{ message: 'x', extensions: { code: PERSISTED_QUERY_NOT_FOUND } }] })).toBe(
+      PERSISTED_QUERY_NOT_FOUND
+    )
+    expect(getPersistedQueryError({ errors: [{ message: 'PersistedQueryNotSupported' }] })).toBe(
+      PERSISTED_QUERY_NOT_SUPPORTED
+    )
+    expect(getPersistedQueryError({ errors: [{ message: 'Outro erro' }] })).toBeUndefined()
+    expect(getPersistedQueryError({ data: {} })).toBeUndefined()
+    expect(getPersistedQueryError(null)).toBeUndefined()
+  })
+})
@@ -0,0 +1,206 @@
+import { AxiosError, AxiosResponse, CanceledError } from 'axios'
+import { RetryPolicy } from '../src/types/types'
+import { ApiClient } from '../src/services/ApiClient'
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+  withRetry,
+} from '../src/utils/retry'
+import { sendJson, startTestServer, TestServer } from './support/testServer'
+
+const policy = (overrides: RetryPolicy = {}): Required<RetryPolicy> => ({
+  ...DEFAULT_RETRY_POLICY,
+  baseDelay: 100,
+  jitter: false,
+  ...overrides,
+})
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError('Falha', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    headers,
+    data: null,
+    config: {},
+  } as AxiosResponse)
+
+describe('resolveRetryPolicy', () => {
+  it('combina a política do cliente com a da requisição sobre os valores padrão', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5 }, { baseDelay: 1000 })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5,
+      baseDelay: 1000,
+    })
+  })
+
+  it('desativa as retentativas sem política ou com false na requisição', () => {
+    expect(resolveRetryPolicy()).toBeUndefined()
+    expect(resolveRetryPolicy({ maxAttempts: 5 }, false)).toBeUndefined()
+  })
+})
+
+describe('isRetryableError', () => {
+  it('repete apenas os status e códigos configurados', () => {
+    expect(isRetryableError(httpError(503), 'GET', policy())).toBe(true)
+    expect(isRetryableError(httpError(400), 'GET', policy())).toBe(false)
+    expect(isRetryableError(new AxiosError('Falha', 'ECONNRESET'), 'GET', policy())).toBe(true)
+    expect(isRetryableError(new Error('Falha'), 'GET', policy())).toBe(false)
+  })
+
+  it('não repete POST e PATCH, a menos que estejam em methods', () => {
+    expect(isRetryableError(httpError(503), 'POST', policy())).toBe(false)
+    expect(isRetryableError(httpError(503), 'patch', policy())).toBe(false)
+    expect(isRetryableError(httpError(503), 'post', policy({ methods: ['POST'] }))).toBe(true)
+  })
+
+  it('não repete requisições canceladas', () => {
+    expect(isRetryableError(new CanceledError(), 'GET', policy())).toBe(false)
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('aplica backoff exponencial limitado a maxDelay', () => {
+    expect(getRetryDelay(httpError(503), 1, policy())).toBe(100)
+    expect(getRetryDelay(httpError(503), 3, policy())).toBe(400)
+    expect(getRetryDelay(httpError(503), 10, policy({ maxDelay: 1000 }))).toBe(1000)
+  })
+
+  it('sorteia o atraso entre zero e o backoff com jitter', () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(httpError(503), 2, policy({ jitter: true }))
+      expect(delay).toBeGreaterThanOrEqual(0)
+      expect(delay).toBeLessThan(200)
+    }
+  })
+
+  it('respeita Retry-After em segundos, limitado a maxDelay', () => {
+    expect(getRetryDelay(httpError(429, { 'retry-after': '2' }), 1, policy())).toBe(2000)
+    expect(getRetryDelay(httpError(429, { 'retry-after': ' 3 ' }), 1, policy())).toBe(3000)
+    expect(getRetryDelay(httpError(429, { 'retry-after': '60' }), 1, policy({ maxDelay: 5000 }))).toBe(5000)
+  })
+
+  it('respeita Retry-After como data HTTP', () => {
+    const date = new Date(Date.now() + 4000).toUTCString()
+    const delay = getRetryDelay(httpError(503, { 'retry-after': date }), 1, policy())
+
+    expect(delay).toBeGreaterThan(2000)
+    expect(delay).toBeLessThanOrEqual(4000)
+  })
+
+  it.each(['', '   ', 'depois'])('usa o backoff quando Retry-After é "%s"', (value) => {
+    expect(getRetryDelay(httpError(503, { 'retry-after': value }), 2, policy())).toBe(200)
+  })
+
+  it('ignora Retry-After com respectRetryAfter: false', () => {
+    expect(getRetryDelay(httpError(503, { 'retry-after': '2' }), 1, policy({ respectRetryAfter: false }))).toBe(100)
+  })
+})
+
+describe('withRetry', () => {
+  const fastPolicy = policy({ baseDelay: 1 })
+
+  it('repete até a primeira tentativa bem-sucedida, informando o número da tentativa', async () => {
+    const attempts: number[] = []
+    const result = await withRetry(
+      async (attempt) => {
+        attempts.push(attempt)
+        if (attempt < 3) {
+          throw httpError(503)
+        }
+        return 'ok'
+      },
+      'GET',
+      fastPolicy
+    )
+
+    expect(result).toBe('ok')
+    expect(attempts).toEqual([1, 2, 3])
+  })
+
+  it('lança o erro da última tentativa ao atingir maxAttempts', async () => {
+    const operation = jest.fn(async () => {
+      throw httpError(503)
+    })
+
+    await expect(withRetry(operation, 'GET', policy({ baseDelay: 1, maxAttempts: 4 }))).rejects.toBeInstanceOf(AxiosError)
+    expect(operation).toHaveBeenCalledTimes(4)
+  })
+
+  it('executa uma única vez sem política ou com erro que não permite retentativa', async () => {
+    const operation = jest.fn(async () => {
+      throw httpError(503)
+    })
+
+    await expect(withRetry(operation, 'GET')).rejects.toBeInstanceOf(AxiosError)
+    await expect(withRetry(operation, 'POST', fastPolicy)).rejects.toBeInstanceOf(AxiosError)
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejeita com CanceledError quando o signal é abortado durante a espera', async () => {
+    const controller = new AbortController()
+    const operation = jest.fn(async () => {
+      setTimeout(() => controller.abort(), 0)
+      throw httpError(503)
+    })
+
+    await expect(withRetry(operation, 'GET', policy({ baseDelay: 60000 }), controller.signal)).rejects.toBeInstanceOf(
+      CanceledError
+    )
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('ApiClient com retry', () => {
+  let server: TestServer
+  let api: ApiClient
+  const hits = new Map<string, number>()
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const count = (hits.get(request.url) || 0) + 1
+      hits.set(request.url, count)
+      if (request.url === '/instavel' && count >= 3) {
+        sendJson(response, 200, { tentativa: count })
+        return
+      }
+      sendJson(response, 503, { message: 'Indisponível' })
+    })
+    api = new ApiClient({ baseURL: server.baseURL, retry: { baseDelay: 1, jitter: false } })
+  })
+
+  afterEach(() => {
+    hits.clear()
+    api.clearInterceptors()
+  })
+
+  afterAll(() => server.close())
+
+  it('repete GET até o sucesso', async () => {
+    const response = await api.get<{ tentativa: number }>('/instavel')
+
+    expect(response.data.tentativa).toBe(3)
+    expect(hits.get('/instavel')).toBe(3)
+  })
+
+  it('informa as tentativas no erro e chama os interceptadores de erro uma única vez', async () => {
+    const interceptor = jest.fn((error) => error)
+    api.addErrorInterceptor(interceptor)
+
+    await expect(api.get('/fora')).rejects.toMatchObject({ status: 503, attempts: 3 })
+    expect(hits.get('/fora')).toBe(3)
+    expect(interceptor).toHaveBeenCalledTimes(1)
+    expect(interceptor.mock.calls[0][0]).toMatchObject({ attempts: 3 })
+  })
+
+  it('não repete POST por padrão', async () => {
+    await expect(api.post('/fora', { id: 1 })).rejects.toMatchObject({ status: 503, attempts: 1 })
+    expect(hits.get('/fora')).toBe(1)
+  })
+
+  it('desativa as retentativas por requisição', async () => {
+    await expect(api.request({ url: '/fora', retry: false })).rejects.toMatchObject({ status: 503 })
+    expect(hits.get('/fora')).toBe(1)
+  })
+})
@@ -0,0 +1,75 @@
+import { createServer, IncomingHttpHeaders, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+
+/**
+ * Requisição recebida pelo servidor de teste.
+ */
+export interface RecordedRequest {
+  method: string
+  url: string
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+/**
+ * Função que responde às requisições do servidor de teste.
+ */
+export type TestHandler = (request: RecordedRequest, response: ServerResponse) => void
+
+/**
+ * Servidor HTTP local usado pelos testes.
+ */
+export interface TestServer {
+  /** URL base do servidor (ex.: 'http://127.0.0.1:53124') */
+  baseURL: string
+  /** Requisições recebidas, em ordem de chegada */
+  requests: RecordedRequest[]
+  /** Encerra o servidor */
+  close(): Promise<void>
+}
+
+/**
+ * Inicia um servidor HTTP local em uma porta livre.
+ * @param handler Função que responde às requisições
+ * @returns Servidor com a URL base e as requisições recebidas
+ */
+export function startTestServer(handler: TestHandler): Promise<TestServer> {
+  const requests: RecordedRequest[] = []
+  const server = createServer((incoming, response) => {
+    let body = ''
+    incoming.on('data', (chunk) => (body += chunk))
+    incoming.on('end', () => {
+      const request = { method: incoming.method || 'GET', url: incoming.url || '/', headers: incoming.headers, body }
+      requests.push(request)
+      handler(request, response)
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        baseURL: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      })
+    })
+  })
+}
+
+/**
+ * Responde com um corpo JSON.
+ * @param response Resposta do servidor
+ * @param status Status HTTP
+ * @param body Corpo da resposta
+ * @param headers Headers adicionais (opcional)
+ */
+export function sendJson(
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  response.end(JSON.stringify(body))
+}